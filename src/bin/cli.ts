@@ -1,12 +1,85 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import fs from 'fs';
+import path from 'path';
+import { Command, CommanderError } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import Conf from 'conf';
+import type { Ora } from 'ora';
 import { StreamPlayer } from '../player/StreamPlayer.js';
 import { RadioREPL } from '../repl/RadioREPL.js';
-import { stations, getStationById, getStationByName, getDefaultStation } from '../config/stations.js';
+import { Dashboard } from '../tui/Dashboard.js';
+import { RadioDaemon } from '../daemon/RadioDaemon.js';
+import { DaemonClient } from '../daemon/DaemonClient.js';
+import { ApiServer, DEFAULT_API_PORT } from '../server/ApiServer.js';
+import {
+  DEFAULT_STATUS_TEMPLATE,
+  STATUS_BAR_PRESETS,
+  STATUS_FIELDS,
+  getStatusBarFields,
+  isStatusBarPreset,
+  parseStatusTemplate,
+  renderStatusBar
+} from '../statusbar/format.js';
+import { StatusWatcher } from '../statusbar/StatusWatcher.js';
+import { commandRegistry } from '../commands/registry.js';
+import { PluginHost, PLUGIN_API_VERSION, getPluginDir } from '../plugins/PluginHost.js';
+import { config } from '../config/store.js';
+import {
+  getStations,
+  getUserStations,
+  getStationById,
+  getStationByName,
+  getDefaultStation,
+  isBuiltinStation,
+  isUserStation
+} from '../config/stations.js';
+import {
+  addUserStation,
+  editUserStation,
+  removeUserStation,
+  renameUserStation,
+  parseStationVariant
+} from '../config/library.js';
+import type { StationFields } from '../config/library.js';
+import {
+  getFavoriteStations,
+  isFavorite,
+  addFavorite,
+  removeFavorite,
+  moveFavorite,
+  isFavoriteSelector,
+  resolveFavoriteSelector
+} from '../config/favorites.js';
+import { getSchedules, addSchedule, removeSchedule } from '../config/schedules.js';
+import { HOOK_EVENTS, DEFAULT_HOOK_TIMEOUT, getHooks, addHook, removeHook, parseHookEvent } from '../config/hooks.js';
+import { HookRunner, createHookPayload, describeHookResult, isHookSuccess } from '../hooks/HookRunner.js';
+import { nextOccurrence } from '../scheduler/spec.js';
+import {
+  TRACK_EXPORT_FORMATS,
+  readTrackHistory,
+  filterTrackHistory,
+  parseSince,
+  getTrackDuration,
+  formatTrackName,
+  serializeTrackHistory
+} from '../history/tracks.js';
+import { readSessions } from '../stats/sessions.js';
+import { buildStatsReport } from '../stats/report.js';
+import { readFocusSessions } from '../stats/focus.js';
+import { DEFAULT_FOCUS_BREAK, DEFAULT_FOCUS_CYCLES, DEFAULT_FOCUS_WORK } from '../focus/FocusTimer.js';
+import { QUALITY_PREFERENCES, describeQuality, isQualityPreference } from '../player/quality.js';
+import { searchDirectory, directoryToStation, describeDirectoryStation } from '../directory/index.js';
+import { DEFAULT_PROBE_TIMEOUT, probeStations, runDoctor } from '../doctor/index.js';
+import {
+  PLAYLIST_FORMATS,
+  detectFormat,
+  parsePlaylist,
+  serializePlaylist,
+  planImport,
+  applyImport
+} from '../playlist/index.js';
+import type { ImportPlan } from '../playlist/index.js';
 import {
   formatStation,
   formatError,
@@ -16,75 +89,220 @@ import {
   formatControl,
   createSpinner,
   validateVolume,
-  checkFFmpeg
+  resolveVolume,
+  parseDuration,
+  parseTimeout,
+  formatCountdown,
+  formatReconnect,
+  formatFocus,
+  formatUptime,
+  formatBytes,
+  formatMetadata,
+  createProgressBar,
+  truncate,
+  createError,
+  getExitCode,
+  EXIT_CODES
 } from '../utils/helpers.js';
-import type { Station, Config } from '../types/index.js';
+import {
+  BACKEND_NAMES,
+  getBackendAvailability,
+  isBackendName,
+  resolveBackend
+} from '../player/backends/index.js';
+import type {
+  Config,
+  DirectorySearchResult,
+  CommandContext,
+  CommandDefinition,
+  HealthStatus,
+  PlayerStatus,
+  PluginInfo,
+  PlaylistFormat,
+  QualityPreference,
+  ReconnectInfo,
+  RecordingStatus,
+  Station,
+  StationProbe,
+  StatsPeriod,
+  StreamError,
+  TrackExportFormat,
+  TrackHistoryEntry
+} from '../types/index.js';
 
 const program = new Command();
-const config = new Conf<Config>({
-  projectName: 'lofi-radio',
-  defaults: {
-    lastStation: null,
-    volume: 70,
-    favorites: []
+const plugins = new PluginHost(commandRegistry, config);
+
+const parseFade = (input?: string): number | undefined => {
+  if (input === undefined) {
+    return undefined;
   }
-});
+  const seconds = parseFloat(input);
+  return isNaN(seconds) || seconds < 0 ? undefined : seconds;
+};
+
+program
+  .name('radio')
+  .description('A minimalist lofi radio CLI player')
+  .version('1.0.0')
+  .option('-b, --backend <name>', `Audio backend (auto, ${BACKEND_NAMES.join(', ')})`)
+  .option('--json', 'Print the result of play, stop, status, stations and volume, or any error, as one JSON document')
+  .addHelpText('after', `
+Exit codes:
+  ${EXIT_CODES.success}  Success
+  ${EXIT_CODES.error}  Any other error
+  ${EXIT_CODES.invalidArgument}  Invalid argument or usage
+  ${EXIT_CODES.notFound}  Station, favorite or schedule not found
+  ${EXIT_CODES.backendMissing}  No audio backend installed
+  ${EXIT_CODES.network}  Network failure: the stream or directory couldn't be reached
+  ${EXIT_CODES.alreadyPlaying}  That station is already playing`)
+  // Usage errors are thrown rather than exiting, so they get their own exit code (see the end of the file)
+  .exitOverride();
+
+const isJsonOutput = (): boolean => {
+  return Boolean(program.opts().json);
+};
 
-const player = new StreamPlayer();
-let currentSpinner: any = null;
+const printJson = (document: unknown): void => {
+  console.log(JSON.stringify(document, null, 2));
+};
 
-player.on('playing', (station: Station) => {
-  if (currentSpinner) {
-    currentSpinner.succeed(formatSuccess(`Connected to ${station.name}`));
-    currentSpinner = null;
+/**
+ * Reports an error and exits with the code scripts can rely on (see
+ * EXIT_CODES): as {"error": {"code", "message"}} with --json, otherwise as
+ * the usual message, on the spinner if one is running.
+ */
+// Typed up front so TypeScript knows nothing runs after a call
+const exitWithError: (error: { code?: string; message: string }, spinner?: Ora | null) => never = (error, spinner) => {
+  if (isJsonOutput()) {
+    spinner?.stop();
+    printJson({ error: { code: error.code || 'ERROR', message: error.message } });
+  } else if (spinner) {
+    spinner.fail(formatError(error.message));
+  } else {
+    console.log(formatError(error.message));
   }
-  console.log(formatMusic(`Now playing: ${station.name}`));
-  console.log(chalk.dim(`   ${station.description}`));
-  console.log(chalk.dim(`   Quality: ${station.quality}`));
-  console.log(chalk.dim(`   Volume: ${player.getState().volume}%`));
-  console.log('');
-  console.log(chalk.dim('   Press Ctrl+C to stop or use "radio stop"'));
-});
+  process.exit(getExitCode(error.code));
+};
 
-player.on('stopped', () => {
-  console.log(formatControl('Playback stopped'));
-});
+// Runs a command from the shared registry, built-in or from a plugin, with one daemon connection at most
+const runRegisteredCommand = async (command: CommandDefinition, args: string[]): Promise<void> => {
+  // Undefined until the command asks for a connection, and null when no daemon was running
+  let client: DaemonClient | null | undefined;
+  const context: CommandContext = {
+    surface: 'cli',
+    config,
+    connect: async () => client ??= await DaemonClient.connect(),
+    ensureDaemon: async () => client ??= await DaemonClient.ensureRunning(),
+    json: isJsonOutput()
+  };
 
-player.on('error', (error) => {
-  if (currentSpinner) {
-    currentSpinner.fail(formatError(error.message));
-    currentSpinner = null;
+  try {
+    await commandRegistry.run(command, args, context);
+  } catch (error: any) {
+    exitWithError(error);
+  } finally {
+    client?.close();
   }
-});
+};
 
-player.on('reconnecting', (attempt: number) => {
-  console.log(formatInfo(`Reconnecting... (attempt ${attempt})`));
-});
+// Commands come from the shared registry; the built-ins without run() get their options and action below
+commandRegistry.attachTo(program, runRegisteredCommand);
 
-program
-  .name('radio')
-  .description('A minimalist lofi radio CLI player')
-  .version('1.0.0');
+const getBuiltinCommand = (name: string): Command => {
+  const command = program.commands.find(attached => attached.name() === name);
+  if (!command) {
+    throw new Error(`"${name}" is not a CLI command in the registry`);
+  }
+  return command;
+};
 
-program
-  .command('play [station]')
-  .description('Play a lofi radio station')
-  .option('-v, --volume <level>', 'Set volume (0-100)')
-  .action(async (stationInput?: string, options?: any) => {
-    const ffmpegInstalled = await checkFFmpeg();
-    if (!ffmpegInstalled) {
-      console.log(formatError('ffplay not found. Please install ffmpeg: https://ffmpeg.org/download.html'));
-      process.exit(1);
+interface PlaybackOptions {
+  volume: number;
+  backend: string;
+  fade?: number;
+  sleep?: number;
+  sleepFade?: number;
+  quality?: QualityPreference;
+}
+
+// Hands the station to the daemon (starting it if needed) and reports the outcome
+const startPlayback = async (station: Station, options: PlaybackOptions): Promise<void> => {
+  const spinner = isJsonOutput() ? null : createSpinner(`Connecting to ${station.name}...`).start();
+
+  let client: DaemonClient | null = null;
+  try {
+    client = await DaemonClient.ensureRunning();
+
+    const current = await client.status();
+    if (current.isPlaying && current.currentStation?.id === station.id) {
+      throw createError('ALREADY_PLAYING', `Already playing ${station.name}`);
     }
 
+    client.on('reconnecting', (info: ReconnectInfo) => {
+      if (spinner) {
+        spinner.text = chalk.cyan(formatReconnect(info));
+      }
+    });
+    client.on('error', (_error: StreamError) => {
+      // The play request itself reports the final outcome
+    });
+    await client.subscribe();
+
+    const status = await client.play(
+      station,
+      options.volume,
+      options.backend,
+      options.fade,
+      options.sleep,
+      options.sleepFade,
+      options.quality
+    );
+    if (!spinner) {
+      printJson({ station, status });
+      return;
+    }
+    spinner.succeed(formatSuccess(`Connected to ${station.name}`));
+
+    console.log(formatMusic(`Now playing: ${station.name}`));
+    console.log(chalk.dim(`   ${station.description}`));
+    const quality = status.quality
+      ? describeQuality(station, status.quality, status.qualityMode)
+      : station.quality;
+    console.log(chalk.dim(`   Quality: ${quality}`));
+    console.log(chalk.dim(`   Volume: ${status.volume}%`));
+    if (status.sleepRemaining !== null) {
+      console.log(chalk.dim(`   Sleeping in ${formatCountdown(status.sleepRemaining)}`));
+    }
+    console.log('');
+    console.log(chalk.dim('   Playing in the background. Use "radio stop" to stop'));
+  } catch (error: any) {
+    client?.close();
+    exitWithError(error, spinner);
+  } finally {
+    client?.close();
+  }
+};
+
+getBuiltinCommand('play')
+  .option('-v, --volume <level>', 'Set volume (0-100)')
+  .option('--fade <seconds>', 'Fade in over this many seconds')
+  .option('--sleep <duration>', 'Stop playing after a while, e.g. 45m or 1h30m')
+  .option('--sleep-fade <duration>', 'Fade out over the last part of the sleep timer, e.g. 5m')
+  .option('-q, --quality <tier>', `Stream quality (${QUALITY_PREFERENCES.join(', ')}); auto adapts to the connection`)
+  .action(async (stationInput?: string, options?: any) => {
     let selectedStation: Station | undefined;
 
-    if (stationInput) {
+    if (stationInput && isFavoriteSelector(stationInput)) {
+      try {
+        selectedStation = resolveFavoriteSelector(stationInput);
+      } catch (error: any) {
+        exitWithError(error);
+      }
+    } else if (stationInput) {
       selectedStation = getStationById(stationInput) || getStationByName(stationInput);
       if (!selectedStation) {
-        console.log(formatError(`Station "${stationInput}" not found`));
-        console.log(formatInfo('Use "radio stations" to see available stations'));
-        process.exit(1);
+        exitWithError(createError('STATION_NOT_FOUND', `Station "${stationInput}" not found (see "radio stations")`));
       }
     } else {
       const lastStationId = config.get('lastStation');
@@ -92,11 +310,18 @@ program
         selectedStation = getStationById(lastStationId);
       }
 
-      if (!selectedStation) {
-        const choices = stations.map(station => ({
-          name: `${station.name} - ${station.genre}`,
+      // Scripts can't answer a prompt, so --json falls through to the default station
+      if (!selectedStation && !isJsonOutput()) {
+        const favorites = getFavoriteStations();
+        const others = getStations().filter(station => !isFavorite(station.id));
+        const toChoice = (station: Station) => ({
+          name: `${isFavorite(station.id) ? chalk.yellow('★ ') : ''}${station.name} - ${station.genre}`,
           value: station.id
-        }));
+        });
+
+        const choices = favorites.length > 0
+          ? [...favorites.map(toChoice), new inquirer.Separator(), ...others.map(toChoice)]
+          : others.map(toChoice);
 
         const answer = await inquirer.prompt([
           {
@@ -115,122 +340,1398 @@ program
       selectedStation = getDefaultStation();
     }
 
+    // After the station, so a typo is reported as such even without a backend installed
+    let backendName: string;
+    try {
+      backendName = (await resolveBackend(program.opts().backend || config.get('backend'))).name;
+    } catch (error: any) {
+      exitWithError(error);
+    }
+
     let volume = config.get('volume');
     if (options?.volume) {
       const parsedVolume = validateVolume(options.volume);
       if (parsedVolume === null) {
-        console.log(formatError('Volume must be between 0 and 100'));
-        process.exit(1);
+        exitWithError(createError('INVALID_VOLUME', 'Volume must be between 0 and 100'));
       }
       volume = parsedVolume;
       config.set('volume', volume);
     }
 
+    let sleep: number | undefined;
+    let sleepFade: number | undefined;
+    if (options?.sleep) {
+      sleep = parseDuration(options.sleep) ?? undefined;
+      sleepFade = options.sleepFade ? parseDuration(options.sleepFade) ?? undefined : undefined;
+      if (!sleep || (options.sleepFade && sleepFade === undefined)) {
+        exitWithError(createError('INVALID_DURATION', 'Sleep durations look like 45m, 1h30m or 90s'));
+      }
+    }
+
+    if (options?.quality && !isQualityPreference(options.quality)) {
+      exitWithError(createError('INVALID_QUALITY', `Unknown quality "${options.quality}" (expected ${QUALITY_PREFERENCES.join(', ')})`));
+    }
+
     config.set('lastStation', selectedStation.id);
 
-    currentSpinner = createSpinner(`Connecting to ${selectedStation.name}...`);
-    currentSpinner.start();
+    await startPlayback(selectedStation, {
+      volume,
+      backend: backendName,
+      fade: parseFade(options?.fade),
+      sleep,
+      sleepFade,
+      quality: options?.quality
+    });
+  });
 
+getBuiltinCommand('stop')
+  .option('--fade <seconds>', 'Fade out over this many seconds')
+  .action(async (options: { fade?: string }) => {
+    const client = await DaemonClient.connect();
+    if (!client) {
+      if (isJsonOutput()) {
+        printJson({ stopped: false, status: null });
+      } else {
+        console.log(formatInfo('No station is currently playing'));
+      }
+      process.exit(0);
+    }
+
+    let state: PlayerStatus;
+    let status: PlayerStatus;
     try {
-      await player.play(selectedStation, volume);
+      state = await client.status();
+      status = state.isPlaying ? await client.stop(parseFade(options.fade)) : state;
     } catch (error: any) {
-      if (currentSpinner) {
-        currentSpinner.fail(formatError(error.message));
-      }
-      process.exit(1);
+      client.close();
+      exitWithError(error);
     }
-  });
+    client.close();
 
-program
-  .command('stop')
-  .description('Stop the current playback')
-  .action(async () => {
-    const state = player.getState();
-    if (!state.isPlaying) {
+    if (isJsonOutput()) {
+      printJson({ stopped: state.isPlaying, status });
+    } else if (!state.isPlaying) {
       console.log(formatInfo('No station is currently playing'));
-      process.exit(0);
+    } else {
+      console.log(formatControl('Playback stopped'));
     }
-
-    await player.stop();
   });
 
-program
-  .command('status')
-  .description('Show current playback status')
-  .action(() => {
-    const state = player.getState();
+getBuiltinCommand('status')
+  .option('-f, --format <format>', `A status bar preset (${STATUS_BAR_PRESETS.join(', ')}) or a template such as "{station} {volume}%"`)
+  .option('-w, --watch', 'Print a new line whenever the status changes, for long-running bar modules')
+  .addHelpText('after', `\nTemplate placeholders: ${STATUS_FIELDS.map(field => `{${field}}`).join(' ')}
+"{track|station}" shows the first that isn't empty; "{track:30}" cuts to 30 characters.`)
+  .action(async (options: { format?: string; watch?: boolean }) => {
+    if (options.format || options.watch) {
+      await printStatusBar(options.format || DEFAULT_STATUS_TEMPLATE, Boolean(options.watch));
+      return;
+    }
+
+    const client = await DaemonClient.connect();
+    const state = client ? await client.status() : null;
+    client?.close();
 
-    if (!state.isPlaying || !state.currentStation) {
+    // null when no daemon is running
+    if (isJsonOutput()) {
+      printJson({ status: state });
+      return;
+    }
+
+    if (!state || !state.isPlaying || !state.currentStation) {
       console.log(formatMusic('Status: Not playing'));
+      if (state?.recording) {
+        console.log(`   Recording: ${describeRecording(state.recording)}`);
+      }
     } else {
       console.log(formatMusic('Status: Playing'));
       console.log(`   Station: ${state.currentStation.name}`);
       console.log(`   Genre: ${state.currentStation.genre}`);
-      console.log(`   Uptime: ${player.getUptime()}`);
-      console.log(`   Volume: ${state.volume}%`);
+      if (state.track) {
+        console.log(`   Track: ${formatMetadata(state.track)}`);
+      }
+      console.log(`   Uptime: ${state.uptime}`);
+      console.log(`   Volume: ${state.volume}%${state.muted ? ' (muted)' : ''}`);
+      console.log(`   Backend: ${state.backend}`);
+      if (state.quality) {
+        console.log(`   Quality: ${describeQuality(state.currentStation, state.quality, state.qualityMode)}`);
+      }
+      if (state.sleepRemaining !== null) {
+        console.log(`   Sleep: ${formatCountdown(state.sleepRemaining)} left`);
+      }
+      if (state.recording) {
+        console.log(`   Recording: ${describeRecording(state.recording)}`);
+      }
+    }
+
+    // A silent focus break isn't playing anything, but the session is still on
+    if (state?.focus) {
+      console.log(`   Focus: ${formatFocus(state.focus)}`);
     }
   });
 
-program
-  .command('stations')
-  .description('List all available stations')
-  .action(() => {
+// Bar output goes to stdout bare: no colours or prose, one line per update when watching
+const printStatusBar = async (format: string, watch: boolean): Promise<void> => {
+  if (!isStatusBarPreset(format)) {
+    try {
+      parseStatusTemplate(format);
+    } catch (error: any) {
+      console.error(formatError(error.message));
+      process.exit(getExitCode(error.code));
+    }
+  }
+
+  if (!watch) {
+    const client = await DaemonClient.connect();
+    const state = client ? await client.status() : null;
+    client?.close();
+    console.log(renderStatusBar(format, getStatusBarFields(state)));
+    return;
+  }
+
+  const watcher = new StatusWatcher((state, reconnecting) => renderStatusBar(format, getStatusBarFields(state, reconnecting), true));
+  watcher.on('line', (line: string) => console.log(line));
+  const close = () => {
+    watcher.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', close);
+  process.on('SIGTERM', close);
+  // Bars close the pipe when they reload; there's no one left to write to
+  process.stdout.on('error', close);
+  await watcher.start();
+};
+
+const describeRecording = (recording: RecordingStatus): string => {
+  const parts = [
+    recording.station.name,
+    formatBytes(recording.bytes),
+    formatUptime(recording.elapsed),
+    `${recording.tracks} track${recording.tracks === 1 ? '' : 's'}`
+  ];
+  return parts.join(' • ');
+};
+
+getBuiltinCommand('record')
+  .option('-d, --duration <duration>', 'Stop recording after this long, e.g. 1h')
+  .option('-o, --out <dir>', 'Directory to save recordings in (default ~/Music/lofi-radio)')
+  .action(async (stationInput: string | undefined, options: { duration?: string; out?: string }) => {
+    if (stationInput?.toLowerCase() === 'stop') {
+      const client = await DaemonClient.connect();
+      if (!client) {
+        console.log(formatInfo('Nothing is being recorded'));
+        return;
+      }
+
+      try {
+        const summary = await client.stopRecording();
+        console.log(formatSuccess(`Saved ${summary.tracks} track(s), ${formatBytes(summary.bytes)}, to ${summary.directory}`));
+      } catch (error: any) {
+        console.log(formatInfo(error.message));
+      } finally {
+        client.close();
+      }
+      return;
+    }
+
+    const duration = options.duration ? parseDuration(options.duration) : undefined;
+    if (duration === null || duration === 0) {
+      exitWithError(createError('INVALID_DURATION', 'Durations look like 45m, 1h30m or 90s'));
+    }
+
+    const client = await DaemonClient.ensureRunning();
+    let station: Station | undefined;
+    if (stationInput && isFavoriteSelector(stationInput)) {
+      try {
+        station = resolveFavoriteSelector(stationInput);
+      } catch (error: any) {
+        client.close();
+        exitWithError(error);
+      }
+    } else if (stationInput) {
+      station = getStationById(stationInput) || getStationByName(stationInput);
+    } else {
+      // Without a station, record whatever is playing
+      station = (await client.status()).currentStation || undefined;
+    }
+
+    if (!station) {
+      client.close();
+      exitWithError(stationInput
+        ? createError('STATION_NOT_FOUND', `Station "${stationInput}" not found`)
+        : createError('NOT_PLAYING', 'Nothing is playing; name a station to record'));
+    }
+
+    try {
+      const status = await client.record(station, duration, options.out ? path.resolve(options.out) : undefined);
+      console.log(formatSuccess(`Recording ${station.name}`));
+      console.log(chalk.dim(`   Saving to ${status.recording?.directory}`));
+      if (duration) {
+        console.log(chalk.dim(`   Stops after ${formatUptime(duration)}`));
+      }
+      console.log(chalk.dim('   Use "radio record stop" to finish'));
+    } catch (error: any) {
+      exitWithError(error);
+    } finally {
+      client.close();
+    }
+  });
+
+const stationsCommand = getBuiltinCommand('stations')
+  .action(async () => {
+    const client = await DaemonClient.connect();
+    const catalog = client ? await client.stations() : { stations: getStations(), currentStationId: null };
+    client?.close();
+
+    if (isJsonOutput()) {
+      printJson({
+        stations: catalog.stations.map(station => ({ ...station, favorite: isFavorite(station.id), custom: isUserStation(station.id) })),
+        currentStationId: catalog.currentStationId
+      });
+      return;
+    }
+
     console.log(formatMusic('Available Stations:\n'));
-    stations.forEach((station, index) => {
-      console.log(`${chalk.yellow(`[${station.id}]`)} ${formatStation(station)}`);
-      if (index < stations.length - 1) {
+    catalog.stations.forEach((station, index) => {
+      const playing = station.id === catalog.currentStationId ? ` ${chalk.green('♪')}` : '';
+      const custom = isUserStation(station.id) ? ` ${chalk.magenta('(custom)')}` : '';
+      const star = isFavorite(station.id) ? ` ${chalk.yellow('★')}` : '';
+      console.log(`${chalk.yellow(`[${station.id}]`)}${star}${playing}${custom} ${formatStation(station)}`);
+      if (index < catalog.stations.length - 1) {
         console.log('');
       }
     });
   });
 
-program
-  .command('volume [level]')
-  .description('Set or show volume level (0-100)')
-  .action((level?: string) => {
+const stationFieldOptions = (command: Command): Command => {
+  return command
+    .option('-n, --name <name>', 'Display name')
+    .option('-g, --genre <genre>', 'Genre')
+    .option('-d, --description <text>', 'Short description')
+    .option('-q, --quality <quality>', 'Stream quality, e.g. "128kbps MP3"')
+    .option('-m, --mirrors <urls...>', 'Backup stream URLs, tried in order when the main one fails')
+    .option('--variant <spec...>', 'Lower-quality streams as tier=url, e.g. low=http://example.com/64 (replaces existing ones)');
+};
+
+type StationFieldInput = Omit<StationFields, 'variants'> & { variant?: string[] };
+
+const toStationFields = ({ variant, ...fields }: StationFieldInput): StationFields => {
+  return variant ? { ...fields, variants: variant.map(parseStationVariant) } : fields;
+};
+
+const runConfigAction = (action: () => void): void => {
+  try {
+    action();
+  } catch (error: any) {
+    exitWithError(error);
+  }
+};
+
+stationFieldOptions(
+  stationsCommand
+    .command('add <id> <url>')
+    .description('Add a station to your library')
+).action((id: string, url: string, options: StationFieldInput) => {
+  runConfigAction(() => {
+    const station = addUserStation(id, url, toStationFields(options));
+    const shadows = isBuiltinStation(id) ? chalk.dim(' (overrides the built-in station)') : '';
+    console.log(formatSuccess(`Added ${station.name} [${station.id}]`) + shadows);
+  });
+});
+
+stationFieldOptions(
+  stationsCommand
+    .command('edit <id>')
+    .description('Edit a station in your library')
+    .option('-u, --url <url>', 'Stream URL')
+).action((id: string, options: StationFieldInput) => {
+  runConfigAction(() => {
+    const station = editUserStation(id, toStationFields(options));
+    console.log(formatSuccess(`Updated ${station.name} [${station.id}]`));
+  });
+});
+
+stationsCommand
+  .command('remove <id>')
+  .alias('rm')
+  .description('Remove a station from your library')
+  .action((id: string) => {
+    runConfigAction(() => {
+      const station = removeUserStation(id);
+      console.log(formatSuccess(`Removed ${station.name} [${station.id}]`));
+      if (isBuiltinStation(id)) {
+        console.log(formatInfo('The built-in station with this id is available again'));
+      }
+    });
+  });
+
+stationsCommand
+  .command('rename <id> <newId>')
+  .description('Change the id of a station in your library')
+  .action((id: string, newId: string) => {
+    runConfigAction(() => {
+      const station = renameUserStation(id, newId);
+      console.log(formatSuccess(`Renamed [${id}] to [${station.id}]`));
+    });
+  });
+
+const HEALTH_ICONS: Record<HealthStatus, string> = {
+  ok: chalk.green('✔'),
+  warning: chalk.yellow('!'),
+  broken: chalk.red('✘')
+};
+
+const parseProbeTimeout = (input?: string): number => {
+  if (input === undefined) {
+    return DEFAULT_PROBE_TIMEOUT;
+  }
+  const seconds = parseTimeout(input);
+  if (!seconds || seconds <= 0) {
+    exitWithError(createError('INVALID_TIMEOUT', `Invalid timeout "${input}" (e.g. 10, 10s)`));
+  }
+  return seconds * 1000;
+};
+
+const printStationProbes = (probes: StationProbe[]): void => {
+  const nameWidth = Math.min(24, Math.max(7, ...probes.map(probe => probe.stationName.length)));
+  const header = `   ${'Station'.padEnd(nameWidth)}  ${'HTTP'.padEnd(4)}  ${'Type'.padEnd(16)}  ${'Bitrate'.padEnd(7)}  ${'TTFB'.padEnd(6)}  Audio`;
+  console.log(chalk.dim(header));
+
+  probes.forEach(probe => {
+    const name = truncate(probe.stationName, nameWidth).padEnd(nameWidth);
+    const http = String(probe.httpStatus ?? '-').padEnd(4);
+    const type = truncate(probe.contentType?.split(';')[0] || '-', 16).padEnd(16);
+    const bitrate = (probe.bitrate ? `${probe.bitrate}k` : '-').padEnd(7);
+    const ttfb = (probe.ttfb !== null ? `${probe.ttfb}ms` : '-').padEnd(6);
+    console.log(`${HEALTH_ICONS[probe.status]}  ${chalk.white(name)}  ${http}  ${type}  ${bitrate}  ${ttfb}  ${probe.audioFormat || '-'}`);
+  });
+
+  const withProblems = probes.filter(probe => probe.problems.length > 0);
+  if (withProblems.length > 0) {
+    console.log('');
+    withProblems.forEach(probe => {
+      probe.problems.forEach(problem => {
+        console.log(`${HEALTH_ICONS[probe.status]}  ${chalk.yellow(`[${probe.stationId}]`)} ${problem}`);
+      });
+    });
+  }
+};
+
+stationsCommand
+  .command('check')
+  .description('Check that every station is reachable and streaming audio')
+  .option('-t, --timeout <duration>', 'Give up on a station after this long', '8s')
+  .option('--json', 'Print the results as JSON')
+  .action(async (options: { timeout?: string; json?: boolean }) => {
+    const json = options.json || isJsonOutput();
+    const timeout = parseProbeTimeout(options.timeout);
+    const spinner = json ? null : createSpinner('Checking stations...').start();
+    const probes = await probeStations(getStations(), timeout);
+    spinner?.stop();
+
+    if (json) {
+      console.log(JSON.stringify(probes, null, 2));
+    } else {
+      console.log(formatMusic('Station health:\n'));
+      printStationProbes(probes);
+    }
+
+    if (probes.some(probe => probe.status === 'broken')) {
+      process.exitCode = 1;
+    }
+  });
+
+getBuiltinCommand('search')
+  .option('-g, --genre <tag>', 'Only stations tagged with this genre')
+  .option('-c, --country <country>', 'Only stations from this country (name or two-letter code)')
+  .option('--codec <codec>', 'Only stations using this codec, e.g. mp3 or aac')
+  .option('-n, --limit <count>', 'Number of results', '20')
+  .option('--json', 'Print the results as JSON instead of picking one')
+  .action(async (words: string[], options: { genre?: string; country?: string; codec?: string; limit: string; json?: boolean }) => {
+    const json = options.json || isJsonOutput();
+    const spinner = json ? null : createSpinner('Searching the station directory...').start();
+    let result: DirectorySearchResult;
+    try {
+      result = await searchDirectory({
+        query: words.join(' '),
+        genre: options.genre,
+        country: options.country,
+        codec: options.codec,
+        limit: parseInt(options.limit, 10) || 20
+      });
+      spinner?.stop();
+    } catch (error: any) {
+      spinner?.stop();
+      exitWithError(error);
+    }
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.stale) {
+      console.log(formatInfo(`Offline: showing results from ${new Date(result.fetchedAt).toLocaleString()}`));
+    }
+    if (result.stations.length === 0) {
+      console.log(formatInfo('No stations found'));
+      return;
+    }
+
+    const { uuid } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'uuid',
+        message: `${result.stations.length} station${result.stations.length === 1 ? '' : 's'} found:`,
+        pageSize: 15,
+        choices: result.stations.map(station => ({
+          name: `${station.name} ${chalk.dim(`• ${[station.countryCode, describeDirectoryStation(station), station.tags.slice(0, 3).join(', ')].filter(Boolean).join(' • ')}`)}`,
+          value: station.uuid
+        }))
+      }
+    ]);
+
+    const chosen = result.stations.find(station => station.uuid === uuid)!;
+    const station = directoryToStation(chosen);
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: station.name,
+        choices: [
+          { name: 'Play now', value: 'play' },
+          { name: `Save to library as [${station.id}]`, value: 'save' },
+          { name: 'Save and play', value: 'save-play' },
+          { name: 'Cancel', value: 'cancel' }
+        ]
+      }
+    ]);
+
+    if (action === 'save' || action === 'save-play') {
+      runConfigAction(() => {
+        const { id, url, ...fields } = station;
+        addUserStation(id, url, fields);
+        console.log(formatSuccess(`Added ${station.name} [${station.id}]`));
+      });
+    }
+
+    if (action === 'play' || action === 'save-play') {
+      const backend = await resolveBackend(program.opts().backend || config.get('backend')).catch((error: Error) => {
+        exitWithError(error);
+      });
+      if (action === 'save-play') {
+        config.set('lastStation', station.id);
+      }
+      await startPlayback(station, { volume: config.get('volume'), backend: backend.name });
+    }
+  });
+
+const favCommand = getBuiltinCommand('fav');
+
+favCommand
+  .command('list', { isDefault: true })
+  .description('List favorite stations in order')
+  .action(() => {
+    const favorites = getFavoriteStations();
+    if (favorites.length === 0) {
+      console.log(formatInfo('No favorites yet. Add one with "radio fav add <station>"'));
+      return;
+    }
+
+    console.log(formatMusic('Favorite Stations:\n'));
+    favorites.forEach((station, index) => {
+      console.log(`${chalk.yellow(`${index + 1}.`)} ${chalk.yellow('★')} ${chalk.cyan(`[${station.id}]`)} ${chalk.white(station.name)}`);
+    });
+    console.log('');
+    console.log(chalk.dim('   Play with "radio play fav", "radio play fav:2" or "radio play fav:random"'));
+  });
+
+favCommand
+  .command('add <station>')
+  .description('Add a station to your favorites')
+  .action((input: string) => {
+    runConfigAction(() => {
+      const station = addFavorite(input);
+      console.log(formatSuccess(`Added ${station.name} to favorites`));
+    });
+  });
+
+favCommand
+  .command('remove <station>')
+  .alias('rm')
+  .description('Remove a station from your favorites')
+  .action((input: string) => {
+    runConfigAction(() => {
+      const id = removeFavorite(input);
+      console.log(formatSuccess(`Removed [${id}] from favorites`));
+    });
+  });
+
+favCommand
+  .command('move <station> <position>')
+  .description('Move a favorite to a position in the list (1 = first)')
+  .action((input: string, position: string) => {
+    runConfigAction(() => {
+      const station = moveFavorite(input, parseInt(position, 10));
+      console.log(formatSuccess(`Moved ${station.name} to position ${position}`));
+    });
+  });
+
+const scheduleCommand = getBuiltinCommand('schedule');
+
+scheduleCommand
+  .command('list', { isDefault: true })
+  .description('List scheduled entries and when they next run')
+  .action(() => {
+    const schedules = getSchedules();
+    if (schedules.length === 0) {
+      console.log(formatInfo('Nothing scheduled. Add an entry with "radio schedule add \"mon-fri 09:00\" <station>"'));
+      return;
+    }
+
+    console.log(formatMusic('Schedule:\n'));
+    const now = new Date();
+    schedules.forEach(entry => {
+      const station = entry.stationId ? getStationById(entry.stationId) : undefined;
+      const target = entry.action === 'stop'
+        ? chalk.red('stop')
+        : chalk.white(station ? station.name : `${entry.stationId} (missing)`);
+      const details = [
+        entry.volume !== undefined ? `volume ${entry.volume}%` : '',
+        entry.ramp ? `ramp ${formatCountdown(entry.ramp)}` : '',
+        entry.skipIfPlaying ? 'skip if playing' : ''
+      ].filter(Boolean).join(', ');
+      const next = nextOccurrence(entry, now);
+
+      console.log(`${chalk.yellow(`[${entry.id}]`)} ${chalk.cyan(entry.when)} ${target}${details ? chalk.dim(` (${details})`) : ''}`);
+      console.log(chalk.dim(`    Next: ${next ? next.toLocaleString() : 'never'}`));
+    });
+  });
+
+scheduleCommand
+  .command('add <when> <station>')
+  .description('Schedule a station, or "stop", e.g. add "mon-fri 09:00" soma-groove')
+  .option('-v, --volume <level>', 'Volume to play at (0-100)')
+  .option('--ramp <duration>', 'Ramp the volume up from silence over this long, e.g. 5m')
+  .option('--skip-if-playing', 'Leave playback alone if something is already playing')
+  .action(async (when: string, target: string, options: { volume?: string; ramp?: string; skipIfPlaying?: boolean }) => {
+    let volume: number | undefined;
+    if (options.volume !== undefined) {
+      const parsedVolume = validateVolume(options.volume);
+      if (parsedVolume === null) {
+        exitWithError(createError('INVALID_VOLUME', 'Volume must be between 0 and 100'));
+      }
+      volume = parsedVolume;
+    }
+
+    const ramp = options.ramp ? parseDuration(options.ramp) : undefined;
+    if (ramp === null) {
+      exitWithError(createError('INVALID_DURATION', 'Ramp durations look like 5m, 90s or 1m30s'));
+    }
+
+    runConfigAction(() => {
+      const entry = addSchedule(when, target, { volume, ramp, skipIfPlaying: options.skipIfPlaying });
+      const next = nextOccurrence(entry, new Date());
+      console.log(formatSuccess(`Added schedule [${entry.id}]: ${entry.when} ${entry.action === 'stop' ? 'stop' : entry.stationId}`));
+      if (next) {
+        console.log(formatInfo(`Next run: ${next.toLocaleString()}`));
+      }
+    });
+
+    // Schedules run inside the daemon, so make sure one is around to run them
+    try {
+      const client = await DaemonClient.ensureRunning();
+      client.close();
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+
+scheduleCommand
+  .command('remove <id>')
+  .alias('rm')
+  .description('Remove a scheduled entry')
+  .action((id: string) => {
+    runConfigAction(() => {
+      const entry = removeSchedule(id);
+      console.log(formatSuccess(`Removed schedule [${entry.id}] (${entry.when})`));
+    });
+  });
+
+const hooksCommand = getBuiltinCommand('hooks')
+  .addHelpText('after', `
+Events: ${HOOK_EVENTS.join(', ')}
+Commands run through the shell and get the details as JSON on stdin and in
+RADIO_HOOK_EVENT, RADIO_STATION_ID, RADIO_STATION_NAME, RADIO_STATION_URL,
+RADIO_STATION_GENRE, RADIO_TRACK, RADIO_TRACK_ARTIST, RADIO_TRACK_TITLE,
+RADIO_ERROR_CODE and RADIO_ERROR_MESSAGE. Their output goes to the daemon log.`);
+
+hooksCommand
+  .command('list', { isDefault: true })
+  .description('List hooks by event')
+  .action(() => {
+    const hooks = getHooks();
+    if (isJsonOutput()) {
+      printJson({ hooks, concurrency: config.get('hookConcurrency') });
+      return;
+    }
+    if (hooks.length === 0) {
+      console.log(formatInfo('No hooks yet. Add one with "radio hooks add on_play \'notify-send \"$RADIO_STATION_NAME\"\'"'));
+      return;
+    }
+
+    console.log(formatMusic('Hooks:\n'));
+    HOOK_EVENTS.forEach(event => {
+      hooks.filter(hook => hook.event === event).forEach(hook => {
+        console.log(`${chalk.yellow(`[${hook.id}]`)} ${chalk.cyan(hook.event)} ${chalk.white(hook.command)}${chalk.dim(` (timeout ${hook.timeout}s)`)}`);
+      });
+    });
+    console.log('');
+    console.log(chalk.dim(`   Up to ${config.get('hookConcurrency')} run at once (hookConcurrency in ${config.path})`));
+  });
+
+hooksCommand
+  .command('add <event> <command>')
+  .description('Run a command on an event, e.g. add on_play \'notify-send "$RADIO_STATION_NAME"\'')
+  .option('-t, --timeout <duration>', 'Kill the command after this long', `${DEFAULT_HOOK_TIMEOUT}s`)
+  .action((event: string, command: string, options: { timeout: string }) => {
+    // A bare number is seconds, as for every other timeout
+    const timeout = parseTimeout(options.timeout);
+    if (timeout === null) {
+      exitWithError(createError('INVALID_TIMEOUT', 'Timeouts look like 10, 10s, 1m or 1m30s'));
+    }
+
+    runConfigAction(() => {
+      const hook = addHook(parseHookEvent(event), command, timeout);
+      console.log(formatSuccess(`Added hook [${hook.id}]: ${hook.event} runs ${hook.command}`));
+    });
+  });
+
+hooksCommand
+  .command('remove <id>')
+  .alias('rm')
+  .description('Remove a hook')
+  .action((id: string) => {
+    runConfigAction(() => {
+      const hook = removeHook(id);
+      console.log(formatSuccess(`Removed hook [${hook.id}] (${hook.event})`));
+    });
+  });
+
+hooksCommand
+  .command('test <hook>')
+  .description('Run a hook, or every hook for an event, now with sample details')
+  .action(async (target: string) => {
+    const byId = getHooks().filter(hook => hook.id === target);
+    let hooks = byId;
+    if (byId.length === 0) {
+      try {
+        const event = parseHookEvent(target);
+        hooks = getHooks().filter(hook => hook.event === event);
+      } catch {
+        exitWithError(createError('HOOK_NOT_FOUND', `No hook or event "${target}" (see "radio hooks")`));
+      }
+    }
+    if (hooks.length === 0) {
+      exitWithError(createError('HOOK_NOT_FOUND', `No hooks for ${target} yet`));
+    }
+
+    // The station and track playing now if there are any, so the test sees real values
+    const client = await DaemonClient.connect();
+    const state = client ? await client.status() : null;
+    client?.close();
+    const lastStationId = config.get('lastStation');
+    const station = state?.currentStation || (lastStationId ? getStationById(lastStationId) : undefined) || getDefaultStation();
+    const sampleError = { code: 'HOOK_TEST', message: 'Sample error from "radio hooks test"' };
+
+    const runner = new HookRunner(config);
+    const results = await Promise.all(hooks.map(hook => {
+      const failing = hook.event === 'on_error' || hook.event === 'on_connection_lost';
+      return runner.run(hook, createHookPayload(hook.event, station, state?.track ?? null, failing ? sampleError : null));
+    }));
+    if (results.some(result => !isHookSuccess(result))) {
+      process.exitCode = EXIT_CODES.error;
+    }
+
+    if (isJsonOutput()) {
+      printJson({ results });
+      return;
+    }
+    results.forEach((result, index) => {
+      const hook = hooks[index];
+      const icon = isHookSuccess(result) ? chalk.green('✔') : chalk.red('✖');
+      console.log(`${icon}  ${chalk.yellow(`[${hook.id}]`)} ${chalk.cyan(hook.event)} ${describeHookResult(result, hook.timeout)}`);
+      result.output.trimEnd().split('\n').filter(Boolean).forEach(line => console.log(chalk.dim(`   | ${line}`)));
+    });
+  });
+
+getBuiltinCommand('import')
+  .option('-f, --format <format>', `Playlist format (${PLAYLIST_FORMATS.join(', ')}); detected from the file by default`)
+  .option('--dry-run', 'Show what would change without saving')
+  .option('-y, --yes', 'Save without asking for confirmation')
+  .action(async (file: string, options: { format?: string; dryRun?: boolean; yes?: boolean }) => {
+    let plan: ImportPlan;
+    try {
+      const content = fs.readFileSync(file, 'utf8');
+      const format = (options.format || detectFormat(file, content)) as PlaylistFormat;
+      if (!PLAYLIST_FORMATS.includes(format)) {
+        throw new Error(`Unknown format "${format}" (expected ${PLAYLIST_FORMATS.join(', ')})`);
+      }
+      plan = planImport(parsePlaylist(content, format));
+    } catch (error: any) {
+      exitWithError(error);
+    }
+
+    console.log(formatMusic(`Import plan for ${file}:\n`));
+    plan.additions.forEach(station => {
+      console.log(`${chalk.green('+')} ${chalk.cyan(`[${station.id}]`)} ${chalk.white(station.name)} ${chalk.dim(`• ${station.genre} • ${station.quality}`)}`);
+      console.log(`    ${chalk.green(station.url)}`);
+    });
+    plan.duplicates.forEach(({ entry, existing }) => {
+      const of = existing ? ` of [${existing.id}]` : '';
+      console.log(chalk.dim(`= ${entry.title || entry.url} (duplicate${of}, skipped)`));
+    });
+    plan.invalid.forEach(({ entry, reason }) => {
+      console.log(`${chalk.red('!')} ${entry.title || entry.url} ${chalk.dim(`(${reason})`)}`);
+    });
+    console.log('');
+    console.log(chalk.dim(`   ${plan.additions.length} to add, ${plan.duplicates.length} duplicate, ${plan.invalid.length} invalid`));
+
+    if (options.dryRun || plan.additions.length === 0) {
+      return;
+    }
+
+    if (!options.yes) {
+      if (!process.stdin.isTTY) {
+        console.log(formatInfo('Run again with --yes to save these stations'));
+        return;
+      }
+
+      const answer = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'save',
+          message: `Add ${plan.additions.length} station(s) to your library?`,
+          default: true
+        }
+      ]);
+      if (!answer.save) {
+        return;
+      }
+    }
+
+    runConfigAction(() => {
+      const added = applyImport(plan);
+      console.log(formatSuccess(`Imported ${added.length} station(s)`));
+    });
+  });
+
+getBuiltinCommand('export')
+  .option('-f, --format <format>', `Playlist format (${PLAYLIST_FORMATS.join(', ')})`, 'm3u')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .option('--user', 'Only export stations from your library')
+  .action((options: { format: string; output?: string; user?: boolean }) => {
+    const format = options.format.toLowerCase() as PlaylistFormat;
+    if (!PLAYLIST_FORMATS.includes(format)) {
+      exitWithError(createError('INVALID_FORMAT', `Unknown format "${options.format}" (expected ${PLAYLIST_FORMATS.join(', ')})`));
+    }
+
+    const selected = options.user ? getUserStations() : getStations();
+    const playlist = serializePlaylist(selected, format);
+
+    if (options.output) {
+      fs.writeFileSync(options.output, playlist);
+      console.log(formatSuccess(`Exported ${selected.length} station(s) to ${options.output}`));
+    } else {
+      process.stdout.write(playlist);
+    }
+  });
+
+interface TrackFilterOptions {
+  station?: string;
+  since?: string;
+  grep?: string;
+}
+
+const trackFilterOptions = (command: Command): Command => {
+  return command
+    .option('-s, --station <id>', 'Only tracks heard on this station')
+    .option('--since <when>', 'Only tracks since a time ago (e.g. 2d, 3h) or a date (e.g. 2026-10-18)')
+    .option('-g, --grep <text>', 'Only tracks whose artist, title or station contains this text');
+};
+
+const loadTrackHistory = (options: TrackFilterOptions): TrackHistoryEntry[] => {
+  const since = options.since ? parseSince(options.since) : undefined;
+  if (since === null) {
+    exitWithError(createError('INVALID_SINCE', `Invalid --since "${options.since}" (use e.g. 2d, 3h or 2026-10-18)`));
+  }
+
+  const stationId = options.station
+    ? (getStationById(options.station) || getStationByName(options.station))?.id || options.station
+    : undefined;
+
+  return filterTrackHistory(readTrackHistory(), { stationId, since, grep: options.grep });
+};
+
+const tracksCommand = getBuiltinCommand('tracks');
+
+trackFilterOptions(
+  tracksCommand
+    .command('list', { isDefault: true })
+    .description('List played tracks, oldest first')
+    .option('-n, --limit <count>', 'Show only the most recent tracks', '50')
+).action((options: TrackFilterOptions & { limit: string }) => {
+  const entries = loadTrackHistory(options);
+  if (entries.length === 0) {
+    console.log(formatInfo('No tracks found'));
+    return;
+  }
+
+  const limit = parseInt(options.limit, 10);
+  const shown = limit > 0 ? entries.slice(-limit) : entries;
+
+  console.log(formatMusic(`Track History (${shown.length} of ${entries.length}):\n`));
+  shown.forEach(entry => {
+    const duration = getTrackDuration(entry);
+    const startedAt = new Date(entry.startedAt).toLocaleString([], {
+      month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+    });
+    console.log(
+      `${chalk.dim(startedAt)} ${chalk.cyan(`[${entry.stationId}]`)} ${chalk.white(formatTrackName(entry))}` +
+      chalk.dim(duration === null ? ' (playing)' : ` (${formatUptime(duration)})`)
+    );
+  });
+});
+
+trackFilterOptions(
+  tracksCommand
+    .command('export')
+    .description('Export played tracks')
+    .option('-f, --format <format>', `Export format (${TRACK_EXPORT_FORMATS.join(', ')})`, 'csv')
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+).action((options: TrackFilterOptions & { format: string; output?: string }) => {
+  const format = options.format.toLowerCase() as TrackExportFormat;
+  if (!TRACK_EXPORT_FORMATS.includes(format)) {
+    exitWithError(createError('INVALID_FORMAT', `Unknown format "${options.format}" (expected ${TRACK_EXPORT_FORMATS.join(', ')})`));
+  }
+
+  const entries = loadTrackHistory(options);
+  const output = serializeTrackHistory(entries, format);
+
+  if (options.output) {
+    fs.writeFileSync(options.output, output);
+    console.log(formatSuccess(`Exported ${entries.length} track(s) to ${options.output}`));
+  } else {
+    process.stdout.write(output);
+  }
+});
+
+const PERIOD_LABELS: Record<StatsPeriod, string> = {
+  week: 'last 7 days',
+  month: 'last 30 days',
+  all: 'all time'
+};
+
+getBuiltinCommand('stats')
+  .option('--week', 'The last 7 days (default)')
+  .option('--month', 'The last 30 days')
+  .option('--all', 'Everything recorded')
+  .option('--json', 'Print the report as JSON')
+  .action((options: { week?: boolean; month?: boolean; all?: boolean; json?: boolean }) => {
+    const json = options.json || isJsonOutput();
+    const period: StatsPeriod = options.all ? 'all' : options.month ? 'month' : 'week';
+    const report = buildStatsReport(readSessions(), readFocusSessions(), period);
+
+    if (json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log(formatMusic(`Listening Stats (${PERIOD_LABELS[period]})\n`));
+    if (report.sessions === 0) {
+      console.log(formatInfo('Nothing played in this period yet'));
+      return;
+    }
+
+    const hours = (report.totalSeconds / 3600).toFixed(1);
+    console.log(`   Total: ${chalk.green(`${hours}h`)} over ${report.sessions} session${report.sessions === 1 ? '' : 's'}`);
+    if (report.longestSession) {
+      const session = report.longestSession;
+      const day = new Date(session.startedAt).toLocaleDateString([], { month: 'short', day: 'numeric' });
+      console.log(`   Longest session: ${chalk.yellow(formatUptime(session.duration))} on ${session.stationName} ${chalk.dim(`(${day})`)}`);
+    }
+    console.log(`   Streak: ${chalk.yellow(`${report.currentStreak} day${report.currentStreak === 1 ? '' : 's'}`)} ${chalk.dim(`(best ${report.longestStreak})`)}`);
+    if (report.reconnects > 0) {
+      console.log(`   Reconnects: ${report.reconnects}`);
+    }
+    if (report.focus.sessions > 0) {
+      const focus = report.focus;
+      console.log(`   Focus: ${chalk.green(formatUptime(focus.focusSeconds))} in ${focus.cycles} block${focus.cycles === 1 ? '' : 's'} ${chalk.dim(`(${focus.completed}/${focus.sessions} sessions finished)`)}`);
+    }
+
+    console.log('');
+    console.log('   Stations:');
+    const nameWidth = Math.min(24, Math.max(...report.stations.map(station => station.stationName.length)));
+    report.stations.forEach(station => {
+      const name = truncate(station.stationName, nameWidth).padEnd(nameWidth);
+      console.log(`   ${chalk.white(name)} ${createProgressBar(station.seconds, Math.max(report.totalSeconds, 1), 20)} ${chalk.dim(formatUptime(station.seconds))}`);
+    });
+  });
+
+getBuiltinCommand('volume')
+  // Lets "-10" through as the level instead of parsing it as an option
+  .allowUnknownOption()
+  .action(async (level?: string) => {
+    const client = await DaemonClient.connect();
+    const state = client ? await client.status() : null;
+
     if (!level) {
-      const currentVolume = config.get('volume');
-      console.log(formatInfo(`Current volume: ${currentVolume}%`));
+      const currentVolume = state?.volume ?? config.get('volume');
+      client?.close();
+      if (isJsonOutput()) {
+        printJson({ volume: currentVolume, muted: Boolean(state?.muted), applied: false });
+        return;
+      }
+      const muted = state?.muted ? chalk.dim(' (muted)') : '';
+      console.log(formatInfo(`Current volume: ${currentVolume}%`) + muted);
       return;
     }
 
-    const volume = validateVolume(level);
+    const volume = resolveVolume(level, state?.volume ?? config.get('volume'));
     if (volume === null) {
-      console.log(formatError('Volume must be between 0 and 100'));
-      process.exit(1);
+      exitWithError(createError('INVALID_VOLUME', 'Volume must be between 0 and 100'));
     }
 
     config.set('volume', volume);
-    player.setVolume(volume);
+    // Whether a playing stream took the new level, rather than just the saved setting
+    const applied = Boolean(client && state?.isPlaying);
+    if (applied) {
+      await client!.setVolume(volume);
+    }
+    client?.close();
+
+    if (isJsonOutput()) {
+      printJson({ volume, muted: Boolean(state?.muted), applied });
+      return;
+    }
     console.log(formatSuccess(`Volume set to ${volume}%`));
+  });
 
-    if (player.getState().isPlaying) {
-      console.log(formatInfo('Volume will be applied on next play'));
+getBuiltinCommand('sleep')
+  .option('--fade <duration>', 'Fade out over the last part of the timer, e.g. 5m')
+  .action(async (duration: string | undefined, options: { fade?: string }) => {
+    const client = await DaemonClient.connect();
+    const state = client ? await client.status() : null;
+    if (!client || !state?.isPlaying) {
+      console.log(formatInfo('No station is currently playing'));
+      client?.close();
+      return;
     }
+
+    if (duration === undefined) {
+      client.close();
+      console.log(state.sleepRemaining === null
+        ? formatInfo('No sleep timer set')
+        : formatInfo(`Sleeping in ${formatCountdown(state.sleepRemaining)}`));
+      return;
+    }
+
+    if (duration.toLowerCase() === 'off') {
+      await client.cancelSleep();
+      client.close();
+      console.log(formatSuccess('Sleep timer cancelled'));
+      return;
+    }
+
+    const seconds = parseDuration(duration);
+    const fade = options.fade ? parseDuration(options.fade) : 0;
+    if (!seconds || fade === null) {
+      client.close();
+      exitWithError(createError('INVALID_DURATION', 'Sleep durations look like 45m, 1h30m or 90s'));
+    }
+
+    const status = await client.sleep(seconds, fade);
+    client.close();
+    console.log(formatSuccess(`Sleeping in ${formatCountdown(status.sleepRemaining ?? seconds)}`));
   });
 
-// If no arguments provided, launch interactive REPL mode
-if (process.argv.length === 2) {
-  const ffmpegInstalled = await checkFFmpeg();
-  if (!ffmpegInstalled) {
-    console.log(formatError('ffplay not found. Please install ffmpeg: https://ffmpeg.org/download.html'));
-    process.exit(1);
+// Minutes as typed for focus lengths, in seconds; fractions are fine
+const parseMinutes = (input: string | undefined, fallback: number, allowZero: boolean = false): number | null => {
+  if (input === undefined) {
+    return fallback * 60;
+  }
+  const minutes = parseFloat(input);
+  if (isNaN(minutes) || minutes < 0 || (minutes === 0 && !allowZero)) {
+    return null;
   }
+  return Math.round(minutes * 60);
+};
 
-  const repl = new RadioREPL(player, config);
-  repl.start();
-} else {
-  // Normal CLI mode with commands
-  process.on('SIGINT', async () => {
-    console.log('\n' + formatInfo('Shutting down...'));
-    await player.stop();
-    process.exit(0);
+const resolveStationInput = (input: string): Station | undefined => {
+  return isFavoriteSelector(input)
+    ? resolveFavoriteSelector(input)
+    : getStationById(input) || getStationByName(input);
+};
+
+getBuiltinCommand('focus')
+  .option('-w, --work <minutes>', `Length of a work block (default ${DEFAULT_FOCUS_WORK})`)
+  .option('--break <minutes>', `Length of a break (default ${DEFAULT_FOCUS_BREAK})`)
+  .option('-c, --cycles <n>', `Number of work blocks (default ${DEFAULT_FOCUS_CYCLES})`)
+  .option('--break-station <station>', 'Station for the breaks (default: silence)')
+  .action(async (stationInput: string | undefined, options: { work?: string; break?: string; cycles?: string; breakStation?: string }) => {
+    if (stationInput?.toLowerCase() === 'off') {
+      const client = await DaemonClient.connect();
+      const state = client ? await client.status() : null;
+      if (!client || !state?.focus) {
+        console.log(formatInfo('No focus session is running'));
+      } else {
+        await client.stopFocus();
+        console.log(formatControl('Focus session ended'));
+      }
+      client?.close();
+      return;
+    }
+
+    const work = parseMinutes(options.work, DEFAULT_FOCUS_WORK);
+    const breakLength = parseMinutes(options.break, DEFAULT_FOCUS_BREAK, true);
+    const cycles = options.cycles === undefined ? DEFAULT_FOCUS_CYCLES : parseInt(options.cycles, 10);
+    if (work === null || breakLength === null) {
+      exitWithError(createError('INVALID_FOCUS', 'Focus lengths are in minutes, e.g. --work 50 --break 10'));
+    }
+    if (isNaN(cycles) || cycles < 1) {
+      exitWithError(createError('INVALID_FOCUS', 'Cycles must be a whole number of at least 1'));
+    }
+
+    let station: Station | undefined;
+    let breakStation: Station | null = null;
+    try {
+      const lastStationId = config.get('lastStation');
+      station = stationInput
+        ? resolveStationInput(stationInput)
+        : (lastStationId ? getStationById(lastStationId) : undefined) || getDefaultStation();
+      if (!station) {
+        exitWithError(createError('STATION_NOT_FOUND', `Station "${stationInput}" not found`));
+      }
+
+      if (options.breakStation && options.breakStation.toLowerCase() !== 'silence') {
+        breakStation = resolveStationInput(options.breakStation) || null;
+        if (!breakStation) {
+          exitWithError(createError('STATION_NOT_FOUND', `Station "${options.breakStation}" not found`));
+        }
+      }
+    } catch (error: any) {
+      exitWithError(error);
+    }
+
+    const spinner = createSpinner(`Starting focus on ${station.name}...`);
+    spinner.start();
+
+    let client: DaemonClient | null = null;
+    try {
+      const backend = await resolveBackend(program.opts().backend || config.get('backend'));
+      client = await DaemonClient.ensureRunning();
+      const status = await client.focus(
+        { station, breakStation, work, break: breakLength, cycles },
+        config.get('volume'),
+        backend.name
+      );
+      config.set('lastStation', station.id);
+
+      spinner.succeed(formatSuccess(`Focusing on ${station.name}`));
+      const minutes = (seconds: number) => `${Number((seconds / 60).toFixed(1))} min`;
+      const breaks = breakLength === 0 ? 'no breaks' : `${minutes(breakLength)} breaks ${breakStation ? `on ${breakStation.name}` : 'in silence'}`;
+      console.log(chalk.dim(`   ${cycles} × ${minutes(work)} of work, ${breaks}`));
+      if (status.focus) {
+        console.log(chalk.dim(`   Now: ${formatFocus(status.focus)}`));
+      }
+      console.log('');
+      console.log(chalk.dim('   Runs in the background. Use "radio status" to check, "radio focus off" to end it'));
+    } catch (error: any) {
+      client?.close();
+      exitWithError(error, spinner);
+    } finally {
+      client?.close();
+    }
   });
 
-  process.on('SIGTERM', async () => {
-    await player.stop();
-    process.exit(0);
+getBuiltinCommand('fade')
+  .action((seconds?: string) => {
+    if (seconds === undefined) {
+      console.log(formatInfo(`Fade duration: ${config.get('fadeDuration')}s`));
+      return;
+    }
+
+    const fade = parseFade(seconds);
+    if (fade === undefined) {
+      exitWithError(createError('INVALID_FADE', 'Fade duration must be a number of seconds (0 turns fades off)'));
+    }
+
+    config.set('fadeDuration', fade);
+    console.log(formatSuccess(`Fade duration set to ${fade}s`));
+  });
+
+const parseSeconds = (input: string | undefined, label: string): number | undefined => {
+  if (input === undefined) {
+    return undefined;
+  }
+  const seconds = parseFloat(input);
+  if (isNaN(seconds) || seconds <= 0) {
+    exitWithError(createError('INVALID_DELAY', `${label} must be a positive number of seconds`));
+  }
+  return seconds;
+};
+
+getBuiltinCommand('reconnect')
+  .option('-a, --attempts <n>', 'Give up after this many attempts')
+  .option('-d, --delay <seconds>', 'Wait before the first attempt; doubles after each one')
+  .option('-c, --max-delay <seconds>', 'Longest wait between attempts')
+  .option('--always', 'Never give up, e.g. for an always-on speaker')
+  .option('--no-always', 'Give up after --attempts again')
+  .action((options: { attempts?: string; delay?: string; maxDelay?: string; always?: boolean }) => {
+    const policy = { ...config.get('reconnect') };
+
+    if (options.attempts !== undefined) {
+      const attempts = parseInt(options.attempts, 10);
+      if (isNaN(attempts) || attempts < 0) {
+        exitWithError(createError('INVALID_ATTEMPTS', 'Attempts must be a whole number (0 turns reconnecting off)'));
+      }
+      policy.maxAttempts = attempts;
+    }
+    policy.baseDelay = parseSeconds(options.delay, 'Delay') ?? policy.baseDelay;
+    policy.maxDelay = parseSeconds(options.maxDelay, 'Max delay') ?? policy.maxDelay;
+    policy.alwaysRetry = options.always ?? policy.alwaysRetry;
+
+    const changed = [options.attempts, options.delay, options.maxDelay, options.always].some(value => value !== undefined);
+    if (changed) {
+      if (policy.maxDelay < policy.baseDelay) {
+        exitWithError(createError('INVALID_DELAY', 'Max delay can\'t be shorter than the first delay'));
+      }
+      config.set('reconnect', policy);
+      console.log(formatSuccess('Reconnect policy updated'));
+      console.log(formatInfo('Applies from the next "radio play"'));
+    } else {
+      console.log(formatMusic('Reconnect policy:\n'));
+    }
+
+    const attempts = policy.alwaysRetry ? 'unlimited (always retry)' : String(policy.maxAttempts);
+    console.log(`   Attempts: ${chalk.yellow(attempts)}`);
+    console.log(`   Delay: ${chalk.yellow(`${policy.baseDelay}s`)}, doubling up to ${chalk.yellow(`${policy.maxDelay}s`)}`);
+  });
+
+getBuiltinCommand('backend')
+  .action(async (name?: string) => {
+    if (name) {
+      if (name !== 'auto' && !isBackendName(name)) {
+        exitWithError(createError('INVALID_BACKEND', `Unknown backend "${name}" (expected auto, ${BACKEND_NAMES.join(', ')})`));
+      }
+      config.set('backend', name as Config['backend']);
+      console.log(formatSuccess(`Backend set to ${name}`));
+      console.log(formatInfo('Applies from the next "radio play"'));
+      return;
+    }
+
+    const availability = await getBackendAvailability();
+    const preference = config.get('backend');
+
+    console.log(formatMusic(`Audio backends (configured: ${preference}):\n`));
+    BACKEND_NAMES.forEach(backend => {
+      const icon = availability[backend] ? chalk.green('✔') : chalk.red('✘');
+      const selected = backend === preference ? chalk.yellow(' (selected)') : '';
+      const status = availability[backend] ? chalk.dim('installed') : chalk.dim('not found');
+      console.log(`  ${icon} ${chalk.white(backend.padEnd(8))} ${status}${selected}`);
+    });
+  });
+
+getBuiltinCommand('doctor')
+  .option('-t, --timeout <duration>', 'Give up on a station after this long', '8s')
+  .option('--json', 'Print the report as JSON')
+  .action(async (options: { timeout?: string; json?: boolean }) => {
+    const json = options.json || isJsonOutput();
+    const timeout = parseProbeTimeout(options.timeout);
+    const spinner = json ? null : createSpinner('Checking stations...').start();
+    const report = await runDoctor(timeout);
+    spinner?.stop();
+
+    if (report.stations.some(probe => probe.status === 'broken')) {
+      process.exitCode = 1;
+    }
+
+    if (json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log(formatMusic('Stations:\n'));
+    printStationProbes(report.stations);
+
+    console.log('');
+    console.log(formatMusic('Audio backends:\n'));
+    BACKEND_NAMES.forEach(backend => {
+      const icon = report.backends[backend] ? chalk.green('✔') : chalk.dim('-');
+      console.log(`${icon}  ${backend.padEnd(8)} ${chalk.dim(report.backends[backend] ? 'installed' : 'not found')}`);
+    });
+    if (!BACKEND_NAMES.some(backend => backend !== 'null' && report.backends[backend])) {
+      console.log(formatError('No audio player found; install ffplay, mpv or VLC'));
+    }
+
+    console.log('');
+    console.log(formatMusic(`Config (${report.config.path}):\n`));
+    if (report.config.problems.length === 0) {
+      console.log(`${chalk.green('✔')}  No problems found`);
+    }
+    report.config.problems.forEach(problem => console.log(`${chalk.yellow('!')}  ${problem}`));
+  });
+
+getBuiltinCommand('daemon')
+  .action(async () => {
+    const daemon = new RadioDaemon(new StreamPlayer(), config, plugins);
+    try {
+      await daemon.start();
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+
+getBuiltinCommand('shutdown')
+  .action(async () => {
+    const client = await DaemonClient.connect();
+    if (!client) {
+      console.log(formatInfo('Daemon is not running'));
+      return;
+    }
+
+    await client.shutdown();
+    client.close();
+    console.log(formatControl('Daemon stopped'));
+  });
+
+getBuiltinCommand('tui')
+  .action(async () => {
+    try {
+      const backend = await resolveBackend(program.opts().backend || config.get('backend'));
+      const client = await DaemonClient.ensureRunning();
+      const dashboard = new Dashboard(client, config, backend.name);
+      await dashboard.start();
+    } catch (error: any) {
+      exitWithError(error);
+    }
   });
 
-  program.parse();
+getBuiltinCommand('serve')
+  .option('-p, --port <port>', `Port to listen on (default ${DEFAULT_API_PORT})`)
+  .option('--token <token>', 'Require this token as "Authorization: Bearer <token>" or ?token=')
+  .action(async (options: { port?: string; token?: string }) => {
+    const port = options.port === undefined ? DEFAULT_API_PORT : Number(options.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      exitWithError(createError('INVALID_PORT', 'Port must be a whole number between 1 and 65535'));
+    }
+
+    let server: ApiServer;
+    try {
+      const backend = await resolveBackend(program.opts().backend || config.get('backend'));
+      server = new ApiServer(config, { port, token: options.token || null, backend: backend.name });
+      server.on('request', (method: string, requestPath: string, status: number) => {
+        const paint = status >= 400 ? chalk.yellow : chalk.dim;
+        console.log(paint(`   ${new Date().toLocaleTimeString()} ${method} ${requestPath} ${status}`));
+      });
+      await server.start();
+    } catch (error: any) {
+      exitWithError(error);
+    }
+
+    console.log(formatSuccess(`Listening on ${server.getUrl()}`));
+    console.log(chalk.dim(`   OpenAPI description: ${server.getUrl()}/openapi.json`));
+    console.log(chalk.dim(`   Events: ${server.getUrl()}/events`));
+    if (!options.token) {
+      console.log(chalk.dim('   No token set: anything running on this machine can control playback'));
+    }
+    console.log(chalk.dim('   Press Ctrl+C to stop the server (playback carries on)\n'));
+
+    const close = async () => {
+      await server.stop();
+      process.exit(0);
+    };
+    process.on('SIGINT', close);
+    process.on('SIGTERM', close);
+  });
+
+getBuiltinCommand('plugins')
+  .option('--json', 'Print the list as JSON')
+  .action((options: { json?: boolean }) => {
+    const loaded = plugins.getPlugins();
+    if (options.json || isJsonOutput()) {
+      printJson({ apiVersion: PLUGIN_API_VERSION, directory: getPluginDir(), plugins: loaded });
+      return;
+    }
+
+    if (loaded.length === 0) {
+      console.log(formatInfo(`No plugins. Put ES modules in ${getPluginDir()}, or list npm packages under "plugins" in ${config.path}`));
+      return;
+    }
+
+    console.log(formatMusic(`Plugins (API v${PLUGIN_API_VERSION}):\n`));
+    loaded.forEach(plugin => {
+      console.log(`${describePluginState(plugin)}  ${chalk.white(plugin.name)}${plugin.version ? chalk.dim(` ${plugin.version}`) : ''}`);
+      console.log(chalk.dim(`   ${plugin.source}`));
+      if (plugin.error) {
+        console.log(chalk.red(`   ${plugin.error}`));
+      }
+      const added = [
+        plugin.commands.length > 0 ? `commands: ${plugin.commands.join(', ')}` : null,
+        plugin.stations > 0 ? `${plugin.stations} station${plugin.stations === 1 ? '' : 's'}` : null,
+        plugin.events.length > 0 ? `listens to ${plugin.events.join(', ')}` : null
+      ].filter(Boolean);
+      if (added.length > 0) {
+        console.log(`   ${added.join(' • ')}`);
+      }
+    });
+  });
+
+const describePluginState = (plugin: PluginInfo): string => {
+  switch (plugin.state) {
+    case 'loaded':
+      return chalk.green('✔');
+    case 'incompatible':
+      return chalk.yellow('!');
+    default:
+      return chalk.red('✖');
+  }
+};
+
+// Without a command, launch interactive REPL mode
+program.action(async () => {
+  try {
+    const backend = await resolveBackend(program.opts().backend || config.get('backend'));
+    const client = await DaemonClient.ensureRunning();
+    const repl = new RadioREPL(client, config, backend.name);
+    await repl.start();
+  } catch (error: any) {
+    exitWithError(error);
+  }
+});
+
+// The words of a command line that aren't global options; only --backend takes a value
+const getOperands = (argv: string[]): string[] => {
+  return argv.filter((arg, index) => !arg.startsWith('-') && !['-b', '--backend'].includes(argv[index - 1]));
+};
+
+// Plugins only load for what needs them: the REPL, their own commands and those that look up stations
+const argv = process.argv.slice(2);
+const commandName = getOperands(argv)[0];
+const asksForHelp = argv.some(arg => ['-h', '--help', '-V', '--version'].includes(arg));
+const builtin = commandName ? commandRegistry.find(commandName, 'cli') : undefined;
+const needsPlugins = commandName ? !builtin || (builtin.usesPlugins && !asksForHelp) : !asksForHelp;
+if (needsPlugins) {
+  await plugins.load();
+  commandRegistry.attachTo(program, runRegisteredCommand);
+}
+
+try {
+  await program.parseAsync();
+} catch (error) {
+  // Commander has already printed its usage message; --help and --version exit with 0
+  if (error instanceof CommanderError) {
+    process.exit(error.exitCode === 0 ? EXIT_CODES.success : EXIT_CODES.invalidArgument);
+  }
+  throw error;
 }
\ No newline at end of file
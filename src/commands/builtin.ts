@@ -0,0 +1,237 @@
+import { formatControl, formatInfo, formatSuccess } from '../utils/helpers.js';
+import type { CommandDefinition } from '../types/index.js';
+
+/**
+ * Every command radio has, in the order help lists them. The CLI builds
+ * its subcommands from this list and the REPL its dispatch, completion
+ * and help, and plugins can't take any name in it. Those with run()
+ * behave the same in both; the rest are implemented by each surface.
+ */
+export const builtinCommands: CommandDefinition[] = [
+  {
+    name: 'play',
+    aliases: ['p'],
+    arguments: '[station]',
+    description: 'Play a station by ID or name, or one of your favorites with fav',
+    example: 'play rp-mellow',
+    usesPlugins: true
+  },
+  {
+    name: 'stop',
+    aliases: ['s'],
+    description: 'Stop the current playback',
+    example: 'stop'
+  },
+  {
+    name: 'status',
+    aliases: ['now', 'n'],
+    description: 'Show current playback status',
+    example: 'status'
+  },
+  {
+    name: 'record',
+    aliases: ['rec'],
+    arguments: '[station]',
+    description: 'Record a station to disk, split per track ("record stop" to finish)',
+    example: 'record soma-deep',
+    usesPlugins: true
+  },
+  {
+    name: 'stations',
+    aliases: ['list', 'l'],
+    description: 'List all available stations',
+    example: 'stations',
+    usesPlugins: true
+  },
+  {
+    name: 'search',
+    aliases: ['find'],
+    arguments: '<query...>',
+    description: 'Search the online station directory, then play or save a result',
+    example: 'search jazz'
+  },
+  {
+    name: 'fav',
+    aliases: ['favorites'],
+    description: 'Manage favorite stations',
+    example: 'fav add soma-lush',
+    usesPlugins: true
+  },
+  {
+    name: 'schedule',
+    description: 'Start or stop stations at set times',
+    surfaces: ['cli'],
+    usesPlugins: true
+  },
+  {
+    name: 'hooks',
+    description: 'Run shell commands on player events',
+    surfaces: ['cli'],
+    usesPlugins: true
+  },
+  {
+    name: 'import',
+    arguments: '<file>',
+    description: 'Import stations from an M3U, PLS, XSPF or JSON playlist',
+    surfaces: ['cli'],
+    usesPlugins: true
+  },
+  {
+    name: 'export',
+    description: 'Export stations as a playlist',
+    surfaces: ['cli'],
+    usesPlugins: true
+  },
+  {
+    name: 'tracks',
+    aliases: ['t'],
+    description: 'Show the history of tracks heard on every station',
+    example: 'tracks',
+    usesPlugins: true
+  },
+  {
+    name: 'stats',
+    description: 'Show how much you have listened, and to what',
+    surfaces: ['cli']
+  },
+  {
+    name: 'volume',
+    aliases: ['vol', 'v'],
+    arguments: '[level]',
+    description: 'Set or show volume level (0-100, or +10/-10 to change it)',
+    example: 'volume 50'
+  },
+  {
+    name: 'mute',
+    aliases: ['m'],
+    description: 'Mute playback without stopping the stream',
+    example: 'mute',
+    run: async (_args, context) => {
+      const client = await context.connect();
+      const state = client ? await client.status() : null;
+      if (!client || !state?.isPlaying) {
+        console.log(formatInfo('No station is currently playing'));
+        return;
+      }
+
+      await client.mute();
+      console.log(formatControl('Muted'));
+    }
+  },
+  {
+    name: 'unmute',
+    aliases: ['um'],
+    description: 'Restore the volume after muting',
+    example: 'unmute',
+    run: async (_args, context) => {
+      const client = await context.connect();
+      const state = client ? await client.status() : null;
+      if (!client || !state?.isPlaying) {
+        console.log(formatInfo('No station is currently playing'));
+        return;
+      }
+
+      const unmuted = await client.unmute();
+      console.log(formatSuccess(`Unmuted (volume ${unmuted.volume}%)`));
+    }
+  },
+  {
+    name: 'sleep',
+    arguments: '[duration]',
+    description: 'Stop playing after a while (e.g. 45m), show the time left, or "off" to cancel',
+    example: 'sleep 45m'
+  },
+  {
+    name: 'focus',
+    arguments: '[station]',
+    description: 'Focus in work blocks with breaks between, or "off" to end the session',
+    example: 'focus soma-deep',
+    usesPlugins: true
+  },
+  {
+    name: 'fade',
+    arguments: '[seconds]',
+    description: 'Set or show how long play fades in and stop fades out',
+    surfaces: ['cli']
+  },
+  {
+    name: 'reconnect',
+    description: 'Set or show how dropped streams are retried',
+    surfaces: ['cli']
+  },
+  {
+    name: 'backend',
+    arguments: '[name]',
+    description: 'Show available audio backends, or choose one (auto, ffplay, mpv, cvlc, null)',
+    surfaces: ['cli']
+  },
+  {
+    name: 'doctor',
+    description: 'Check stations, audio backends and the config file for problems',
+    surfaces: ['cli'],
+    usesPlugins: true
+  },
+  {
+    name: 'daemon',
+    description: 'Run the background playback daemon in the foreground',
+    surfaces: ['cli'],
+    usesPlugins: true
+  },
+  {
+    name: 'shutdown',
+    description: 'Stop playback and shut down the background daemon',
+    surfaces: ['cli']
+  },
+  {
+    name: 'tui',
+    description: 'Full-screen dashboard with stations, now playing and a log',
+    surfaces: ['cli'],
+    usesPlugins: true
+  },
+  {
+    name: 'serve',
+    description: 'Run a local HTTP API with an event stream, for scripts and editor extensions',
+    surfaces: ['cli']
+  },
+  {
+    name: 'plugins',
+    description: 'List plugins and what each one added',
+    surfaces: ['cli'],
+    usesPlugins: true
+  },
+  {
+    name: 'viz',
+    aliases: ['visualizer'],
+    arguments: '[mode]',
+    description: 'Show a live spectrum or level meter below the prompt (on, off, bars or meter)',
+    example: 'viz meter',
+    surfaces: ['repl']
+  },
+  {
+    name: 'history',
+    description: 'Show command history',
+    example: 'history',
+    surfaces: ['repl']
+  },
+  {
+    name: 'clear',
+    aliases: ['cls'],
+    description: 'Clear the screen',
+    example: 'clear',
+    surfaces: ['repl']
+  },
+  {
+    name: 'help',
+    aliases: ['h', '?'],
+    description: 'Show this help message',
+    example: 'help',
+    surfaces: ['repl']
+  },
+  {
+    name: 'exit',
+    aliases: ['quit', 'q'],
+    description: 'Exit the radio',
+    example: 'exit',
+    surfaces: ['repl']
+  }
+];
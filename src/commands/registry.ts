@@ -0,0 +1,98 @@
+import type { Command } from 'commander';
+import { createError } from '../utils/helpers.js';
+import { builtinCommands } from './builtin.js';
+import type { CommandContext, CommandDefinition, CommandSurface, RadioCommand } from '../types/index.js';
+
+const NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Every command the CLI and the REPL know, built-in ones and those
+ * plugins register. The CLI attaches them to its commander program with
+ * `attachTo`, and the REPL dispatches and completes from `find` and `list`.
+ */
+export class CommandRegistry {
+  private commands: CommandDefinition[] = [];
+
+  // For radio's own commands, which are checked by being listed together
+  define(command: CommandDefinition): void {
+    this.commands.push(command);
+  }
+
+  register(command: RadioCommand): void {
+    this.check(command);
+    this.commands.push(command);
+  }
+
+  // Throws if the command couldn't be registered, without registering it
+  check(command: RadioCommand): void {
+    if (typeof command.run !== 'function') {
+      throw createError('INVALID_COMMAND', `Command "${command.name}" has no run() function`);
+    }
+    const names = [command.name, ...(command.aliases || [])];
+    const invalid = names.find(name => typeof name !== 'string' || !NAME_PATTERN.test(name));
+    if (invalid !== undefined) {
+      throw createError('INVALID_COMMAND', `Invalid command name "${invalid}" (use lowercase letters, digits and dashes)`);
+    }
+    const taken = names.find(name => this.find(name));
+    if (taken !== undefined) {
+      throw createError('COMMAND_EXISTS', `There is already a command named "${taken}"`);
+    }
+  }
+
+  // Any command by name or alias; with a surface, only one offered there
+  find(name: string, surface?: CommandSurface): CommandDefinition | undefined {
+    const lower = name.toLowerCase();
+    return this.list(surface).find(command => command.name === lower || command.aliases?.includes(lower));
+  }
+
+  list(surface?: CommandSurface): CommandDefinition[] {
+    return this.commands.filter(command => !surface || !command.surfaces || command.surfaces.includes(surface));
+  }
+
+  // Names and aliases, for completion and suggestions
+  getNames(surface: CommandSurface): string[] {
+    return this.list(surface).flatMap(command => [command.name, ...(command.aliases || [])]);
+  }
+
+  // Checks required arguments before running, since only commander does that for the CLI
+  async run(command: CommandDefinition, args: string[], context: CommandContext): Promise<void> {
+    if (!command.run) {
+      throw createError('INVALID_COMMAND', `"${command.name}" can't be run from here`);
+    }
+    const required = (command.arguments || '').split(/\s+/).filter(arg => arg.startsWith('<')).length;
+    if (args.length < required) {
+      throw createError('INVALID_ARGUMENTS', `Usage: ${command.name} ${command.arguments}`);
+    }
+    await command.run(args, context);
+  }
+
+  /**
+   * Adds the CLI's commands to a commander program, skipping any it
+   * already has, so it can be called again once plugins have loaded.
+   * Those with run() are run with `runCommand`; the CLI gives the others
+   * their options and action.
+   */
+  attachTo(program: Command, runCommand: (command: CommandDefinition, args: string[]) => Promise<void>): void {
+    this.list('cli')
+      .filter(command => !program.commands.some(attached => attached.name() === command.name))
+      .forEach(command => {
+        const subcommand = program
+          .command(command.name)
+          .description(command.description)
+          .aliases(command.aliases || []);
+        if (command.arguments) {
+          subcommand.arguments(command.arguments);
+        }
+        if (command.example) {
+          subcommand.addHelpText('after', `\nExample: radio ${command.example}`);
+        }
+        if (command.run) {
+          subcommand.action(() => runCommand(command, subcommand.args));
+        }
+      });
+  }
+}
+
+// The one registry the CLI, the REPL and plugins share
+export const commandRegistry = new CommandRegistry();
+builtinCommands.forEach(command => commandRegistry.define(command));
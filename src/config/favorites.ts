@@ -0,0 +1,103 @@
+import { config } from './store.js';
+import { getStationById, getStationByName } from './stations.js';
+import { createError } from '../utils/helpers.js';
+import type { Station } from '../types/index.js';
+
+export const getFavorites = (): string[] => {
+  return config.get('favorites') || [];
+};
+
+export const isFavorite = (id: string): boolean => {
+  return getFavorites().includes(id);
+};
+
+/**
+ * Favorite stations in the user's order. Ids whose station has since been
+ * removed from the catalog are skipped.
+ */
+export const getFavoriteStations = (): Station[] => {
+  return getFavorites()
+    .map(id => getStationById(id))
+    .filter((station): station is Station => station !== undefined);
+};
+
+const findStation = (input: string): Station => {
+  const station = getStationById(input) || getStationByName(input);
+  if (!station) {
+    throw createError('STATION_NOT_FOUND', `Station "${input}" not found`);
+  }
+  return station;
+};
+
+export const addFavorite = (input: string): Station => {
+  const station = findStation(input);
+  const favorites = getFavorites();
+
+  if (favorites.includes(station.id)) {
+    throw createError('ALREADY_FAVORITE', `${station.name} is already a favorite`);
+  }
+
+  config.set('favorites', [...favorites, station.id]);
+  return station;
+};
+
+export const removeFavorite = (input: string): string => {
+  const favorites = getFavorites();
+  const id = favorites.includes(input) ? input : getStationByName(input)?.id;
+
+  if (!id || !favorites.includes(id)) {
+    throw createError('NOT_FAVORITE', `"${input}" is not a favorite`);
+  }
+
+  config.set('favorites', favorites.filter(favorite => favorite !== id));
+  return id;
+};
+
+/**
+ * Moves a favorite to a 1-based position in the list.
+ */
+export const moveFavorite = (input: string, position: number): Station => {
+  const station = findStation(input);
+  const favorites = getFavorites().filter(id => id !== station.id);
+
+  if (favorites.length === getFavorites().length) {
+    throw createError('NOT_FAVORITE', `${station.name} is not a favorite`);
+  }
+  if (!Number.isInteger(position) || position < 1 || position > favorites.length + 1) {
+    throw createError('INVALID_POSITION', `Position must be between 1 and ${favorites.length + 1}`);
+  }
+
+  favorites.splice(position - 1, 0, station.id);
+  config.set('favorites', favorites);
+  return station;
+};
+
+export const isFavoriteSelector = (input: string): boolean => {
+  return /^fav(:.+)?$/i.test(input);
+};
+
+/**
+ * Resolves `fav` (the first favorite), `fav:random` and `fav:<n>` (the n-th
+ * favorite) to a station.
+ */
+export const resolveFavoriteSelector = (input: string): Station => {
+  const favorites = getFavoriteStations();
+  if (favorites.length === 0) {
+    throw createError('NO_FAVORITES', 'No favorites yet. Add one with "fav add <station>"');
+  }
+
+  const selector = input.toLowerCase().split(':')[1];
+  if (!selector) {
+    return favorites[0];
+  }
+
+  if (selector === 'random') {
+    return favorites[Math.floor(Math.random() * favorites.length)];
+  }
+
+  const index = parseInt(selector, 10);
+  if (isNaN(index) || index < 1 || index > favorites.length) {
+    throw createError('INVALID_POSITION', `Favorite "${selector}" not found (you have ${favorites.length})`);
+  }
+  return favorites[index - 1];
+};
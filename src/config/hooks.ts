@@ -0,0 +1,63 @@
+import { config } from './store.js';
+import { createError } from '../utils/helpers.js';
+import type { HookEntry, HookEvent } from '../types/index.js';
+
+export const HOOK_EVENTS: HookEvent[] = ['on_play', 'on_stop', 'on_track_change', 'on_error', 'on_connection_lost'];
+
+// Seconds a hook command gets before it's killed
+export const DEFAULT_HOOK_TIMEOUT = 10;
+
+export const isHookEvent = (value: string): value is HookEvent => {
+  return (HOOK_EVENTS as string[]).includes(value);
+};
+
+// Accepts "play" as well as "on_play", and dashes for underscores
+export const parseHookEvent = (input: string): HookEvent => {
+  const normalized = input.toLowerCase().replace(/-/g, '_');
+  const event = normalized.startsWith('on_') ? normalized : `on_${normalized}`;
+  if (!isHookEvent(event)) {
+    throw createError('INVALID_HOOK_EVENT', `Unknown hook event "${input}" (expected ${HOOK_EVENTS.join(', ')})`);
+  }
+  return event;
+};
+
+export const getHooks = (): HookEntry[] => {
+  return config.get('hooks') || [];
+};
+
+const nextHookId = (hooks: HookEntry[]): string => {
+  const highest = hooks.reduce((max, hook) => Math.max(max, parseInt(hook.id, 10) || 0), 0);
+  return String(highest + 1);
+};
+
+export const addHook = (event: HookEvent, command: string, timeout: number = DEFAULT_HOOK_TIMEOUT): HookEntry => {
+  if (!command.trim()) {
+    throw createError('INVALID_HOOK_COMMAND', 'The hook command is empty');
+  }
+  if (!(timeout > 0)) {
+    throw createError('INVALID_TIMEOUT', 'The hook timeout must be more than 0 seconds');
+  }
+
+  const hooks = getHooks();
+  const hook: HookEntry = {
+    id: nextHookId(hooks),
+    event,
+    command,
+    timeout,
+    createdAt: new Date().toISOString()
+  };
+
+  config.set('hooks', [...hooks, hook]);
+  return hook;
+};
+
+export const removeHook = (id: string): HookEntry => {
+  const hooks = getHooks();
+  const hook = hooks.find(entry => entry.id === id);
+  if (!hook) {
+    throw createError('HOOK_NOT_FOUND', `Hook "${id}" not found`);
+  }
+
+  config.set('hooks', hooks.filter(entry => entry.id !== id));
+  return hook;
+};
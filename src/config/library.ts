@@ -0,0 +1,183 @@
+import { config } from './store.js';
+import { stations, getUserStations, isBuiltinStation } from './stations.js';
+import { createError } from '../utils/helpers.js';
+import type { Station, StationVariant } from '../types/index.js';
+
+export type StationFields = Partial<Omit<Station, 'id'>>;
+
+const STATION_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+export const validateStationId = (id: string): void => {
+  if (!STATION_ID_PATTERN.test(id)) {
+    throw createError(
+      'INVALID_STATION_ID',
+      `Invalid station id "${id}": use lowercase letters, digits, "-" and "_"`
+    );
+  }
+};
+
+export const validateStationUrl = (url: string): void => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw createError('INVALID_STATION_URL', `Invalid stream URL "${url}"`);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw createError('INVALID_STATION_URL', `Stream URL must use http or https, got "${parsed.protocol}"`);
+  }
+};
+
+const validateMirrors = (mirrors?: string[]): void => {
+  (mirrors || []).forEach(validateStationUrl);
+};
+
+const validateVariants = (variants?: StationVariant[]): void => {
+  (variants || []).forEach(variant => {
+    if (variant.tier !== 'low' && variant.tier !== 'medium') {
+      throw createError('INVALID_STATION_VARIANT', `Variant tier must be low or medium, got "${variant.tier}"`);
+    }
+    validateStationUrl(variant.url);
+  });
+};
+
+/**
+ * Parses a variant given as "tier=url", optionally followed by a quality
+ * label after a space, e.g. "low=http://example.com/64 64kbps AAC".
+ */
+export const parseStationVariant = (spec: string): StationVariant => {
+  const match = spec.match(/^(\w+)=(\S+)(?:\s+(.+))?$/);
+  if (!match) {
+    throw createError('INVALID_STATION_VARIANT', `Invalid variant "${spec}": use tier=url, e.g. low=http://example.com/64`);
+  }
+
+  const variant: StationVariant = { tier: match[1].toLowerCase() as StationVariant['tier'], url: match[2] };
+  if (match[3]) {
+    variant.quality = match[3];
+  }
+  validateVariants([variant]);
+  return variant;
+};
+
+const saveUserStations = (userStations: Station[]): void => {
+  config.set('userStations', userStations);
+};
+
+// Validates a station and fills in the fields left out
+export const buildStation = (id: string, url: string, fields: StationFields = {}): Station => {
+  validateStationId(id);
+  validateStationUrl(url);
+  validateMirrors(fields.mirrors);
+  validateVariants(fields.variants);
+
+  return {
+    id,
+    name: fields.name || id,
+    url,
+    genre: fields.genre || 'Custom',
+    description: fields.description || '',
+    quality: fields.quality || 'Unknown',
+    ...(fields.mirrors?.length ? { mirrors: fields.mirrors } : {}),
+    ...(fields.variants?.length ? { variants: fields.variants } : {})
+  };
+};
+
+/**
+ * Adds a station to the user's library. Using the id of a built-in station
+ * is allowed and shadows the built-in entry.
+ */
+export const addUserStation = (id: string, url: string, fields: StationFields = {}): Station => {
+  const station = buildStation(id, url, fields);
+
+  const userStations = getUserStations();
+  if (userStations.some(existing => existing.id === id)) {
+    throw createError('DUPLICATE_STATION_ID', `Station "${id}" already exists in your library`);
+  }
+
+  saveUserStations([...userStations, station]);
+  return station;
+};
+
+/**
+ * Updates a user station. Editing a built-in station copies it into the
+ * library first, so the change shadows the built-in entry.
+ */
+export const editUserStation = (id: string, fields: StationFields): Station => {
+  if (fields.url !== undefined) {
+    validateStationUrl(fields.url);
+  }
+  validateMirrors(fields.mirrors);
+  validateVariants(fields.variants);
+
+  const userStations = getUserStations();
+  const existing = userStations.find(station => station.id === id)
+    || stations.find(station => station.id === id);
+
+  if (!existing) {
+    throw createError('STATION_NOT_FOUND', `Station "${id}" not found`);
+  }
+
+  const updated: Station = { ...existing, ...stripUndefined(fields), id };
+  const others = userStations.filter(station => station.id !== id);
+
+  saveUserStations([...others, updated]);
+  return updated;
+};
+
+/**
+ * Removes a station from the user's library. Removing a shadowing station
+ * brings the built-in one back.
+ */
+export const removeUserStation = (id: string): Station => {
+  const userStations = getUserStations();
+  const existing = userStations.find(station => station.id === id);
+
+  if (!existing) {
+    if (isBuiltinStation(id)) {
+      throw createError('BUILTIN_STATION', `"${id}" is a built-in station and cannot be removed`);
+    }
+    throw createError('STATION_NOT_FOUND', `Station "${id}" not found in your library`);
+  }
+
+  saveUserStations(userStations.filter(station => station.id !== id));
+  return existing;
+};
+
+/**
+ * Changes the id of a user station and updates references to it in the
+ * rest of the config.
+ */
+export const renameUserStation = (id: string, newId: string): Station => {
+  validateStationId(newId);
+
+  const userStations = getUserStations();
+  const existing = userStations.find(station => station.id === id);
+
+  if (!existing) {
+    if (isBuiltinStation(id)) {
+      throw createError('BUILTIN_STATION', `"${id}" is a built-in station and cannot be renamed`);
+    }
+    throw createError('STATION_NOT_FOUND', `Station "${id}" not found in your library`);
+  }
+
+  if (userStations.some(station => station.id === newId)) {
+    throw createError('DUPLICATE_STATION_ID', `Station "${newId}" already exists in your library`);
+  }
+
+  const renamed: Station = { ...existing, id: newId };
+  saveUserStations(userStations.map(station => station.id === id ? renamed : station));
+
+  if (config.get('lastStation') === id) {
+    config.set('lastStation', newId);
+  }
+  config.set('favorites', config.get('favorites').map(favorite => favorite === id ? newId : favorite));
+
+  return renamed;
+};
+
+const stripUndefined = (fields: StationFields): StationFields => {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as StationFields;
+};
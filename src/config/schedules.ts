@@ -0,0 +1,75 @@
+import { config } from './store.js';
+import { getStationById, getStationByName } from './stations.js';
+import { parseScheduleSpec } from '../scheduler/spec.js';
+import { createError } from '../utils/helpers.js';
+import type { ScheduleEntry } from '../types/index.js';
+
+export interface ScheduleOptions {
+  volume?: number;
+  ramp?: number;
+  skipIfPlaying?: boolean;
+}
+
+export const getSchedules = (): ScheduleEntry[] => {
+  return config.get('schedules') || [];
+};
+
+const nextScheduleId = (schedules: ScheduleEntry[]): string => {
+  const highest = schedules.reduce((max, entry) => Math.max(max, parseInt(entry.id, 10) || 0), 0);
+  return String(highest + 1);
+};
+
+/**
+ * Adds a schedule entry. `target` is a station id or name, or "stop" to
+ * stop playback at that time.
+ */
+export const addSchedule = (when: string, target: string, options: ScheduleOptions = {}): ScheduleEntry => {
+  const time = parseScheduleSpec(when);
+  const schedules = getSchedules();
+
+  const entry: ScheduleEntry = {
+    id: nextScheduleId(schedules),
+    when,
+    ...time,
+    action: 'stop',
+    skipIfPlaying: false,
+    createdAt: new Date().toISOString(),
+    lastRun: null
+  };
+
+  if (target.toLowerCase() !== 'stop') {
+    const station = getStationById(target) || getStationByName(target);
+    if (!station) {
+      throw createError('STATION_NOT_FOUND', `Station "${target}" not found`);
+    }
+    if (options.volume !== undefined && (options.volume < 0 || options.volume > 100)) {
+      throw createError('INVALID_VOLUME', 'Volume must be between 0 and 100');
+    }
+
+    entry.action = 'play';
+    entry.stationId = station.id;
+    entry.volume = options.volume;
+    entry.ramp = options.ramp;
+    entry.skipIfPlaying = options.skipIfPlaying || false;
+  }
+
+  config.set('schedules', [...schedules, entry]);
+  return entry;
+};
+
+export const removeSchedule = (id: string): ScheduleEntry => {
+  const schedules = getSchedules();
+  const entry = schedules.find(schedule => schedule.id === id);
+  if (!entry) {
+    throw createError('SCHEDULE_NOT_FOUND', `Schedule "${id}" not found`);
+  }
+
+  config.set('schedules', schedules.filter(schedule => schedule.id !== id));
+  return entry;
+};
+
+export const markScheduleRun = (id: string, at: Date): void => {
+  config.set('schedules', getSchedules().map(entry => (
+    entry.id === id ? { ...entry, lastRun: at.toISOString() } : entry
+  )));
+};
@@ -1,3 +1,4 @@
+import { config } from './store.js';
 import type { Station } from '../types/index.js';
 
 export const stations: Station[] = [
@@ -7,7 +8,11 @@ export const stations: Station[] = [
     url: 'http://stream.radioparadise.com/mellow-320',
     genre: 'Eclectic/Chill',
     description: 'DJ-mixed blend of modern and classic rock, electronica, world music',
-    quality: '320kbps AAC'
+    quality: '320kbps AAC',
+    variants: [
+      { tier: 'medium', url: 'http://stream.radioparadise.com/mellow-128', quality: '128kbps AAC' },
+      { tier: 'low', url: 'http://stream.radioparadise.com/mellow-64', quality: '64kbps AAC' }
+    ]
   },
   {
     id: 'soma-groove',
@@ -15,7 +20,11 @@ export const stations: Station[] = [
     url: 'http://ice1.somafm.com/groovesalad-256-mp3',
     genre: 'Chill/Ambient',
     description: 'A nicely chilled plate of ambient/downtempo beats and grooves',
-    quality: '256kbps MP3'
+    quality: '256kbps MP3',
+    variants: [
+      { tier: 'medium', url: 'http://ice1.somafm.com/groovesalad-128-mp3', quality: '128kbps MP3' },
+      { tier: 'low', url: 'http://ice1.somafm.com/groovesalad-64-aac', quality: '64kbps AAC' }
+    ]
   },
   {
     id: 'soma-deep',
@@ -23,7 +32,11 @@ export const stations: Station[] = [
     url: 'http://ice1.somafm.com/deepspaceone-128-mp3',
     genre: 'Deep Ambient',
     description: 'Deep ambient electronic, experimental and space music',
-    quality: '128kbps MP3'
+    quality: '128kbps MP3',
+    variants: [
+      { tier: 'medium', url: 'http://ice1.somafm.com/deepspaceone-64-aac', quality: '64kbps AAC' },
+      { tier: 'low', url: 'http://ice1.somafm.com/deepspaceone-32-aac', quality: '32kbps AAC' }
+    ]
   },
   {
     id: 'soma-lush',
@@ -31,20 +44,74 @@ export const stations: Station[] = [
     url: 'http://ice1.somafm.com/lush-128-mp3',
     genre: 'Mellow/Vocal',
     description: 'Sensuous and mellow vocals with an electronic influence',
-    quality: '128kbps MP3'
+    quality: '128kbps MP3',
+    variants: [
+      { tier: 'medium', url: 'http://ice1.somafm.com/lush-64-aac', quality: '64kbps AAC' },
+      { tier: 'low', url: 'http://ice1.somafm.com/lush-32-aac', quality: '32kbps AAC' }
+    ]
   }
 ];
 
+// Contributed by plugins as they load; not saved anywhere
+const pluginStations: Station[] = [];
+
+export const getUserStations = (): Station[] => {
+  return config.get('userStations') || [];
+};
+
+// The first station with an id wins, so later plugins can't shadow built-in or earlier ones
+export const addPluginStations = (added: Station[]): number => {
+  const known = new Set([...stations, ...pluginStations].map(station => station.id));
+  let count = 0;
+  added.forEach(station => {
+    if (!known.has(station.id)) {
+      known.add(station.id);
+      pluginStations.push(station);
+      count++;
+    }
+  });
+  return count;
+};
+
+/**
+ * Built-in and plugin stations merged with the user's library. A user
+ * station with the same id as one of them replaces it in place; the rest
+ * are appended.
+ */
+export const getStations = (): Station[] => {
+  const userStations = getUserStations();
+  const userIds = new Set(userStations.map(station => station.id));
+
+  const merged = [...stations, ...pluginStations].map(station =>
+    userIds.has(station.id) ? userStations.find(user => user.id === station.id)! : station
+  );
+  const knownIds = new Set(merged.map(station => station.id));
+
+  return [...merged, ...userStations.filter(station => !knownIds.has(station.id))];
+};
+
+export const isBuiltinStation = (id: string): boolean => {
+  return stations.some(station => station.id === id);
+};
+
+export const isPluginStation = (id: string): boolean => {
+  return pluginStations.some(station => station.id === id);
+};
+
+export const isUserStation = (id: string): boolean => {
+  return getUserStations().some(station => station.id === id);
+};
+
 export const getStationById = (id: string): Station | undefined => {
-  return stations.find(station => station.id === id);
+  return getStations().find(station => station.id === id);
 };
 
 export const getStationByName = (name: string): Station | undefined => {
-  return stations.find(station =>
+  return getStations().find(station =>
     station.name.toLowerCase().includes(name.toLowerCase())
   );
 };
 
 export const getDefaultStation = (): Station => {
-  return stations[0];
+  return getStations()[0];
 };
\ No newline at end of file
@@ -0,0 +1,34 @@
+import path from 'path';
+import Conf from 'conf';
+import type { Config } from '../types/index.js';
+
+export const config = new Conf<Config>({
+  projectName: 'lofi-radio',
+  defaults: {
+    lastStation: null,
+    volume: 70,
+    favorites: [],
+    userStations: [],
+    backend: 'auto',
+    fadeDuration: 2,
+    schedules: [],
+    reconnect: {
+      maxAttempts: 5,
+      baseDelay: 1,
+      maxDelay: 30,
+      alwaysRetry: false
+    },
+    quality: 'auto',
+    directory: {
+      url: 'https://all.api.radio-browser.info',
+      cacheTtl: 24 * 60 * 60
+    },
+    plugins: [],
+    hooks: [],
+    hookConcurrency: 2
+  }
+});
+
+export const getConfigDir = (): string => {
+  return path.dirname(config.path);
+};
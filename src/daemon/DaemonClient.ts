@@ -0,0 +1,231 @@
+import fs from 'fs';
+import net from 'net';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { getSocketPath, getLogPath, encodeMessage, createMessageReader } from './protocol.js';
+import { getConfigDir } from '../config/store.js';
+import type {
+  BackendName,
+  DaemonCommand,
+  FocusPlan,
+  DaemonEvent,
+  DaemonResponse,
+  PlayerStatus,
+  QualityPreference,
+  RecordingStatus,
+  Station,
+  StreamError
+} from '../types/index.js';
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+export class DaemonError extends Error {
+  code: string;
+
+  constructor(error: StreamError) {
+    super(error.message);
+    this.name = 'DaemonError';
+    this.code = error.code;
+  }
+}
+
+/**
+ * Talks to the background daemon that owns the StreamPlayer. Player events
+ * forwarded by the daemon are re-emitted once `subscribe()` has been called,
+ * so listeners can be written the same way as against a local StreamPlayer.
+ */
+export class DaemonClient extends EventEmitter {
+  private socket: net.Socket;
+  private nextId: number = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+
+  private constructor(socket: net.Socket) {
+    super();
+    this.socket = socket;
+
+    this.socket.on('data', createMessageReader((message: DaemonResponse | DaemonEvent) => {
+      if ('event' in message) {
+        this.emit(message.event, message.data);
+        return;
+      }
+
+      const request = this.pending.get(message.id);
+      if (!request) {
+        return;
+      }
+      this.pending.delete(message.id);
+
+      if (message.ok) {
+        request.resolve(message.result);
+      } else {
+        request.reject(new DaemonError(message.error || { code: 'DAEMON_ERROR', message: 'Unknown daemon error' }));
+      }
+    }));
+
+    this.socket.on('error', () => {
+      // Surfaced to pending requests by the 'close' handler below
+    });
+
+    this.socket.on('close', () => {
+      this.pending.forEach(request => request.reject(new Error('Connection to daemon closed')));
+      this.pending.clear();
+      this.emit('disconnected');
+    });
+  }
+
+  /**
+   * Connects to the running daemon, or returns `null` when none is listening
+   * so callers can report "not playing" without starting one.
+   */
+  static async connect(): Promise<DaemonClient | null> {
+    const socket = await tryConnect();
+    return socket ? new DaemonClient(socket) : null;
+  }
+
+  /**
+   * Connects to the running daemon, starting one in the background first
+   * when none is listening.
+   */
+  static async ensureRunning(timeout: number = 5000): Promise<DaemonClient> {
+    const client = await DaemonClient.connect();
+    if (client) {
+      return client;
+    }
+
+    spawnDaemon();
+
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      const retry = await tryConnect();
+      if (retry) {
+        return new DaemonClient(retry);
+      }
+    }
+
+    throw new Error(`Could not start the radio daemon (see ${getLogPath()})`);
+  }
+
+  request<T = any>(command: DaemonCommand, args?: Record<string, any>): Promise<T> {
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.socket.write(encodeMessage({ id, command, args }));
+    });
+  }
+
+  play(
+    station: Station,
+    volume?: number,
+    backend?: string,
+    fade?: number,
+    sleep?: number,
+    sleepFade?: number,
+    quality?: QualityPreference
+  ): Promise<PlayerStatus> {
+    return this.request('play', { station, volume, backend, fade, sleep, sleepFade, quality });
+  }
+
+  stop(fade?: number): Promise<PlayerStatus> {
+    return this.request('stop', { fade });
+  }
+
+  status(): Promise<PlayerStatus> {
+    return this.request('status');
+  }
+
+  setVolume(level: number): Promise<PlayerStatus> {
+    return this.request('volume', { level });
+  }
+
+  mute(): Promise<PlayerStatus> {
+    return this.request('mute');
+  }
+
+  unmute(): Promise<PlayerStatus> {
+    return this.request('unmute');
+  }
+
+  // Durations are in seconds
+  sleep(duration: number, fade?: number): Promise<PlayerStatus> {
+    return this.request('sleep', { duration, fade });
+  }
+
+  cancelSleep(): Promise<PlayerStatus> {
+    return this.request('sleep', { off: true });
+  }
+
+  // The duration is in seconds
+  record(station: Station, duration?: number, directory?: string): Promise<PlayerStatus> {
+    return this.request('record', { station, duration, directory });
+  }
+
+  stopRecording(): Promise<RecordingStatus> {
+    return this.request('record_stop');
+  }
+
+  // Plays the plan's station now and switches at each work/break boundary
+  focus(plan: FocusPlan, volume?: number, backend?: string): Promise<PlayerStatus> {
+    return this.request('focus', { plan, volume, backend });
+  }
+
+  stopFocus(): Promise<PlayerStatus> {
+    return this.request('focus', { off: true });
+  }
+
+  stations(): Promise<{ stations: Station[]; currentStationId: string | null }> {
+    return this.request('stations');
+  }
+
+  /**
+   * Starts `levels` events at up to `fps` frames a second. `available` is
+   * false when the daemon's backend gives no audio to analyse.
+   */
+  levels(fps: number, backend?: string): Promise<{ available: boolean; backend: BackendName }> {
+    return this.request('levels', { fps, backend });
+  }
+
+  stopLevels(): Promise<{ available: boolean; backend: BackendName }> {
+    return this.request('levels', { off: true });
+  }
+
+  subscribe(): Promise<void> {
+    return this.request('subscribe');
+  }
+
+  shutdown(): Promise<void> {
+    return this.request('shutdown');
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+const tryConnect = (): Promise<net.Socket | null> => {
+  return new Promise((resolve) => {
+    const socket = net.createConnection(getSocketPath());
+    socket.once('connect', () => {
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+    socket.once('error', () => resolve(null));
+  });
+};
+
+const spawnDaemon = (): void => {
+  fs.mkdirSync(getConfigDir(), { recursive: true });
+  const log = fs.openSync(getLogPath(), 'a');
+
+  const child = spawn(process.execPath, [process.argv[1], 'daemon'], {
+    detached: true,
+    stdio: ['ignore', log, log]
+  });
+
+  child.unref();
+  fs.closeSync(log);
+};
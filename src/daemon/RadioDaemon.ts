@@ -0,0 +1,672 @@
+import fs from 'fs';
+import net from 'net';
+import type Conf from 'conf';
+import { StreamPlayer } from '../player/StreamPlayer.js';
+import { getStations, getStationById } from '../config/stations.js';
+import { getConfigDir } from '../config/store.js';
+import { createError } from '../utils/helpers.js';
+import { resolveBackend } from '../player/backends/index.js';
+import { MAX_LEVEL_RATE } from '../player/audio/LevelAnalyzer.js';
+import { Scheduler } from '../scheduler/Scheduler.js';
+import { StreamRecorder, getDefaultRecordingDir } from '../recorder/StreamRecorder.js';
+import { TrackLogger } from '../history/tracks.js';
+import { SessionRecorder } from '../stats/sessions.js';
+import { appendFocusSession } from '../stats/focus.js';
+import { FocusTimer } from '../focus/FocusTimer.js';
+import { createChime } from '../focus/chime.js';
+import type { ChimeKind } from '../focus/chime.js';
+import { MprisService } from '../mpris/MprisService.js';
+import type { PluginHost } from '../plugins/PluginHost.js';
+import { HookRunner, describeHookResult } from '../hooks/HookRunner.js';
+import { getSocketPath, getPidfilePath, encodeMessage, createMessageReader } from './protocol.js';
+import type {
+  AudioLevels,
+  Config,
+  DaemonEventName,
+  FocusPlan,
+  FocusSessionRecord,
+  FocusStatus,
+  DaemonRequest,
+  HookEntry,
+  HookResult,
+  PluginInfo,
+  DaemonResponse,
+  PlayerStatus,
+  QualityChange,
+  QualityPreference,
+  RecordingStatus,
+  ScheduleEntry,
+  Station,
+  StreamError,
+  TrackMetadata
+} from '../types/index.js';
+
+// Focus transitions fade even when plain play and stop don't
+const FOCUS_FADE_SECONDS = 3;
+
+const FORWARDED_EVENTS: DaemonEventName[] = ['playing', 'stopped', 'error', 'reconnecting', 'connection_lost', 'metadata', 'sleep_warning', 'sleep_expired', 'quality_changed'];
+
+export class RadioDaemon {
+  private player: StreamPlayer;
+  private config: Conf<Config>;
+  private server: net.Server | null = null;
+  private subscribers: Set<net.Socket> = new Set();
+  // Clients showing a visualizer, with the frame rate each asked for
+  private levelSubscribers: Map<net.Socket, number> = new Map();
+  private shuttingDown: boolean = false;
+  private backendPreference: string | null = null;
+  private scheduler: Scheduler;
+  private recorder: StreamRecorder | null = null;
+  private trackLogger: TrackLogger = new TrackLogger();
+  private sessions: SessionRecorder = new SessionRecorder();
+  private focus: FocusTimer | null = null;
+  private mpris: MprisService | null = null;
+  private plugins: PluginHost | null;
+  private hooks: HookRunner;
+
+  constructor(player: StreamPlayer, config: Conf<Config>, plugins: PluginHost | null = null) {
+    this.player = player;
+    this.config = config;
+    this.plugins = plugins;
+    this.scheduler = new Scheduler(entry => this.runSchedule(entry));
+    this.hooks = new HookRunner(config);
+
+    this.scheduler.on('run', (entry: ScheduleEntry) => this.log(`Ran schedule ${entry.id} (${entry.when})`));
+    this.scheduler.on('missed', (entry: ScheduleEntry, due: Date) => {
+      this.log(`Skipped schedule ${entry.id}: missed by too long (was due ${due.toISOString()})`);
+    });
+    this.scheduler.on('failed', (entry: ScheduleEntry, error: Error) => {
+      this.log(`Schedule ${entry.id} failed: ${error.message}`);
+    });
+
+    FORWARDED_EVENTS.forEach(event => {
+      this.player.on(event, (data?: any) => this.broadcast(event, data));
+    });
+
+    this.player.on('metadata', (track: TrackMetadata, station: Station) => this.trackLogger.started(track, station));
+    this.player.on('stopped', () => this.trackLogger.ended());
+
+    this.player.on('playing', (station: Station) => this.sessions.playing(station));
+    this.player.on('reconnecting', () => this.sessions.reconnected());
+    this.player.on('stopped', () => this.sessions.stopped());
+
+    this.player.on('quality_changed', (change: QualityChange) => {
+      this.log(`Quality ${change.reason}: ${change.previous} -> ${change.tier}`);
+    });
+
+    // Levels come many times a second, so only clients that asked get them
+    this.player.on('levels', (levels: AudioLevels) => {
+      this.broadcast('levels', levels, this.levelSubscribers.keys());
+    });
+
+    this.hooks.on('finished', (hook: HookEntry, result: HookResult) => this.logHook(hook, result));
+    this.hooks.on('dropped', (hook: HookEntry) => this.log(`Hook ${hook.id} (${hook.event}) dropped: too many hooks waiting to run`));
+    this.hooks.attach(this.player);
+
+    // After the daemon's own listeners, so a plugin sees the state they leave behind
+    if (plugins) {
+      plugins.on('failed', (plugin: PluginInfo, error: Error) => this.log(`Plugin ${plugin.name}: ${error.message}`));
+      plugins.on('log', (plugin: PluginInfo, message: string) => this.log(`[${plugin.name}] ${message}`));
+      plugins.attachPlayer(this.player);
+    }
+  }
+
+  async start(): Promise<void> {
+    fs.mkdirSync(getConfigDir(), { recursive: true });
+    acquirePidfile();
+    this.sessions.recover();
+
+    const socketPath = getSocketPath();
+    if (process.platform !== 'win32' && fs.existsSync(socketPath)) {
+      // We hold the pidfile, so any socket left behind belongs to a dead daemon
+      fs.unlinkSync(socketPath);
+    }
+
+    this.server = net.createServer(socket => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(socketPath, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.scheduler.start();
+    await this.startMpris();
+    this.logPlugins();
+
+    process.on('SIGINT', () => this.shutdown());
+    process.on('SIGTERM', () => this.shutdown());
+
+    this.log(`Listening on ${socketPath} (pid ${process.pid})`);
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+    this.shuttingDown = true;
+    this.log('Shutting down');
+    this.scheduler.stop();
+    this.focus?.cancel();
+    this.mpris?.stop();
+    if (this.recorder) {
+      await this.recorder.stop();
+    }
+
+    await this.player.stop();
+    this.trackLogger.ended();
+    this.sessions.finish();
+
+    this.subscribers.forEach(socket => socket.destroy());
+    this.subscribers.clear();
+
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+
+    const socketPath = getSocketPath();
+    if (process.platform !== 'win32' && fs.existsSync(socketPath)) {
+      fs.unlinkSync(socketPath);
+    }
+    releasePidfile();
+
+    process.exit(0);
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const read = createMessageReader((request: DaemonRequest) => {
+      this.respond(request, socket);
+    });
+
+    socket.on('data', read);
+    socket.on('close', () => this.unsubscribe(socket));
+    socket.on('error', () => this.unsubscribe(socket));
+  }
+
+  private unsubscribe(socket: net.Socket): void {
+    this.subscribers.delete(socket);
+    if (this.levelSubscribers.delete(socket)) {
+      this.updateLevelRate();
+    }
+  }
+
+  // Runs the analyser as fast as the most demanding visualizer wants it
+  private updateLevelRate(): boolean {
+    return this.player.setLevelRate(Math.max(0, ...this.levelSubscribers.values()));
+  }
+
+  // Never rejects: anything handleRequest doesn't turn into an error response is caught here
+  private async respond(request: DaemonRequest, socket: net.Socket): Promise<void> {
+    let response: DaemonResponse;
+    try {
+      response = await this.handleRequest(request, socket);
+    } catch (error: any) {
+      this.log(`Request failed: ${error.message}`);
+      response = {
+        id: request?.id,
+        ok: false,
+        error: { code: error.code || 'DAEMON_ERROR', message: error.message }
+      };
+    }
+
+    if (!socket.destroyed) {
+      socket.write(encodeMessage(response));
+    }
+
+    if (response.ok && request.command === 'shutdown') {
+      socket.end();
+      await this.shutdown().catch((error: Error) => this.log(`Shutdown failed: ${error.message}`));
+    }
+  }
+
+  private async handleRequest(request: DaemonRequest, socket: net.Socket): Promise<DaemonResponse> {
+    const args = request.args || {};
+
+    try {
+      switch (request.command) {
+        case 'ping':
+          return { id: request.id, ok: true, result: { pid: process.pid } };
+
+        case 'play':
+          await this.ensureBackend(args.backend);
+          this.applyFade(args.fade);
+          await this.playStation(args.station as Station, args.volume, args.quality);
+          if (args.sleep) {
+            this.player.setSleepTimer(args.sleep * 1000, (args.sleepFade || 0) * 1000);
+          }
+          return { id: request.id, ok: true, result: this.getStatus() };
+
+        case 'stop':
+          await this.stopPlayback(args.fade);
+          return { id: request.id, ok: true, result: this.getStatus() };
+
+        case 'status':
+          return { id: request.id, ok: true, result: this.getStatus() };
+
+        case 'volume':
+          await this.setVolume(args.level);
+          return { id: request.id, ok: true, result: this.getStatus() };
+
+        case 'mute':
+          await this.player.mute();
+          this.announceVolume();
+          return { id: request.id, ok: true, result: this.getStatus() };
+
+        case 'unmute':
+          await this.player.unmute();
+          this.announceVolume();
+          return { id: request.id, ok: true, result: this.getStatus() };
+
+        case 'sleep':
+          if (args.off) {
+            this.player.cancelSleepTimer();
+          } else if (args.duration) {
+            if (!this.player.getState().isPlaying) {
+              throw createError('NOT_PLAYING', 'No station is currently playing');
+            }
+            this.player.setSleepTimer(args.duration * 1000, (args.fade || 0) * 1000);
+          }
+          return { id: request.id, ok: true, result: this.getStatus() };
+
+        case 'record':
+          await this.startRecording(args.station as Station, args.duration, args.directory);
+          return { id: request.id, ok: true, result: this.getStatus() };
+
+        case 'record_stop': {
+          if (!this.recorder) {
+            throw createError('NOT_RECORDING', 'Nothing is being recorded');
+          }
+          const summary = await this.recorder.stop();
+          return { id: request.id, ok: true, result: summary };
+        }
+
+        case 'stations': {
+          const current = this.player.getState().currentStation;
+          return { id: request.id, ok: true, result: { stations: getStations(), currentStationId: current?.id || null } };
+        }
+
+        case 'focus':
+          if (args.off) {
+            if (!this.focus) {
+              throw createError('NOT_FOCUSING', 'No focus session is running');
+            }
+            this.focus.cancel();
+          } else {
+            await this.ensureBackend(args.backend);
+            await this.startFocus(args.plan as FocusPlan, args.volume);
+          }
+          return { id: request.id, ok: true, result: this.getStatus() };
+
+        case 'subscribe':
+          this.subscribers.add(socket);
+          return { id: request.id, ok: true };
+
+        case 'levels': {
+          if (args.off) {
+            this.levelSubscribers.delete(socket);
+          } else {
+            const fps = Number(args.fps);
+            if (!Number.isFinite(fps) || fps <= 0) {
+              throw createError('INVALID_RATE', 'Frame rate must be a positive number');
+            }
+            this.levelSubscribers.set(socket, Math.min(fps, MAX_LEVEL_RATE));
+          }
+          // Only the backend knows whether it can give levels, so pick it now
+          // if nothing is playing; a running stream keeps the one it has
+          if (!this.player.getState().isPlaying) {
+            await this.ensureBackend(args.backend);
+          }
+          const available = this.updateLevelRate();
+          return { id: request.id, ok: true, result: { available, backend: this.player.getBackend().name } };
+        }
+
+        case 'shutdown':
+          return { id: request.id, ok: true };
+
+        default:
+          return {
+            id: request.id,
+            ok: false,
+            error: { code: 'UNKNOWN_COMMAND', message: `Unknown command: ${request.command}` }
+          };
+      }
+    } catch (error: any) {
+      return {
+        id: request.id,
+        ok: false,
+        error: { code: error.code || 'DAEMON_ERROR', message: error.message }
+      };
+    }
+  }
+
+  /**
+   * Switches the player to the backend asked for by the request or the
+   * config. Detection only runs again when that preference changes.
+   */
+  private async ensureBackend(preference?: string): Promise<void> {
+    const wanted = preference || this.config.get('backend') || 'auto';
+    if (wanted === this.backendPreference) {
+      return;
+    }
+
+    const backend = await resolveBackend(wanted);
+    await this.player.setBackend(backend);
+    this.backendPreference = wanted;
+    this.log(`Using the ${backend.name} backend`);
+  }
+
+  // Stopping by hand ends a focus session too
+  private async stopPlayback(fade?: number): Promise<void> {
+    this.focus?.cancel();
+    this.applyFade(fade);
+    this.player.cancelSleepTimer();
+    await this.player.stop();
+    this.sessions.finish();
+  }
+
+  /**
+   * Registers on the session bus for media keys and desktop widgets.
+   * Without a bus (not Linux, or no desktop session) the daemon runs on
+   * as before.
+   */
+  private async startMpris(): Promise<void> {
+    if (process.platform !== 'linux' || !process.env.DBUS_SESSION_BUS_ADDRESS) {
+      return;
+    }
+
+    const mpris = new MprisService(this.player, this.config, {
+      play: async station => {
+        await this.ensureBackend();
+        this.applyFade();
+        await this.playStation(station);
+        this.config.set('lastStation', station.id);
+      },
+      stop: () => this.stopPlayback(),
+      setVolume: level => this.setVolume(level)
+    });
+    mpris.on('error', (error: Error) => this.log(`MPRIS: ${error.message}`));
+    mpris.on('close', () => {
+      if (this.mpris === mpris) {
+        this.mpris = null;
+      }
+      this.log('MPRIS: lost the session bus');
+    });
+
+    try {
+      await mpris.start();
+      this.mpris = mpris;
+      this.log(`MPRIS: registered as ${mpris.busName}`);
+    } catch (error: any) {
+      this.log(`MPRIS unavailable: ${error.message}`);
+    }
+  }
+
+  private logHook(hook: HookEntry, result: HookResult): void {
+    this.log(`Hook ${hook.id} (${hook.event}) ${describeHookResult(result, hook.timeout)}`);
+    result.output.trimEnd().split('\n').filter(Boolean).forEach(line => this.log(`  ${hook.id}| ${line}`));
+  }
+
+  // Plugins loaded before the daemon was created, so their load failures are reported here
+  private logPlugins(): void {
+    this.plugins?.getPlugins().forEach(plugin => {
+      this.log(plugin.state === 'loaded'
+        ? `Plugin ${plugin.name} loaded from ${plugin.source}`
+        : `Plugin ${plugin.name} ${plugin.state}: ${plugin.error}`);
+    });
+  }
+
+  // Fade lengths come in seconds, from the request or the config
+  private applyFade(seconds?: number): void {
+    const fade = seconds ?? this.config.get('fadeDuration') ?? 0;
+    this.player.setFadeDuration(fade * 1000);
+  }
+
+  // Durations come in seconds; the directory defaults to ~/Music/lofi-radio
+  private async startRecording(station: Station, duration?: number, directory?: string): Promise<void> {
+    if (!station || !station.url) {
+      throw createError('INVALID_STATION', 'No station given');
+    }
+    if (this.recorder) {
+      throw createError('ALREADY_RECORDING', `Already recording ${this.recorder.getStatus().station.name}`);
+    }
+
+    const recorder = new StreamRecorder(station, directory || getDefaultRecordingDir());
+    recorder.on('error', (error: StreamError) => {
+      this.log(`Recording failed: ${error.message}`);
+      this.broadcast('recording_error', error);
+    });
+    recorder.on('stopped', (summary: RecordingStatus) => {
+      if (this.recorder === recorder) {
+        this.recorder = null;
+      }
+      this.log(`Recorded ${summary.tracks} track(s) to ${summary.directory}`);
+      this.broadcast('recording_stopped', summary);
+    });
+
+    this.recorder = recorder;
+    try {
+      await recorder.start(duration ? duration * 1000 : undefined);
+    } catch (error) {
+      this.recorder = null;
+      throw error;
+    }
+  }
+
+  private async startFocus(plan: FocusPlan, volume?: number): Promise<void> {
+    if (!plan?.station?.url || !(plan.work > 0) || !(plan.break >= 0) || !(plan.cycles >= 1)) {
+      throw createError('INVALID_FOCUS', 'A focus session needs a station, a work length and at least one cycle');
+    }
+
+    this.focus?.cancel();
+    await this.runFocusTransition(() => this.playStation(plan.station, volume));
+
+    const timer = new FocusTimer(plan);
+    this.focus = timer;
+
+    timer.on('phase', (status: FocusStatus) => {
+      const playing = status.station ? `on ${status.station.name}` : 'in silence';
+      this.log(`Focus: ${status.phase} ${status.cycle}/${status.cycles} ${playing}`);
+      this.broadcast('focus_phase', status);
+      this.ringChime(status.phase);
+
+      // The first work block is already playing
+      if (status.phase === 'work' && status.cycle === 1) {
+        return;
+      }
+      this.runFocusTransition(() => status.station ? this.playStation(status.station) : this.player.stop())
+        .catch((error: Error) => this.log(`Focus: couldn't switch to the ${status.phase}: ${error.message}`));
+    });
+
+    timer.on('finished', (record: FocusSessionRecord) => {
+      if (this.focus === timer) {
+        this.focus = null;
+      }
+      appendFocusSession(record);
+      this.log(`Focus session ${record.completed ? 'finished' : 'ended'} after ${record.cycles}/${record.plannedCycles} block(s)`);
+      this.broadcast('focus_finished', record);
+
+      if (record.completed) {
+        this.ringChime('done');
+        this.runFocusTransition(() => this.player.stop()).catch(() => {});
+      }
+    });
+
+    timer.start();
+  }
+
+  // Plays or stops with a fade, then goes back to the configured one
+  private async runFocusTransition(transition: () => Promise<void>): Promise<void> {
+    this.applyFade(this.config.get('fadeDuration') || FOCUS_FADE_SECONDS);
+    try {
+      await transition();
+    } finally {
+      this.applyFade();
+    }
+  }
+
+  // Not awaited: the chime rings over the fade rather than holding it up
+  private ringChime(kind: ChimeKind): void {
+    const state = this.player.getState();
+    if (state.muted) {
+      return;
+    }
+    this.player.getBackend().playClip(createChime(kind, state.volume)).catch(() => {});
+  }
+
+  private async runSchedule(entry: ScheduleEntry): Promise<void> {
+    // The same stop as asked for by hand, so a focus session is closed too
+    if (entry.action === 'stop') {
+      await this.stopPlayback();
+      return;
+    }
+
+    const station = entry.stationId ? getStationById(entry.stationId) : undefined;
+    if (!station) {
+      throw createError('STATION_NOT_FOUND', `Station "${entry.stationId}" no longer exists`);
+    }
+
+    if (entry.skipIfPlaying && this.player.getState().isPlaying) {
+      this.log(`Schedule ${entry.id}: already playing, leaving it alone`);
+      return;
+    }
+
+    await this.ensureBackend();
+    // An alarm ramp is a longer fade-in; later requests go back to the configured fade
+    this.applyFade(entry.ramp);
+    try {
+      await this.playStation(station, entry.volume ?? this.config.get('volume'));
+    } finally {
+      this.applyFade();
+    }
+  }
+
+  // StreamPlayer.play only settles once the first connection attempt succeeds,
+  // so the request also has to give up when the player gives up reconnecting.
+  private playStation(station: Station, volume?: number, quality?: QualityPreference): Promise<void> {
+    if (!station || !station.url) {
+      return Promise.reject(createError('INVALID_STATION', 'No station given'));
+    }
+
+    // Read on every play, so "radio reconnect" changes apply without a restart
+    this.player.setReconnectPolicy(this.config.get('reconnect'));
+
+    return new Promise((resolve, reject) => {
+      const onPlaying = () => {
+        cleanup();
+        resolve();
+      };
+      const onLost = (error: StreamError) => {
+        cleanup();
+        reject(createError(error.code, error.message));
+      };
+      const cleanup = () => {
+        this.player.off('playing', onPlaying);
+        this.player.off('connection_lost', onLost);
+      };
+
+      this.player.on('playing', onPlaying);
+      this.player.on('connection_lost', onLost);
+
+      this.player.play(station, volume, quality ?? this.config.get('quality') ?? 'auto').catch((error: Error) => {
+        cleanup();
+        reject(error);
+      });
+    });
+  }
+
+  private getStatus(): PlayerStatus {
+    const state = this.player.getState();
+    const sleepRemaining = this.player.getSleepRemaining();
+    return {
+      isPlaying: state.isPlaying,
+      currentStation: state.currentStation,
+      volume: state.volume,
+      startTime: state.startTime ? state.startTime.toISOString() : null,
+      uptime: this.player.getUptime(),
+      track: state.track,
+      backend: state.backend,
+      muted: state.muted,
+      sleepEndsAt: state.sleepEndsAt ? state.sleepEndsAt.toISOString() : null,
+      sleepRemaining: sleepRemaining === null ? null : Math.ceil(sleepRemaining / 1000),
+      recording: this.recorder ? this.recorder.getStatus() : null,
+      quality: state.quality,
+      qualityMode: state.qualityMode,
+      focus: this.focus ? this.focus.getStatus() : null
+    };
+  }
+
+  private async setVolume(level: number): Promise<void> {
+    await this.player.setVolume(level);
+    this.config.set('volume', level);
+    this.announceVolume();
+  }
+
+  // The player doesn't announce volume changes, so whatever makes one does
+  private announceVolume(): void {
+    const state = this.player.getState();
+    this.mpris?.refresh();
+    this.broadcast('volume_changed', { volume: state.volume, muted: state.muted });
+  }
+
+  private broadcast(event: DaemonEventName, data?: any, sockets: Iterable<net.Socket> = this.subscribers): void {
+    const message = encodeMessage({ event, data });
+    for (const socket of sockets) {
+      if (!socket.destroyed) {
+        socket.write(message);
+      }
+    }
+  }
+
+  private log(message: string): void {
+    console.log(`[${new Date().toISOString()}] ${message}`);
+  }
+}
+
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === 'EPERM';
+  }
+};
+
+const acquirePidfile = (): void => {
+  const pidfile = getPidfilePath();
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const fd = fs.openSync(pidfile, 'wx');
+      fs.writeSync(fd, String(process.pid));
+      fs.closeSync(fd);
+      return;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+
+      const pid = parseInt(fs.readFileSync(pidfile, 'utf8'), 10);
+      if (!isNaN(pid) && isProcessAlive(pid)) {
+        throw createError('DAEMON_RUNNING', `Daemon already running (pid ${pid})`);
+      }
+
+      fs.unlinkSync(pidfile);
+    }
+  }
+
+  throw createError('DAEMON_LOCKED', 'Could not acquire daemon pidfile');
+};
+
+const releasePidfile = (): void => {
+  const pidfile = getPidfilePath();
+  try {
+    if (parseInt(fs.readFileSync(pidfile, 'utf8'), 10) === process.pid) {
+      fs.unlinkSync(pidfile);
+    }
+  } catch {
+    // Already gone
+  }
+};
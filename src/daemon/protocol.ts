@@ -0,0 +1,56 @@
+import os from 'os';
+import path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { getConfigDir } from '../config/store.js';
+
+export const getSocketPath = (): string => {
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\lofi-radio-${os.userInfo().username}`;
+  }
+  return path.join(getConfigDir(), 'radio.sock');
+};
+
+export const getPidfilePath = (): string => {
+  return path.join(getConfigDir(), 'radio.pid');
+};
+
+export const getLogPath = (): string => {
+  return path.join(getConfigDir(), 'daemon.log');
+};
+
+export const encodeMessage = (message: object): string => {
+  return JSON.stringify(message) + '\n';
+};
+
+// Messages are newline-delimited JSON; a single socket chunk may carry
+// several messages or only part of one, and may end halfway through a
+// multibyte character, which the decoder holds back until the rest arrives.
+export const createMessageReader = (onMessage: (message: any) => void): (chunk: Buffer) => void => {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+
+  return (chunk: Buffer) => {
+    buffer += decoder.write(chunk);
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+
+      if (line) {
+        let message: any;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          // Ignore malformed lines rather than tearing down the connection
+          message = undefined;
+        }
+        if (message !== undefined) {
+          onMessage(message);
+        }
+      }
+
+      newline = buffer.indexOf('\n');
+    }
+  };
+};
@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import fetch from 'node-fetch';
+import { config, getConfigDir } from '../config/store.js';
+import { getStations } from '../config/stations.js';
+import { createError, slugify } from '../utils/helpers.js';
+import type { DirectoryQuery, DirectorySearchResult, DirectoryStation, Station } from '../types/index.js';
+
+const DEFAULT_LIMIT = 20;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+interface CacheEntry {
+  url: string;
+  fetchedAt: string;
+  stations: DirectoryStation[];
+}
+
+// The subset of a Radio Browser station record that we use
+interface RadioBrowserStation {
+  stationuuid: string;
+  name: string;
+  url: string;
+  url_resolved?: string;
+  homepage?: string;
+  tags?: string;
+  country?: string;
+  countrycode?: string;
+  codec?: string;
+  bitrate?: number;
+  votes?: number;
+}
+
+// RADIO_DIRECTORY_URL wins over the config, which is handy for pointing
+// tests at a local stand-in
+export const getDirectoryUrl = (): string => {
+  return (process.env.RADIO_DIRECTORY_URL || config.get('directory').url).replace(/\/+$/, '');
+};
+
+export const getDirectoryCacheDir = (): string => {
+  return path.join(getConfigDir(), 'cache', 'directory');
+};
+
+const buildSearchUrl = (query: DirectoryQuery): string => {
+  const params = new URLSearchParams({
+    name: query.query,
+    limit: String(query.limit ?? DEFAULT_LIMIT),
+    hidebroken: 'true',
+    order: 'votes',
+    reverse: 'true'
+  });
+
+  if (query.genre) {
+    params.set('tag', query.genre);
+  }
+  if (query.country) {
+    // Two letters is a country code, anything longer a country name
+    params.set(query.country.length === 2 ? 'countrycode' : 'country', query.country);
+  }
+  if (query.codec) {
+    params.set('codec', query.codec);
+  }
+
+  return `${getDirectoryUrl()}/json/stations/search?${params}`;
+};
+
+const getCachePath = (url: string): string => {
+  const key = createHash('sha1').update(url).digest('hex');
+  return path.join(getDirectoryCacheDir(), `${key}.json`);
+};
+
+const readCache = (url: string): CacheEntry | null => {
+  try {
+    const entry: CacheEntry = JSON.parse(fs.readFileSync(getCachePath(url), 'utf8'));
+    return entry.url === url ? entry : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCache = (entry: CacheEntry): void => {
+  try {
+    fs.mkdirSync(getDirectoryCacheDir(), { recursive: true });
+    fs.writeFileSync(getCachePath(entry.url), JSON.stringify(entry));
+  } catch {
+    // Without a cache every search simply goes to the network
+  }
+};
+
+const toDirectoryStation = (record: RadioBrowserStation): DirectoryStation => {
+  return {
+    uuid: record.stationuuid,
+    name: record.name.trim(),
+    url: record.url_resolved || record.url,
+    homepage: record.homepage || '',
+    tags: (record.tags || '').split(',').map(tag => tag.trim()).filter(Boolean),
+    country: record.country || '',
+    countryCode: record.countrycode || '',
+    codec: record.codec || '',
+    bitrate: record.bitrate || 0,
+    votes: record.votes || 0
+  };
+};
+
+const fetchStations = async (url: string): Promise<DirectoryStation[]> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'lofi-radio-nodejs', Accept: 'application/json' },
+      signal: controller.signal
+    });
+    if (!response.ok) {
+      throw createError('DIRECTORY_ERROR', `Station directory responded with HTTP ${response.status}`);
+    }
+
+    const records = await response.json() as RadioBrowserStation[];
+    if (!Array.isArray(records)) {
+      throw createError('DIRECTORY_ERROR', 'Station directory sent an unexpected response');
+    }
+    return records.filter(record => record.stationuuid && record.name && record.url).map(toDirectoryStation);
+  } catch (error: any) {
+    if (error.code === 'DIRECTORY_ERROR') {
+      throw error;
+    }
+    const reason = error.name === 'AbortError' ? 'timed out' : error.message;
+    throw createError('DIRECTORY_UNREACHABLE', `Couldn't reach the station directory: ${reason}`);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Searches the station directory. Answers are cached on disk for the
+ * configured TTL; when the directory can't be reached, an expired answer
+ * is still better than none and is returned marked as stale.
+ */
+export const searchDirectory = async (query: DirectoryQuery): Promise<DirectorySearchResult> => {
+  const url = buildSearchUrl(query);
+  const cached = readCache(url);
+  const ttl = config.get('directory').cacheTtl * 1000;
+
+  if (cached && Date.now() - Date.parse(cached.fetchedAt) < ttl) {
+    return { stations: cached.stations, fetchedAt: cached.fetchedAt, fromCache: true, stale: false };
+  }
+
+  try {
+    const stations = await fetchStations(url);
+    const entry: CacheEntry = { url, fetchedAt: new Date().toISOString(), stations };
+    writeCache(entry);
+    return { stations, fetchedAt: entry.fetchedAt, fromCache: false, stale: false };
+  } catch (error) {
+    if (cached) {
+      return { stations: cached.stations, fetchedAt: cached.fetchedAt, fromCache: true, stale: true };
+    }
+    throw error;
+  }
+};
+
+// e.g. "128kbps MP3", leaving out whatever the directory doesn't know
+export const describeDirectoryStation = (station: DirectoryStation): string => {
+  return [station.bitrate ? `${station.bitrate}kbps` : null, station.codec]
+    .filter(Boolean)
+    .join(' ') || 'Unknown';
+};
+
+/**
+ * Turns a search result into a library station, with an id derived from
+ * its name that doesn't clash with any existing station.
+ */
+export const directoryToStation = (result: DirectoryStation): Station => {
+  const takenIds = new Set(getStations().map(station => station.id));
+  const base = slugify(result.name);
+
+  let id = base;
+  for (let n = 2; takenIds.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+
+  const location = result.country ? ` from ${result.country}` : '';
+  return {
+    id,
+    name: result.name,
+    url: result.url,
+    genre: result.tags.slice(0, 2).join(', ') || 'Custom',
+    description: `Found in the station directory${location}`,
+    quality: describeDirectoryStation(result)
+  };
+};
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import { config } from '../config/store.js';
+import { getStations, getStationById, getUserStations } from '../config/stations.js';
+import { validateStationId, validateStationUrl } from '../config/library.js';
+import { getBackendAvailability, isBackendName } from '../player/backends/index.js';
+import { probeStation } from './probe.js';
+import type { DoctorReport, Station, StationProbe } from '../types/index.js';
+
+export { probeStation, sniffAudioFormat } from './probe.js';
+
+export const DEFAULT_PROBE_TIMEOUT = 8000;
+
+// All probes run at once; the catalog is small and each one mostly waits
+export const probeStations = (stations: Station[], timeout: number = DEFAULT_PROBE_TIMEOUT): Promise<StationProbe[]> => {
+  return Promise.all(stations.map(station => probeStation(station, timeout)));
+};
+
+/**
+ * Looks for settings that parse but make no sense, such as favorites or
+ * schedules pointing at stations that no longer exist.
+ */
+export const checkConfig = (): string[] => {
+  const problems: string[] = [];
+
+  try {
+    JSON.parse(fs.readFileSync(config.path, 'utf8'));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      return [`Config file can't be read: ${error.message}`];
+    }
+  }
+
+  const volume = config.get('volume');
+  if (typeof volume !== 'number' || volume < 0 || volume > 100) {
+    problems.push(`volume is ${JSON.stringify(volume)}, expected 0-100`);
+  }
+
+  const backend = config.get('backend');
+  if (backend !== 'auto' && !isBackendName(backend)) {
+    problems.push(`backend is "${backend}", which isn't a known backend`);
+  }
+
+  const fadeDuration = config.get('fadeDuration');
+  if (typeof fadeDuration !== 'number' || fadeDuration < 0) {
+    problems.push(`fadeDuration is ${JSON.stringify(fadeDuration)}, expected seconds >= 0`);
+  }
+
+  const lastStation = config.get('lastStation');
+  if (lastStation && !getStationById(lastStation)) {
+    problems.push(`lastStation "${lastStation}" no longer exists`);
+  }
+
+  (config.get('favorites') || []).forEach(id => {
+    if (!getStationById(id)) {
+      problems.push(`Favorite "${id}" no longer exists`);
+    }
+  });
+
+  const seen = new Set<string>();
+  getUserStations().forEach(station => {
+    try {
+      validateStationId(station.id);
+      validateStationUrl(station.url);
+      (station.mirrors || []).forEach(validateStationUrl);
+    } catch (error: any) {
+      problems.push(`Library station "${station.id}": ${error.message}`);
+    }
+    if (seen.has(station.id)) {
+      problems.push(`Library station "${station.id}" appears more than once`);
+    }
+    seen.add(station.id);
+  });
+
+  (config.get('schedules') || []).forEach(entry => {
+    if (entry.action === 'play' && (!entry.stationId || !getStationById(entry.stationId))) {
+      problems.push(`Schedule ${entry.id} plays "${entry.stationId}", which no longer exists`);
+    }
+  });
+
+  return problems;
+};
+
+export const runDoctor = async (timeout: number = DEFAULT_PROBE_TIMEOUT): Promise<DoctorReport> => {
+  const [stations, backends] = await Promise.all([
+    probeStations(getStations(), timeout),
+    getBackendAvailability()
+  ]);
+
+  return {
+    stations,
+    backends,
+    config: { path: config.path, problems: checkConfig() }
+  };
+};
@@ -0,0 +1,160 @@
+import { Readable } from 'stream';
+import fetch from 'node-fetch';
+import type { Response } from 'node-fetch';
+import type { Station, StationProbe } from '../types/index.js';
+
+const MAX_REDIRECTS = 5;
+// Enough for several frames of any common codec at any common bitrate
+const SAMPLE_BYTES = 16 * 1024;
+
+/**
+ * Recognizes the start of an audio stream: Ogg and FLAC by their magic
+ * bytes, MP3 and ADTS AAC by finding several valid frame headers.
+ */
+export const sniffAudioFormat = (data: Buffer): string | null => {
+  const magic = data.subarray(0, 4).toString('latin1');
+  if (magic === 'OggS') {
+    return 'ogg';
+  }
+  if (magic === 'fLaC') {
+    return 'flac';
+  }
+
+  let mp3Frames = 0;
+  let aacFrames = 0;
+  for (let i = 0; i < data.length - 3; i++) {
+    if (data[i] !== 0xff || (data[i + 1] & 0xe0) !== 0xe0) {
+      continue;
+    }
+
+    if ((data[i + 1] & 0xf6) === 0xf0) {
+      aacFrames++;
+    } else if (isMp3Header(data[i + 1], data[i + 2])) {
+      mp3Frames++;
+    }
+  }
+
+  if (aacFrames >= 3 && aacFrames >= mp3Frames) {
+    return 'aac';
+  }
+  return mp3Frames >= 3 ? 'mp3' : null;
+};
+
+const isMp3Header = (second: number, third: number): boolean => {
+  const version = (second >> 3) & 0x03;
+  const layer = (second >> 1) & 0x03;
+  const bitrate = third >> 4;
+  const sampleRate = (third >> 2) & 0x03;
+  return version !== 1 && layer !== 0 && bitrate !== 0 && bitrate !== 15 && sampleRate !== 3;
+};
+
+const parseKbps = (text: string | null | undefined): number | null => {
+  const match = text?.match(/(\d+)\s*k/i) || text?.match(/^(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+// Reads the first bytes of the body, noting when the first chunk arrived
+const readSample = async (body: Readable, startedAt: number): Promise<{ data: Buffer; ttfb: number | null }> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let ttfb: number | null = null;
+
+  for await (const chunk of body) {
+    if (ttfb === null) {
+      ttfb = Date.now() - startedAt;
+    }
+    chunks.push(chunk as Buffer);
+    size += (chunk as Buffer).length;
+    if (size >= SAMPLE_BYTES) {
+      break;
+    }
+  }
+
+  return { data: Buffer.concat(chunks), ttfb };
+};
+
+/**
+ * Connects to a station the way playback would and reports what came back.
+ * Redirects are followed by hand so the chain can be shown; a station that
+ * has moved still works but should have its URL updated.
+ */
+export const probeStation = async (station: Station, timeout: number): Promise<StationProbe> => {
+  const probe: StationProbe = {
+    stationId: station.id,
+    stationName: station.name,
+    url: station.url,
+    status: 'ok',
+    httpStatus: null,
+    redirects: [],
+    finalUrl: station.url,
+    contentType: null,
+    bitrate: null,
+    expectedBitrate: parseKbps(station.quality),
+    ttfb: null,
+    audioFormat: null,
+    problems: []
+  };
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  const startedAt = Date.now();
+
+  try {
+    let url = station.url;
+    let response: Response;
+
+    for (let hop = 0; ; hop++) {
+      response = await fetch(url, { redirect: 'manual', signal: controller.signal });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break;
+      }
+      if (hop >= MAX_REDIRECTS) {
+        throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+      }
+
+      probe.redirects.push(url);
+      (response.body as unknown as Readable | null)?.destroy();
+      url = new URL(location, url).toString();
+    }
+
+    probe.finalUrl = url;
+    probe.httpStatus = response.status;
+    probe.contentType = response.headers.get('content-type');
+    probe.bitrate = parseKbps(response.headers.get('icy-br'));
+
+    if (!response.ok || !response.body) {
+      probe.problems.push(`HTTP ${response.status} ${response.statusText}`.trim());
+    } else {
+      const sample = await readSample(response.body as unknown as Readable, startedAt);
+      probe.ttfb = sample.ttfb;
+      probe.audioFormat = sniffAudioFormat(sample.data);
+      if (!probe.audioFormat) {
+        probe.problems.push(sample.data.length === 0 ? 'No data received' : 'No decodable audio in the stream');
+      }
+    }
+  } catch (error: any) {
+    probe.problems.push(error.name === 'AbortError' ? `Timed out after ${timeout / 1000}s` : error.message);
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+  }
+
+  if (probe.problems.length > 0) {
+    probe.status = 'broken';
+    return probe;
+  }
+
+  if (probe.redirects.length > 0) {
+    probe.problems.push(`Redirects to ${probe.finalUrl}; consider updating the station URL`);
+  }
+  if (probe.contentType && !/^(audio\/|application\/ogg)/i.test(probe.contentType)) {
+    probe.problems.push(`Unexpected content-type ${probe.contentType}`);
+  }
+  if (probe.bitrate && probe.expectedBitrate && probe.bitrate !== probe.expectedBitrate) {
+    probe.problems.push(`Streams at ${probe.bitrate}kbps, but the station says ${probe.expectedBitrate}kbps`);
+  }
+  probe.status = probe.problems.length > 0 ? 'warning' : 'ok';
+
+  return probe;
+};
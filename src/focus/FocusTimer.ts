@@ -0,0 +1,119 @@
+import { EventEmitter } from 'events';
+import type { FocusPhase, FocusPlan, FocusSessionRecord, FocusStatus } from '../types/index.js';
+
+export const DEFAULT_FOCUS_WORK = 25;
+export const DEFAULT_FOCUS_BREAK = 5;
+export const DEFAULT_FOCUS_CYCLES = 4;
+
+/**
+ * Keeps time for a focus session: `cycles` work blocks with a break between
+ * each, and none after the last. It only keeps time; playing the right
+ * thing is up to whoever listens.
+ *
+ * Emits `phase` (FocusStatus) as each phase begins, the first one included,
+ * and `finished` (FocusSessionRecord) when the last work block ends or the
+ * session is cancelled.
+ */
+export class FocusTimer extends EventEmitter {
+  private plan: FocusPlan;
+  private phase: FocusPhase = 'work';
+  private cycle: number = 1;
+  private startedAt: Date = new Date();
+  private phaseStartedAt: Date = new Date();
+  private timer: NodeJS.Timeout | null = null;
+  private completedCycles: number = 0;
+  private focusSeconds: number = 0;
+  private finished: boolean = false;
+
+  constructor(plan: FocusPlan) {
+    super();
+    this.plan = plan;
+  }
+
+  start(): void {
+    this.startedAt = new Date();
+    this.enter('work', 1);
+  }
+
+  // Ends the session early; the time worked so far still counts
+  cancel(): FocusSessionRecord | null {
+    if (this.finished) {
+      return null;
+    }
+
+    if (this.phase === 'work') {
+      this.focusSeconds += Math.round((Date.now() - this.phaseStartedAt.getTime()) / 1000);
+    }
+    return this.finish(false);
+  }
+
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  getStatus(): FocusStatus {
+    const length = this.phase === 'work' ? this.plan.work : this.plan.break;
+    const endsAt = this.phaseStartedAt.getTime() + length * 1000;
+
+    return {
+      phase: this.phase,
+      cycle: this.cycle,
+      cycles: this.plan.cycles,
+      station: this.phase === 'work' ? this.plan.station : this.plan.breakStation,
+      startedAt: this.startedAt.toISOString(),
+      phaseEndsAt: new Date(endsAt).toISOString(),
+      remaining: Math.max(0, Math.ceil((endsAt - Date.now()) / 1000))
+    };
+  }
+
+  private enter(phase: FocusPhase, cycle: number): void {
+    this.phase = phase;
+    this.cycle = cycle;
+    this.phaseStartedAt = new Date();
+
+    const length = phase === 'work' ? this.plan.work : this.plan.break;
+    this.timer = setTimeout(() => this.advance(), length * 1000);
+    this.emit('phase', this.getStatus());
+  }
+
+  private advance(): void {
+    this.timer = null;
+
+    if (this.phase === 'break') {
+      this.enter('work', this.cycle + 1);
+      return;
+    }
+
+    this.completedCycles++;
+    this.focusSeconds += this.plan.work;
+    if (this.cycle >= this.plan.cycles) {
+      this.finish(true);
+    } else if (this.plan.break > 0) {
+      this.enter('break', this.cycle);
+    } else {
+      this.enter('work', this.cycle + 1);
+    }
+  }
+
+  private finish(completed: boolean): FocusSessionRecord {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.finished = true;
+
+    const record: FocusSessionRecord = {
+      stationId: this.plan.station.id,
+      stationName: this.plan.station.name,
+      breakStationId: this.plan.breakStation?.id ?? null,
+      startedAt: this.startedAt.toISOString(),
+      endedAt: new Date().toISOString(),
+      cycles: this.completedCycles,
+      plannedCycles: this.plan.cycles,
+      focusSeconds: this.focusSeconds,
+      completed
+    };
+    this.emit('finished', record);
+    return record;
+  }
+}
@@ -0,0 +1,72 @@
+import type { FocusPhase } from '../types/index.js';
+
+const SAMPLE_RATE = 44100;
+// Seconds between the notes of a chime, and how long each one rings
+const NOTE_GAP = 0.18;
+const NOTE_LENGTH = 1.2;
+// A bell's overtones aren't whole multiples of the note, which is what makes it a bell
+const PARTIALS = [
+  { ratio: 1, gain: 1, decay: 3 },
+  { ratio: 2.76, gain: 0.35, decay: 5 },
+  { ratio: 5.4, gain: 0.12, decay: 8 }
+];
+
+export type ChimeKind = FocusPhase | 'done';
+
+// Rising into work, falling into a break, and a little run at the end
+const CHIME_NOTES: Record<ChimeKind, number[]> = {
+  work: [784, 1047],
+  break: [1047, 784],
+  done: [784, 988, 1175]
+};
+
+const writeWavHeader = (buffer: Buffer, dataBytes: number): void => {
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataBytes, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  // PCM, mono, 16-bit
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataBytes, 40);
+};
+
+/**
+ * Synthesizes a short bell chime as a WAV file, so there is no sound file
+ * to ship or find. `volume` is 0-100, like the player's.
+ */
+export const createChime = (kind: ChimeKind, volume: number): Buffer => {
+  const notes = CHIME_NOTES[kind];
+  const length = Math.ceil(((notes.length - 1) * NOTE_GAP + NOTE_LENGTH) * SAMPLE_RATE);
+  const samples = new Float64Array(length);
+
+  notes.forEach((frequency, index) => {
+    const start = Math.round(index * NOTE_GAP * SAMPLE_RATE);
+    for (let i = 0; start + i < length; i++) {
+      const time = i / SAMPLE_RATE;
+      // A few milliseconds of attack so the note doesn't click in
+      const attack = Math.min(1, time / 0.005);
+      let value = 0;
+      PARTIALS.forEach(partial => {
+        value += partial.gain * Math.exp(-partial.decay * time) * Math.sin(2 * Math.PI * frequency * partial.ratio * time);
+      });
+      samples[start + i] += value * attack;
+    }
+  });
+
+  // Leave headroom for overlapping notes, then scale to the volume
+  const gain = 0.3 * Math.max(0, Math.min(100, volume)) / 100;
+  const buffer = Buffer.alloc(44 + length * 2);
+  writeWavHeader(buffer, length * 2);
+  for (let i = 0; i < length; i++) {
+    const value = Math.max(-1, Math.min(1, samples[i] * gain));
+    buffer.writeInt16LE(Math.round(value * 32767), 44 + i * 2);
+  }
+  return buffer;
+};
@@ -0,0 +1,206 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { getConfigDir } from '../config/store.js';
+import { parseDuration } from '../utils/helpers.js';
+import type { Station, TrackExportFormat, TrackHistoryEntry, TrackMetadata } from '../types/index.js';
+
+export const TRACK_EXPORT_FORMATS: TrackExportFormat[] = ['csv', 'json', 'm3u'];
+
+// A track heard again this soon after it ended (a reconnect, or a restart for
+// a volume change) is treated as the same play
+const MERGE_GAP_MS = 60 * 1000;
+
+type TrackLogRecord =
+  | { type: 'start'; id: string; at: string; stationId: string; stationName: string; stationUrl: string; artist?: string; title: string }
+  | { type: 'end'; id: string; at: string };
+
+export interface TrackFilter {
+  stationId?: string;
+  since?: Date;
+  grep?: string;
+}
+
+export const getTrackLogPath = (): string => {
+  return path.join(getConfigDir(), 'tracks.jsonl');
+};
+
+const appendRecord = (record: TrackLogRecord): void => {
+  try {
+    fs.appendFileSync(getTrackLogPath(), JSON.stringify(record) + '\n');
+  } catch {
+    // The history is a convenience; playback carries on without it
+  }
+};
+
+/**
+ * Writes the track log as the daemon plays. The log is append-only: a
+ * `start` record when a title appears and an `end` record when it changes
+ * or playback stops, paired up again by id when read.
+ */
+export class TrackLogger {
+  private currentId: string | null = null;
+
+  started(track: TrackMetadata, station: Station): void {
+    this.ended();
+
+    this.currentId = randomUUID();
+    appendRecord({
+      type: 'start',
+      id: this.currentId,
+      at: new Date().toISOString(),
+      stationId: station.id,
+      stationName: station.name,
+      stationUrl: station.url,
+      artist: track.artist,
+      title: track.title
+    });
+  }
+
+  ended(): void {
+    if (!this.currentId) {
+      return;
+    }
+
+    appendRecord({ type: 'end', id: this.currentId, at: new Date().toISOString() });
+    this.currentId = null;
+  }
+}
+
+/**
+ * Reads the whole log, oldest first. Lines that don't parse (say, one cut
+ * short by a crash) are skipped.
+ */
+export const readTrackHistory = (): TrackHistoryEntry[] => {
+  let content: string;
+  try {
+    content = fs.readFileSync(getTrackLogPath(), 'utf8');
+  } catch {
+    return [];
+  }
+
+  const entries = new Map<string, TrackHistoryEntry>();
+  content.split('\n').forEach(line => {
+    let record: TrackLogRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    if (record.type === 'start') {
+      entries.set(record.id, {
+        stationId: record.stationId,
+        stationName: record.stationName,
+        stationUrl: record.stationUrl,
+        artist: record.artist,
+        title: record.title,
+        startedAt: record.at,
+        endedAt: null
+      });
+    } else if (record.type === 'end' && entries.has(record.id)) {
+      entries.get(record.id)!.endedAt = record.at;
+    }
+  });
+
+  return mergeRepeats([...entries.values()]);
+};
+
+const mergeRepeats = (entries: TrackHistoryEntry[]): TrackHistoryEntry[] => {
+  const merged: TrackHistoryEntry[] = [];
+
+  entries.forEach(entry => {
+    const previous = merged[merged.length - 1];
+    const isRepeat = previous
+      && previous.endedAt
+      && previous.stationId === entry.stationId
+      && previous.artist === entry.artist
+      && previous.title === entry.title
+      && Date.parse(entry.startedAt) - Date.parse(previous.endedAt) < MERGE_GAP_MS;
+
+    if (isRepeat) {
+      previous.endedAt = entry.endedAt;
+    } else {
+      merged.push({ ...entry });
+    }
+  });
+
+  return merged;
+};
+
+export const filterTrackHistory = (entries: TrackHistoryEntry[], filter: TrackFilter): TrackHistoryEntry[] => {
+  const grep = filter.grep?.toLowerCase();
+
+  return entries.filter(entry => {
+    if (filter.stationId && entry.stationId !== filter.stationId) {
+      return false;
+    }
+    if (filter.since && Date.parse(entry.startedAt) < filter.since.getTime()) {
+      return false;
+    }
+    if (grep) {
+      const text = `${entry.artist || ''} ${entry.title} ${entry.stationName}`.toLowerCase();
+      return text.includes(grep);
+    }
+    return true;
+  });
+};
+
+/**
+ * Accepts a look-back such as "2d" or "3h", or a date such as "2026-10-18".
+ */
+export const parseSince = (input: string): Date | null => {
+  const seconds = parseDuration(input);
+  if (seconds !== null) {
+    return new Date(Date.now() - seconds * 1000);
+  }
+
+  const date = Date.parse(input);
+  return isNaN(date) ? null : new Date(date);
+};
+
+// Seconds the track played for, or null if it has no end
+export const getTrackDuration = (entry: TrackHistoryEntry): number | null => {
+  if (!entry.endedAt) {
+    return null;
+  }
+  return Math.round((Date.parse(entry.endedAt) - Date.parse(entry.startedAt)) / 1000);
+};
+
+export const formatTrackName = (entry: TrackHistoryEntry): string => {
+  return entry.artist ? `${entry.artist} - ${entry.title}` : entry.title;
+};
+
+const escapeCsv = (value: string): string => {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const serializeCsv = (entries: TrackHistoryEntry[]): string => {
+  const rows = [['started_at', 'ended_at', 'station_id', 'station', 'artist', 'title']];
+  entries.forEach(entry => {
+    rows.push([entry.startedAt, entry.endedAt || '', entry.stationId, entry.stationName, entry.artist || '', entry.title]);
+  });
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+};
+
+// Tracks can't be played back on their own, so each entry points at the
+// station stream it was heard on
+const serializeM3U = (entries: TrackHistoryEntry[]): string => {
+  const lines = ['#EXTM3U'];
+  entries.forEach(entry => {
+    lines.push(`#EXTINF:${getTrackDuration(entry) ?? -1},${formatTrackName(entry)}`);
+    lines.push(entry.stationUrl);
+  });
+  return lines.join('\n') + '\n';
+};
+
+export const serializeTrackHistory = (entries: TrackHistoryEntry[], format: TrackExportFormat): string => {
+  switch (format) {
+    case 'csv':
+      return serializeCsv(entries);
+    case 'm3u':
+      return serializeM3U(entries);
+    case 'json':
+      return JSON.stringify(entries, null, 2) + '\n';
+  }
+};
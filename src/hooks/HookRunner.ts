@@ -0,0 +1,220 @@
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import type Conf from 'conf';
+import { getHooks } from '../config/hooks.js';
+import type {
+  Config,
+  HookEntry,
+  HookEvent,
+  HookPayload,
+  HookResult,
+  Station,
+  StreamError,
+  TrackMetadata
+} from '../types/index.js';
+
+// Output kept per run; anything past this is cut off
+const MAX_OUTPUT_BYTES = 16 * 1024;
+// Runs waiting for a free slot; a stuck hook shouldn't pile up work forever
+const MAX_QUEUED = 50;
+// After the timeout's SIGTERM, how long a command gets to exit before SIGKILL
+const KILL_GRACE_MS = 2000;
+
+interface QueuedRun {
+  hook: HookEntry;
+  payload: HookPayload;
+  resolve: (result: HookResult) => void;
+}
+
+export const createHookPayload = (
+  event: HookEvent,
+  station: Station | null,
+  track: TrackMetadata | null = null,
+  error: { code: string; message: string } | null = null
+): HookPayload => ({
+  event,
+  timestamp: new Date().toISOString(),
+  station,
+  track,
+  error: error ? { code: error.code, message: error.message } : null
+});
+
+// The payload again as RADIO_* variables, empty when a detail doesn't apply
+const getHookEnv = (payload: HookPayload): Record<string, string> => ({
+  RADIO_HOOK_EVENT: payload.event,
+  RADIO_STATION_ID: payload.station?.id ?? '',
+  RADIO_STATION_NAME: payload.station?.name ?? '',
+  RADIO_STATION_URL: payload.station?.url ?? '',
+  RADIO_STATION_GENRE: payload.station?.genre ?? '',
+  RADIO_TRACK: payload.track?.raw ?? '',
+  RADIO_TRACK_ARTIST: payload.track?.artist ?? '',
+  RADIO_TRACK_TITLE: payload.track?.title ?? '',
+  RADIO_ERROR_CODE: payload.error?.code ?? '',
+  RADIO_ERROR_MESSAGE: payload.error?.message ?? ''
+});
+
+// One line on how a run went, e.g. "exited with 0 in 35ms"
+export const describeHookResult = (result: HookResult, timeout: number): string => {
+  const outcome = result.error
+    ? `failed: ${result.error}`
+    : result.timedOut
+      ? `timed out after ${timeout}s`
+      : result.signal ? `killed by ${result.signal}` : `exited with ${result.exitCode}`;
+  return `${outcome} in ${result.duration}ms`;
+};
+
+export const isHookSuccess = (result: HookResult): boolean => {
+  return result.exitCode === 0 && !result.timedOut && !result.error;
+};
+
+/**
+ * Runs the user's hook commands for player events. Each command runs
+ * through the shell with the event details in RADIO_* variables and as
+ * JSON on stdin, and is killed once its timeout passes. At most
+ * `hookConcurrency` commands run at once; the rest queue up.
+ *
+ * Hooks are read from the config on every event, so adding or removing
+ * one takes effect without restarting the daemon.
+ *
+ * Emits `finished` (HookEntry, HookResult) after every run and `dropped`
+ * (HookEntry) when the queue is full.
+ */
+export class HookRunner extends EventEmitter {
+  private config: Conf<Config>;
+  private running: number = 0;
+  private queue: QueuedRun[] = [];
+  // `stopped` doesn't say what was playing, so remember it
+  private station: Station | null = null;
+
+  constructor(config: Conf<Config>) {
+    super();
+    this.config = config;
+  }
+
+  attach(player: EventEmitter): void {
+    player.on('playing', (station: Station) => {
+      this.station = station;
+      this.trigger(createHookPayload('on_play', station));
+    });
+    player.on('stopped', () => {
+      this.trigger(createHookPayload('on_stop', this.station));
+    });
+    player.on('metadata', (track: TrackMetadata, station: Station | null) => {
+      this.trigger(createHookPayload('on_track_change', station ?? this.station, track));
+    });
+    player.on('error', (error: StreamError) => {
+      this.trigger(createHookPayload('on_error', error.station ?? this.station, null, error));
+    });
+    player.on('connection_lost', (error: StreamError) => {
+      this.trigger(createHookPayload('on_connection_lost', error?.station ?? this.station, null, error));
+    });
+  }
+
+  trigger(payload: HookPayload): void {
+    getHooks()
+      .filter(hook => hook.event === payload.event)
+      .forEach(hook => this.run(hook, payload));
+  }
+
+  // Resolves once the command has finished, failed to start or been killed; never rejects
+  run(hook: HookEntry, payload: HookPayload): Promise<HookResult> {
+    return new Promise(resolve => {
+      if (this.queue.length >= MAX_QUEUED) {
+        this.emit('dropped', hook);
+        resolve(this.createResult(hook, payload, Date.now(), { error: 'Dropped: too many hooks waiting to run' }));
+        return;
+      }
+      this.queue.push({ hook, payload, resolve });
+      this.next();
+    });
+  }
+
+  private next(): void {
+    const limit = Math.max(1, this.config.get('hookConcurrency') || 1);
+    while (this.running < limit && this.queue.length > 0) {
+      const { hook, payload, resolve } = this.queue.shift()!;
+      this.running++;
+      this.execute(hook, payload).then(result => {
+        this.running--;
+        this.emit('finished', hook, result);
+        resolve(result);
+        this.next();
+      });
+    }
+  }
+
+  private execute(hook: HookEntry, payload: HookPayload): Promise<HookResult> {
+    const startedAt = Date.now();
+
+    return new Promise(resolve => {
+      const child = spawn(hook.command, {
+        shell: true,
+        env: { ...process.env, ...getHookEnv(payload) },
+        // Its own process group, so a timeout kills whatever the shell started too
+        detached: process.platform !== 'win32',
+        windowsHide: true
+      });
+
+      let output = '';
+      let truncated = false;
+      let timedOut = false;
+      const collect = (chunk: Buffer) => {
+        if (output.length < MAX_OUTPUT_BYTES) {
+          output += chunk.toString('utf8');
+        } else {
+          truncated = true;
+        }
+      };
+      child.stdout?.on('data', collect);
+      child.stderr?.on('data', collect);
+
+      const kill = (signal: NodeJS.Signals) => {
+        try {
+          if (process.platform !== 'win32' && child.pid) {
+            process.kill(-child.pid, signal);
+          } else {
+            child.kill(signal);
+          }
+        } catch {
+          // Already gone
+        }
+      };
+      let killTimer: NodeJS.Timeout | null = null;
+      const timeoutTimer = setTimeout(() => {
+        timedOut = true;
+        kill('SIGTERM');
+        killTimer = setTimeout(() => kill('SIGKILL'), KILL_GRACE_MS);
+      }, hook.timeout * 1000);
+
+      const finish = (fields: Partial<HookResult>) => {
+        clearTimeout(timeoutTimer);
+        if (killTimer) {
+          clearTimeout(killTimer);
+        }
+        const text = output.slice(0, MAX_OUTPUT_BYTES) + (truncated || output.length > MAX_OUTPUT_BYTES ? '\n[output truncated]' : '');
+        resolve(this.createResult(hook, payload, startedAt, { output: text, timedOut, ...fields }));
+      };
+
+      child.on('error', (error: Error) => finish({ error: error.message }));
+      child.on('close', (code: number | null, signal: NodeJS.Signals | null) => finish({ exitCode: code, signal }));
+
+      // Commands that don't read stdin close it early; that's fine
+      child.stdin?.on('error', () => {});
+      child.stdin?.end(JSON.stringify(payload) + '\n');
+    });
+  }
+
+  private createResult(hook: HookEntry, payload: HookPayload, startedAt: number, fields: Partial<HookResult>): HookResult {
+    return {
+      hookId: hook.id,
+      event: payload.event,
+      exitCode: null,
+      signal: null,
+      timedOut: false,
+      duration: Date.now() - startedAt,
+      output: '',
+      error: null,
+      ...fields
+    };
+  }
+}
@@ -0,0 +1,612 @@
+import net from 'net';
+import { EventEmitter } from 'events';
+import { createError } from '../utils/helpers.js';
+
+export const MESSAGE_METHOD_CALL = 1;
+export const MESSAGE_METHOD_RETURN = 2;
+export const MESSAGE_ERROR = 3;
+export const MESSAGE_SIGNAL = 4;
+
+const FLAG_NO_REPLY_EXPECTED = 0x1;
+// Header field codes, from the D-Bus specification
+const FIELD_PATH = 1;
+const FIELD_INTERFACE = 2;
+const FIELD_MEMBER = 3;
+const FIELD_ERROR_NAME = 4;
+const FIELD_REPLY_SERIAL = 5;
+const FIELD_DESTINATION = 6;
+const FIELD_SENDER = 7;
+const FIELD_SIGNATURE = 8;
+// A fixed header is 12 bytes plus the length of the header field array
+const FIXED_HEADER_LENGTH = 16;
+const AUTH_TIMEOUT_MS = 5000;
+
+// A value of any type, tagged with its signature so it can be marshalled
+export interface Variant {
+  signature: string;
+  value: any;
+}
+
+export interface DBusMessage {
+  type: number;
+  flags: number;
+  serial: number;
+  path?: string;
+  interface?: string;
+  member?: string;
+  errorName?: string;
+  replySerial?: number;
+  destination?: string;
+  sender?: string;
+  signature?: string;
+  body: any[];
+}
+
+type OutgoingMessage = Omit<DBusMessage, 'serial' | 'flags'> & { flags?: number };
+
+const alignmentOf = (type: string): number => {
+  switch (type[0]) {
+    case 'y': case 'g': case 'v':
+      return 1;
+    case 'n': case 'q':
+      return 2;
+    case 'x': case 't': case 'd': case '(': case '{':
+      return 8;
+    default:
+      return 4;
+  }
+};
+
+// Index just past the single complete type starting at `start`
+const endOfType = (signature: string, start: number): number => {
+  const char = signature[start];
+  if (char === 'a') {
+    return endOfType(signature, start + 1);
+  }
+  if (char === '(' || char === '{') {
+    const close = char === '(' ? ')' : '}';
+    let index = start + 1;
+    while (signature[index] !== close) {
+      if (index >= signature.length) {
+        throw createError('DBUS_SIGNATURE', `Unbalanced signature "${signature}"`);
+      }
+      index = endOfType(signature, index);
+    }
+    return index + 1;
+  }
+  return start + 1;
+};
+
+// Splits "sa{sv}as" into ["s", "a{sv}", "as"]
+export const splitSignature = (signature: string): string[] => {
+  const types: string[] = [];
+  for (let index = 0; index < signature.length;) {
+    const end = endOfType(signature, index);
+    types.push(signature.slice(index, end));
+    index = end;
+  }
+  return types;
+};
+
+class Writer {
+  private buffer: Buffer = Buffer.alloc(256);
+  length: number = 0;
+
+  toBuffer(): Buffer {
+    return this.buffer.subarray(0, this.length);
+  }
+
+  align(boundary: number): void {
+    const padding = (boundary - (this.length % boundary)) % boundary;
+    this.reserve(padding);
+    this.buffer.fill(0, this.length, this.length + padding);
+    this.length += padding;
+  }
+
+  write(type: string, value: any): void {
+    this.align(alignmentOf(type));
+
+    switch (type[0]) {
+      case 'y':
+        this.reserve(1);
+        this.buffer.writeUInt8(value, this.length++);
+        return;
+      case 'b':
+        this.uint32(value ? 1 : 0);
+        return;
+      case 'n':
+      case 'q':
+        this.reserve(2);
+        type === 'n' ? this.buffer.writeInt16LE(value, this.length) : this.buffer.writeUInt16LE(value, this.length);
+        this.length += 2;
+        return;
+      case 'i':
+        this.reserve(4);
+        this.buffer.writeInt32LE(value, this.length);
+        this.length += 4;
+        return;
+      case 'u':
+        this.uint32(value);
+        return;
+      case 'x':
+      case 't':
+        this.reserve(8);
+        type === 'x'
+          ? this.buffer.writeBigInt64LE(BigInt(Math.trunc(Number(value))), this.length)
+          : this.buffer.writeBigUInt64LE(BigInt(Math.trunc(Number(value))), this.length);
+        this.length += 8;
+        return;
+      case 'd':
+        this.reserve(8);
+        this.buffer.writeDoubleLE(value, this.length);
+        this.length += 8;
+        return;
+      case 's':
+      case 'o': {
+        const bytes = Buffer.from(String(value), 'utf8');
+        this.uint32(bytes.length);
+        this.bytes(bytes);
+        return;
+      }
+      case 'g': {
+        const bytes = Buffer.from(String(value), 'ascii');
+        this.reserve(1);
+        this.buffer.writeUInt8(bytes.length, this.length++);
+        this.bytes(bytes);
+        return;
+      }
+      case 'v':
+        this.write('g', value.signature);
+        this.write(value.signature, value.value);
+        return;
+      case 'a':
+        this.array(type.slice(1), value);
+        return;
+      case '(':
+        splitSignature(type.slice(1, -1)).forEach((member, index) => this.write(member, value[index]));
+        return;
+      default:
+        throw createError('DBUS_SIGNATURE', `Can't marshal type "${type}"`);
+    }
+  }
+
+  // Arrays of dict entries are written from plain objects
+  private array(element: string, value: any): void {
+    const lengthAt = this.length;
+    this.uint32(0);
+    // Padding before the first element doesn't count towards the length
+    this.align(alignmentOf(element));
+    const start = this.length;
+
+    if (element[0] === '{') {
+      const [key, entry] = splitSignature(element.slice(1, -1));
+      Object.entries(value).forEach(([name, item]) => {
+        this.align(8);
+        this.write(key, name);
+        this.write(entry, item);
+      });
+    } else {
+      (value as any[]).forEach(item => this.write(element, item));
+    }
+
+    this.buffer.writeUInt32LE(this.length - start, lengthAt);
+  }
+
+  private uint32(value: number): void {
+    this.reserve(4);
+    this.buffer.writeUInt32LE(value, this.length);
+    this.length += 4;
+  }
+
+  // Strings and signatures end with a nul byte
+  private bytes(bytes: Buffer): void {
+    this.reserve(bytes.length + 1);
+    bytes.copy(this.buffer, this.length);
+    this.length += bytes.length;
+    this.buffer.writeUInt8(0, this.length++);
+  }
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.buffer.length) {
+      return;
+    }
+    const grown = Buffer.alloc(Math.max(this.buffer.length * 2, this.length + count));
+    this.buffer.copy(grown, 0, 0, this.length);
+    this.buffer = grown;
+  }
+}
+
+class Reader {
+  private buffer: Buffer;
+  private littleEndian: boolean;
+  offset: number = 0;
+
+  constructor(buffer: Buffer, littleEndian: boolean) {
+    this.buffer = buffer;
+    this.littleEndian = littleEndian;
+  }
+
+  align(boundary: number): void {
+    this.offset += (boundary - (this.offset % boundary)) % boundary;
+  }
+
+  read(type: string): any {
+    this.align(alignmentOf(type));
+
+    switch (type[0]) {
+      case 'y':
+        return this.buffer.readUInt8(this.offset++);
+      case 'b':
+        return this.uint32() !== 0;
+      case 'n':
+      case 'q': {
+        const value = type === 'n'
+          ? (this.littleEndian ? this.buffer.readInt16LE(this.offset) : this.buffer.readInt16BE(this.offset))
+          : (this.littleEndian ? this.buffer.readUInt16LE(this.offset) : this.buffer.readUInt16BE(this.offset));
+        this.offset += 2;
+        return value;
+      }
+      case 'i': {
+        const value = this.littleEndian ? this.buffer.readInt32LE(this.offset) : this.buffer.readInt32BE(this.offset);
+        this.offset += 4;
+        return value;
+      }
+      case 'u':
+      case 'h':
+        return this.uint32();
+      case 'x':
+      case 't': {
+        const value = type === 'x'
+          ? (this.littleEndian ? this.buffer.readBigInt64LE(this.offset) : this.buffer.readBigInt64BE(this.offset))
+          : (this.littleEndian ? this.buffer.readBigUInt64LE(this.offset) : this.buffer.readBigUInt64BE(this.offset));
+        this.offset += 8;
+        return Number(value);
+      }
+      case 'd': {
+        const value = this.littleEndian ? this.buffer.readDoubleLE(this.offset) : this.buffer.readDoubleBE(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      case 's':
+      case 'o':
+        return this.string(this.uint32());
+      case 'g':
+        return this.string(this.buffer.readUInt8(this.offset++));
+      case 'v': {
+        const signature = this.read('g');
+        return { signature, value: this.read(signature) };
+      }
+      case 'a':
+        return this.array(type.slice(1));
+      case '(':
+        return splitSignature(type.slice(1, -1)).map(member => this.read(member));
+      default:
+        throw createError('DBUS_SIGNATURE', `Can't read type "${type}"`);
+    }
+  }
+
+  // Arrays of dict entries come back as plain objects
+  private array(element: string): any {
+    const length = this.uint32();
+    this.align(alignmentOf(element));
+    const end = this.offset + length;
+
+    if (element[0] === '{') {
+      const [key, entry] = splitSignature(element.slice(1, -1));
+      const result: Record<string, any> = {};
+      while (this.offset < end) {
+        this.align(8);
+        result[String(this.read(key))] = this.read(entry);
+      }
+      return result;
+    }
+
+    const result: any[] = [];
+    while (this.offset < end) {
+      result.push(this.read(element));
+    }
+    return result;
+  }
+
+  private uint32(): number {
+    const value = this.littleEndian ? this.buffer.readUInt32LE(this.offset) : this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  private string(length: number): string {
+    const value = this.buffer.toString('utf8', this.offset, this.offset + length);
+    this.offset += length + 1;
+    return value;
+  }
+}
+
+const encodeMessage = (message: OutgoingMessage, serial: number): Buffer => {
+  const signature = message.signature ?? '';
+  const body = new Writer();
+  splitSignature(signature).forEach((type, index) => body.write(type, message.body[index]));
+
+  const fields: [number, Variant][] = [];
+  const addField = (code: number, type: string, value: any) => {
+    if (value !== undefined) {
+      fields.push([code, { signature: type, value }]);
+    }
+  };
+  addField(FIELD_PATH, 'o', message.path);
+  addField(FIELD_INTERFACE, 's', message.interface);
+  addField(FIELD_MEMBER, 's', message.member);
+  addField(FIELD_ERROR_NAME, 's', message.errorName);
+  addField(FIELD_REPLY_SERIAL, 'u', message.replySerial);
+  addField(FIELD_DESTINATION, 's', message.destination);
+  addField(FIELD_SIGNATURE, 'g', signature || undefined);
+
+  const header = new Writer();
+  header.write('y', 'l'.charCodeAt(0));
+  header.write('y', message.type);
+  header.write('y', message.flags ?? 0);
+  header.write('y', 1);
+  header.write('u', body.length);
+  header.write('u', serial);
+  header.write('a(yv)', fields);
+  // The body always starts on an 8-byte boundary
+  header.align(8);
+
+  return Buffer.concat([header.toBuffer(), body.toBuffer()]);
+};
+
+// Length of the first complete message in `buffer`, or 0 if it isn't all there yet
+const messageLength = (buffer: Buffer): number => {
+  if (buffer.length < FIXED_HEADER_LENGTH) {
+    return 0;
+  }
+  const littleEndian = buffer[0] === 'l'.charCodeAt(0);
+  const bodyLength = littleEndian ? buffer.readUInt32LE(4) : buffer.readUInt32BE(4);
+  const fieldsLength = littleEndian ? buffer.readUInt32LE(12) : buffer.readUInt32BE(12);
+  const headerLength = Math.ceil((FIXED_HEADER_LENGTH + fieldsLength) / 8) * 8;
+  const total = headerLength + bodyLength;
+  return buffer.length >= total ? total : 0;
+};
+
+const decodeMessage = (buffer: Buffer): DBusMessage => {
+  const reader = new Reader(buffer, buffer[0] === 'l'.charCodeAt(0));
+  reader.offset = 1;
+  const type = reader.read('y');
+  const flags = reader.read('y');
+  reader.read('y');
+  reader.read('u');
+  const serial = reader.read('u');
+  const fields: [number, Variant][] = reader.read('a(yv)');
+  reader.align(8);
+
+  const message: DBusMessage = { type, flags, serial, body: [] };
+  fields.forEach(([code, field]) => {
+    switch (code) {
+      case FIELD_PATH: message.path = field.value; break;
+      case FIELD_INTERFACE: message.interface = field.value; break;
+      case FIELD_MEMBER: message.member = field.value; break;
+      case FIELD_ERROR_NAME: message.errorName = field.value; break;
+      case FIELD_REPLY_SERIAL: message.replySerial = field.value; break;
+      case FIELD_DESTINATION: message.destination = field.value; break;
+      case FIELD_SENDER: message.sender = field.value; break;
+      case FIELD_SIGNATURE: message.signature = field.value; break;
+    }
+  });
+
+  message.body = splitSignature(message.signature ?? '').map(bodyType => reader.read(bodyType));
+  return message;
+};
+
+// Socket paths from a bus address such as "unix:path=/run/user/1000/bus";
+// abstract sockets get the leading nul byte Node expects
+export const parseBusAddress = (address: string): string[] => {
+  const paths: string[] = [];
+
+  address.split(';').forEach(entry => {
+    const colon = entry.indexOf(':');
+    if (entry.slice(0, colon) !== 'unix') {
+      return;
+    }
+    const options = new Map(entry.slice(colon + 1).split(',').map(option => {
+      const equals = option.indexOf('=');
+      return [option.slice(0, equals), decodeURIComponent(option.slice(equals + 1))] as [string, string];
+    }));
+
+    if (options.has('path')) {
+      paths.push(options.get('path')!);
+    } else if (options.has('abstract')) {
+      paths.push('\0' + options.get('abstract'));
+    }
+  });
+
+  return paths;
+};
+
+/**
+ * A minimal client for the D-Bus wire protocol, enough to own a name and
+ * serve an object on the session bus without native bindings. It speaks
+ * only to unix sockets and only authenticates with EXTERNAL.
+ *
+ * Emits `call` (DBusMessage) for each incoming method call, which should
+ * be answered with `reply` or `replyError`, and `close` when the bus goes
+ * away.
+ */
+export class DBusConnection extends EventEmitter {
+  uniqueName: string | null = null;
+  private socket: net.Socket;
+  private serial: number = 0;
+  private pending: Map<number, { resolve: (body: any[]) => void; reject: (error: Error) => void }> = new Map();
+  private buffer: Buffer = Buffer.alloc(0);
+
+  private constructor(socket: net.Socket) {
+    super();
+    this.socket = socket;
+
+    socket.on('data', chunk => this.receive(chunk));
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      this.pending.forEach(({ reject }) => reject(createError('DBUS_CLOSED', 'Lost the connection to the bus')));
+      this.pending.clear();
+      this.emit('close');
+    });
+  }
+
+  // Connects and authenticates, then registers with the bus
+  static async connect(address: string | undefined = process.env.DBUS_SESSION_BUS_ADDRESS): Promise<DBusConnection> {
+    const paths = address ? parseBusAddress(address) : [];
+    if (paths.length === 0) {
+      throw createError('DBUS_UNAVAILABLE', 'No session bus address (DBUS_SESSION_BUS_ADDRESS is not set)');
+    }
+
+    let lastError: Error | null = null;
+    for (const socketPath of paths) {
+      try {
+        const connection = new DBusConnection(await authenticate(socketPath));
+        const [name] = await connection.call({
+          type: MESSAGE_METHOD_CALL,
+          destination: 'org.freedesktop.DBus',
+          path: '/org/freedesktop/DBus',
+          interface: 'org.freedesktop.DBus',
+          member: 'Hello',
+          body: []
+        });
+        connection.uniqueName = name;
+        return connection;
+      } catch (error: any) {
+        lastError = error;
+      }
+    }
+    throw createError('DBUS_UNAVAILABLE', `Could not connect to the session bus: ${lastError?.message}`);
+  }
+
+  call(message: Omit<OutgoingMessage, 'type'> & { type?: number }): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      const serial = this.send({ ...message, type: MESSAGE_METHOD_CALL });
+      this.pending.set(serial, { resolve, reject });
+    });
+  }
+
+  // Resolves true if we now own `name`; false if someone else already does
+  async requestName(name: string): Promise<boolean> {
+    const [result] = await this.call({
+      destination: 'org.freedesktop.DBus',
+      path: '/org/freedesktop/DBus',
+      interface: 'org.freedesktop.DBus',
+      member: 'RequestName',
+      signature: 'su',
+      // DBUS_NAME_FLAG_DO_NOT_QUEUE
+      body: [name, 4]
+    });
+    // 1 is "primary owner", 4 is "already the owner"
+    return result === 1 || result === 4;
+  }
+
+  signal(path: string, iface: string, member: string, signature: string, body: any[]): void {
+    this.send({ type: MESSAGE_SIGNAL, path, interface: iface, member, signature, body });
+  }
+
+  reply(to: DBusMessage, signature: string = '', body: any[] = []): void {
+    if (to.flags & FLAG_NO_REPLY_EXPECTED) {
+      return;
+    }
+    this.send({ type: MESSAGE_METHOD_RETURN, replySerial: to.serial, destination: to.sender, signature, body });
+  }
+
+  replyError(to: DBusMessage, errorName: string, text: string): void {
+    if (to.flags & FLAG_NO_REPLY_EXPECTED) {
+      return;
+    }
+    this.send({ type: MESSAGE_ERROR, replySerial: to.serial, destination: to.sender, errorName, signature: 's', body: [text] });
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private send(message: OutgoingMessage): number {
+    // Serials must never be zero
+    this.serial = (this.serial % 0xffffffff) + 1;
+    if (!this.socket.destroyed) {
+      this.socket.write(encodeMessage(message, this.serial));
+    }
+    return this.serial;
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let length = messageLength(this.buffer);
+    while (length > 0) {
+      const data = this.buffer.subarray(0, length);
+      this.buffer = this.buffer.subarray(length);
+
+      try {
+        this.dispatch(decodeMessage(data));
+      } catch {
+        // Skip a message we can't parse rather than drop the connection
+      }
+      length = messageLength(this.buffer);
+    }
+  }
+
+  private dispatch(message: DBusMessage): void {
+    if (message.type === MESSAGE_METHOD_CALL) {
+      this.emit('call', message);
+      return;
+    }
+
+    if (message.type !== MESSAGE_METHOD_RETURN && message.type !== MESSAGE_ERROR) {
+      return;
+    }
+    const pending = message.replySerial !== undefined ? this.pending.get(message.replySerial) : undefined;
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(message.replySerial!);
+
+    if (message.type === MESSAGE_ERROR) {
+      pending.reject(createError('DBUS_ERROR', `${message.errorName}: ${message.body[0] ?? 'no details'}`));
+    } else {
+      pending.resolve(message.body);
+    }
+  }
+}
+
+// Runs the SASL handshake; the socket speaks the binary protocol once it resolves
+const authenticate = (socketPath: string): Promise<net.Socket> => {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(socketPath);
+    let response = '';
+
+    const fail = (error: Error) => {
+      clearTimeout(timer);
+      socket.destroy();
+      reject(error);
+    };
+    const timer = setTimeout(() => fail(createError('DBUS_AUTH', 'The bus did not answer')), AUTH_TIMEOUT_MS);
+
+    const onData = (chunk: Buffer) => {
+      response += chunk.toString('ascii');
+      if (!response.includes('\r\n')) {
+        return;
+      }
+
+      socket.off('data', onData);
+      socket.off('error', fail);
+      if (!response.startsWith('OK ')) {
+        fail(createError('DBUS_AUTH', `The bus refused us: ${response.trim()}`));
+        return;
+      }
+      clearTimeout(timer);
+      socket.write('BEGIN\r\n');
+      resolve(socket);
+    };
+
+    socket.on('data', onData);
+    socket.on('error', fail);
+    socket.on('connect', () => {
+      const uid = Buffer.from(String(process.getuid ? process.getuid() : 0)).toString('hex');
+      // The protocol opens with a single nul byte
+      socket.write(`\0AUTH EXTERNAL ${uid}\r\n`);
+    });
+  });
+};
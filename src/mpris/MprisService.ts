@@ -0,0 +1,443 @@
+import { EventEmitter } from 'events';
+import type Conf from 'conf';
+import type { StreamPlayer } from '../player/StreamPlayer.js';
+import { getStations, getStationById } from '../config/stations.js';
+import { DBusConnection } from './DBusConnection.js';
+import type { DBusMessage, Variant } from './DBusConnection.js';
+import type { Config, Station } from '../types/index.js';
+
+const BUS_NAME = 'org.mpris.MediaPlayer2.lofi_radio';
+const OBJECT_PATH = '/org/mpris/MediaPlayer2';
+const ROOT_INTERFACE = 'org.mpris.MediaPlayer2';
+const PLAYER_INTERFACE = 'org.mpris.MediaPlayer2.Player';
+const PROPERTIES_INTERFACE = 'org.freedesktop.DBus.Properties';
+// Player events that can change what MPRIS clients see
+const PLAYER_EVENTS = ['playing', 'stopped', 'connection_lost', 'metadata'];
+
+const INTROSPECTION = `<!DOCTYPE node PUBLIC "-//freedesktop//DTD D-BUS Object Introspection 1.0//EN"
+ "http://www.freedesktop.org/standards/dbus/1.0/introspect.dtd">
+<node>
+  <interface name="org.freedesktop.DBus.Introspectable">
+    <method name="Introspect"><arg name="xml" type="s" direction="out"/></method>
+  </interface>
+  <interface name="org.freedesktop.DBus.Peer">
+    <method name="Ping"/>
+  </interface>
+  <interface name="org.freedesktop.DBus.Properties">
+    <method name="Get">
+      <arg name="interface" type="s" direction="in"/>
+      <arg name="property" type="s" direction="in"/>
+      <arg name="value" type="v" direction="out"/>
+    </method>
+    <method name="GetAll">
+      <arg name="interface" type="s" direction="in"/>
+      <arg name="properties" type="a{sv}" direction="out"/>
+    </method>
+    <method name="Set">
+      <arg name="interface" type="s" direction="in"/>
+      <arg name="property" type="s" direction="in"/>
+      <arg name="value" type="v" direction="in"/>
+    </method>
+    <signal name="PropertiesChanged">
+      <arg name="interface" type="s"/>
+      <arg name="changed" type="a{sv}"/>
+      <arg name="invalidated" type="as"/>
+    </signal>
+  </interface>
+  <interface name="org.mpris.MediaPlayer2">
+    <method name="Raise"/>
+    <method name="Quit"/>
+    <property name="CanQuit" type="b" access="read"/>
+    <property name="CanRaise" type="b" access="read"/>
+    <property name="HasTrackList" type="b" access="read"/>
+    <property name="Identity" type="s" access="read"/>
+    <property name="SupportedUriSchemes" type="as" access="read"/>
+    <property name="SupportedMimeTypes" type="as" access="read"/>
+  </interface>
+  <interface name="org.mpris.MediaPlayer2.Player">
+    <method name="Next"/>
+    <method name="Previous"/>
+    <method name="Pause"/>
+    <method name="PlayPause"/>
+    <method name="Stop"/>
+    <method name="Play"/>
+    <method name="Seek"><arg name="offset" type="x" direction="in"/></method>
+    <method name="SetPosition">
+      <arg name="track" type="o" direction="in"/>
+      <arg name="position" type="x" direction="in"/>
+    </method>
+    <method name="OpenUri"><arg name="uri" type="s" direction="in"/></method>
+    <signal name="Seeked"><arg name="position" type="x"/></signal>
+    <property name="PlaybackStatus" type="s" access="read"/>
+    <property name="Rate" type="d" access="readwrite"/>
+    <property name="Metadata" type="a{sv}" access="read"/>
+    <property name="Volume" type="d" access="readwrite"/>
+    <property name="Position" type="x" access="read"/>
+    <property name="MinimumRate" type="d" access="read"/>
+    <property name="MaximumRate" type="d" access="read"/>
+    <property name="CanGoNext" type="b" access="read"/>
+    <property name="CanGoPrevious" type="b" access="read"/>
+    <property name="CanPlay" type="b" access="read"/>
+    <property name="CanPause" type="b" access="read"/>
+    <property name="CanSeek" type="b" access="read"/>
+    <property name="CanControl" type="b" access="read"/>
+  </interface>
+</node>`;
+
+// What the daemon does for play, stop and volume, so MPRIS goes through the same path as its own commands
+export interface MprisControls {
+  play(station: Station): Promise<void>;
+  stop(): Promise<void>;
+  setVolume(level: number): Promise<void>;
+}
+
+const variant = (signature: string, value: any): Variant => ({ signature, value });
+
+// Object paths only allow [A-Za-z0-9_] in each element
+const toTrackId = (station: Station): string => {
+  return `/org/mpris/MediaPlayer2/lofi_radio/station/${station.id.replace(/[^A-Za-z0-9_]/g, '_') || '_'}`;
+};
+
+/**
+ * Publishes the player on the session bus as an MPRIS media player, so
+ * media keys, playerctl and desktop widgets can see and control it. A live
+ * stream can't really pause, so Pause stops and reports Paused, and the
+ * next Play picks the same station up again. Next and Previous step
+ * through the station catalog.
+ *
+ * Emits `error` (Error) when a control action fails and `close` when the
+ * bus connection goes away.
+ */
+export class MprisService extends EventEmitter {
+  busName: string = BUS_NAME;
+  private player: StreamPlayer;
+  private config: Conf<Config>;
+  private controls: MprisControls;
+  private connection: DBusConnection | null = null;
+  // The station Play resumes and Next/Previous step from once stopped
+  private lastStation: Station | null = null;
+  private paused: boolean = false;
+  // Set while a Pause or Stop waits for the fade out, which the player still reports as playing
+  private stopping: boolean = false;
+  // Actions run one after another, so each sees what the one before it left behind
+  private pending: Promise<void> = Promise.resolve();
+  private published: Record<string, string> = {};
+  private refreshListener = () => this.refresh();
+
+  constructor(player: StreamPlayer, config: Conf<Config>, controls: MprisControls) {
+    super();
+    this.player = player;
+    this.config = config;
+    this.controls = controls;
+  }
+
+  async start(address?: string): Promise<void> {
+    const connection = await DBusConnection.connect(address);
+
+    // The spec's way for a second instance to share the bus
+    if (!(await connection.requestName(this.busName))) {
+      this.busName = `${BUS_NAME}.instance${process.pid}`;
+      if (!(await connection.requestName(this.busName))) {
+        connection.close();
+        throw new Error(`Could not own ${this.busName} on the session bus`);
+      }
+    }
+
+    this.connection = connection;
+    connection.on('call', (message: DBusMessage) => this.handleCall(message));
+    connection.on('close', () => {
+      // Unless stop() closed it on purpose
+      if (this.connection === connection) {
+        this.detach();
+        this.emit('close');
+      }
+    });
+
+    PLAYER_EVENTS.forEach(event => this.player.on(event, this.refreshListener));
+    this.published = this.snapshot();
+  }
+
+  stop(): void {
+    const connection = this.connection;
+    this.detach();
+    connection?.close();
+  }
+
+  /**
+   * Tells listeners about any player property that changed since last
+   * time. Player events call it; the daemon also calls it after volume
+   * changes, which the player doesn't announce.
+   */
+  refresh(): void {
+    if (!this.connection) {
+      return;
+    }
+
+    const state = this.player.getState();
+    if (state.isPlaying && !this.stopping) {
+      this.lastStation = state.currentStation;
+      this.paused = false;
+    }
+
+    const properties = this.getPlayerProperties();
+    const current = this.snapshot(properties);
+    const changed: Record<string, Variant> = {};
+    Object.keys(current).forEach(name => {
+      if (current[name] !== this.published[name]) {
+        changed[name] = properties[name];
+      }
+    });
+    this.published = current;
+
+    if (Object.keys(changed).length > 0) {
+      this.connection.signal(OBJECT_PATH, PROPERTIES_INTERFACE, 'PropertiesChanged', 'sa{sv}as', [PLAYER_INTERFACE, changed, []]);
+    }
+  }
+
+  private detach(): void {
+    this.connection = null;
+    PLAYER_EVENTS.forEach(event => this.player.off(event, this.refreshListener));
+  }
+
+  // Position is left out: the spec says clients poll it rather than wait for signals
+  private snapshot(properties: Record<string, Variant> = this.getPlayerProperties()): Record<string, string> {
+    const values: Record<string, string> = {};
+    Object.entries(properties).forEach(([name, property]) => {
+      if (name !== 'Position') {
+        values[name] = JSON.stringify(property.value);
+      }
+    });
+    return values;
+  }
+
+  private getRootProperties(): Record<string, Variant> {
+    return {
+      CanQuit: variant('b', false),
+      CanRaise: variant('b', false),
+      HasTrackList: variant('b', false),
+      Identity: variant('s', 'Lofi Radio'),
+      SupportedUriSchemes: variant('as', []),
+      SupportedMimeTypes: variant('as', ['audio/mpeg', 'audio/aac', 'audio/ogg'])
+    };
+  }
+
+  private getPlayerProperties(): Record<string, Variant> {
+    const state = this.player.getState();
+    const playing = state.isPlaying && !this.stopping;
+    const status = playing ? 'Playing' : this.paused ? 'Paused' : 'Stopped';
+    const position = state.isPlaying && state.startTime ? (Date.now() - state.startTime.getTime()) * 1000 : 0;
+
+    return {
+      PlaybackStatus: variant('s', status),
+      Rate: variant('d', 1),
+      Metadata: variant('a{sv}', this.getMetadata()),
+      Volume: variant('d', state.volume / 100),
+      Position: variant('x', position),
+      MinimumRate: variant('d', 1),
+      MaximumRate: variant('d', 1),
+      CanGoNext: variant('b', getStations().length > 0),
+      CanGoPrevious: variant('b', getStations().length > 0),
+      CanPlay: variant('b', this.getResumeStation() !== undefined),
+      CanPause: variant('b', playing),
+      CanSeek: variant('b', false),
+      CanControl: variant('b', true)
+    };
+  }
+
+  // The station, with the ICY track as the title when the stream sends one
+  private getMetadata(): Record<string, Variant> {
+    const state = this.player.getState();
+    const station = state.currentStation ?? (this.paused ? this.lastStation : null);
+    if (!station) {
+      return { 'mpris:trackid': variant('o', '/org/mpris/MediaPlayer2/TrackList/NoTrack') };
+    }
+
+    const metadata: Record<string, Variant> = {
+      'mpris:trackid': variant('o', toTrackId(station)),
+      'xesam:title': variant('s', state.track?.title || station.name),
+      'xesam:album': variant('s', state.track?.album || station.name),
+      'xesam:genre': variant('as', [station.genre]),
+      'xesam:url': variant('s', station.url)
+    };
+    if (state.track?.artist) {
+      metadata['xesam:artist'] = variant('as', [state.track.artist]);
+    }
+    return metadata;
+  }
+
+  private getResumeStation(): Station | undefined {
+    const lastStationId = this.config.get('lastStation');
+    return this.player.getState().currentStation
+      ?? this.lastStation
+      ?? (lastStationId ? getStationById(lastStationId) : undefined)
+      ?? getStations()[0];
+  }
+
+  // Wraps around the catalog; starts from the first or last station if nothing has played
+  private getNeighbour(direction: 1 | -1): Station | undefined {
+    const stations = getStations();
+    if (stations.length === 0) {
+      return undefined;
+    }
+
+    const current = this.player.getState().currentStation ?? this.lastStation;
+    const index = current ? stations.findIndex(station => station.id === current.id) : -1;
+    if (index === -1) {
+      return direction === 1 ? stations[0] : stations[stations.length - 1];
+    }
+    return stations[(index + direction + stations.length) % stations.length];
+  }
+
+  private handleCall(message: DBusMessage): void {
+    const connection = this.connection;
+    if (!connection) {
+      return;
+    }
+
+    if (message.path !== OBJECT_PATH) {
+      connection.replyError(message, 'org.freedesktop.DBus.Error.UnknownObject', `No object at ${message.path}`);
+      return;
+    }
+
+    switch (message.member) {
+      case 'Introspect':
+        connection.reply(message, 's', [INTROSPECTION]);
+        return;
+
+      case 'Ping':
+      case 'Raise':
+      case 'Quit':
+      case 'Seek':
+      case 'SetPosition':
+        connection.reply(message);
+        return;
+
+      case 'Get':
+      case 'GetAll':
+      case 'Set':
+        this.handleProperties(message, connection);
+        return;
+
+      case 'Play':
+      case 'Pause':
+      case 'PlayPause':
+      case 'Stop':
+      case 'Next':
+      case 'Previous':
+        // Answer straight away: connecting can take a while and clients don't wait on it
+        connection.reply(message);
+        this.queueAction(message.member);
+        return;
+
+      case 'OpenUri':
+        connection.replyError(message, 'org.freedesktop.DBus.Error.NotSupported', 'Opening URIs is not supported');
+        return;
+
+      default:
+        connection.replyError(message, 'org.freedesktop.DBus.Error.UnknownMethod', `Unknown method ${message.member}`);
+    }
+  }
+
+  private handleProperties(message: DBusMessage, connection: DBusConnection): void {
+    const [iface, name, value] = message.body;
+    const properties = iface === ROOT_INTERFACE
+      ? this.getRootProperties()
+      : iface === PLAYER_INTERFACE ? this.getPlayerProperties() : null;
+
+    if (!properties) {
+      connection.replyError(message, 'org.freedesktop.DBus.Error.UnknownInterface', `Unknown interface ${iface}`);
+      return;
+    }
+
+    if (message.member === 'GetAll') {
+      connection.reply(message, 'a{sv}', [properties]);
+      return;
+    }
+    if (!(name in properties)) {
+      connection.replyError(message, 'org.freedesktop.DBus.Error.UnknownProperty', `Unknown property ${name}`);
+      return;
+    }
+    if (message.member === 'Get') {
+      connection.reply(message, 'v', [properties[name]]);
+      return;
+    }
+
+    // Rate is writable in the spec but a live stream only plays at 1.0
+    if (iface !== PLAYER_INTERFACE || (name !== 'Volume' && name !== 'Rate')) {
+      connection.replyError(message, 'org.freedesktop.DBus.Error.PropertyReadOnly', `${name} is read-only`);
+      return;
+    }
+    connection.reply(message);
+
+    if (name === 'Volume' && typeof value?.value === 'number') {
+      const level = Math.round(Math.max(0, Math.min(1, value.value)) * 100);
+      this.controls.setVolume(level).catch((error: Error) => this.emit('error', error));
+    }
+  }
+
+  private queueAction(action: string): void {
+    this.pending = this.pending
+      .then(() => this.runAction(action))
+      .catch((error: Error) => {
+        this.emit('error', error);
+      });
+  }
+
+  private async runAction(action: string): Promise<void> {
+    const playing = this.player.getState().isPlaying;
+
+    switch (action) {
+      case 'Play':
+      case 'PlayPause':
+        if (playing && action === 'PlayPause') {
+          await this.pause();
+        } else if (!playing) {
+          const station = this.getResumeStation();
+          if (station) {
+            await this.controls.play(station);
+          }
+        }
+        return;
+
+      case 'Pause':
+        if (playing) {
+          await this.pause();
+        }
+        return;
+
+      case 'Stop':
+        this.paused = false;
+        if (playing) {
+          await this.stopPlayback();
+        } else {
+          this.refresh();
+        }
+        return;
+
+      case 'Next':
+      case 'Previous': {
+        const station = this.getNeighbour(action === 'Next' ? 1 : -1);
+        if (station) {
+          await this.controls.play(station);
+        }
+      }
+    }
+  }
+
+  private async pause(): Promise<void> {
+    this.paused = true;
+    await this.stopPlayback();
+  }
+
+  // Clients hear about the new status as soon as it's asked for, not once the fade is over
+  private async stopPlayback(): Promise<void> {
+    this.stopping = true;
+    this.refresh();
+    try {
+      await this.controls.stop();
+    } finally {
+      this.stopping = false;
+      this.refresh();
+    }
+  }
+}
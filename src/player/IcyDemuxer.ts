@@ -0,0 +1,95 @@
+import { Transform, TransformCallback } from 'stream';
+import type { TrackMetadata } from '../types/index.js';
+
+/**
+ * Strips Icecast/Shoutcast metadata blocks out of a stream requested with
+ * `Icy-MetaData: 1`. Every `metaint` bytes of audio the server inserts one
+ * length byte (in 16-byte units) followed by that many bytes of metadata.
+ * Audio passes through untouched; each non-empty block is emitted as a
+ * `metadata` event carrying the raw block text.
+ */
+export class IcyDemuxer extends Transform {
+  private metaint: number;
+  private audioRemaining: number;
+  private metaRemaining: number = 0;
+  private metaChunks: Buffer[] = [];
+  private readingMetaLength: boolean = false;
+
+  constructor(metaint: number) {
+    super();
+    this.metaint = metaint;
+    this.audioRemaining = metaint;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    let offset = 0;
+
+    while (offset < chunk.length) {
+      if (this.audioRemaining > 0) {
+        const size = Math.min(this.audioRemaining, chunk.length - offset);
+        this.push(chunk.subarray(offset, offset + size));
+        this.audioRemaining -= size;
+        offset += size;
+        this.readingMetaLength = this.audioRemaining === 0;
+      } else if (this.readingMetaLength) {
+        this.metaRemaining = chunk[offset] * 16;
+        this.readingMetaLength = false;
+        offset++;
+
+        if (this.metaRemaining === 0) {
+          this.audioRemaining = this.metaint;
+        }
+      } else {
+        const size = Math.min(this.metaRemaining, chunk.length - offset);
+        this.metaChunks.push(chunk.subarray(offset, offset + size));
+        this.metaRemaining -= size;
+        offset += size;
+
+        if (this.metaRemaining === 0) {
+          this.emitMetadata(Buffer.concat(this.metaChunks));
+          this.metaChunks = [];
+          this.audioRemaining = this.metaint;
+        }
+      }
+    }
+
+    callback();
+  }
+
+  private emitMetadata(block: Buffer): void {
+    // Servers disagree on the encoding; fall back to latin1 when the block
+    // is not valid UTF-8
+    let text = block.toString('utf8');
+    if (text.includes('�')) {
+      text = block.toString('latin1');
+    }
+
+    text = text.replace(/\0+$/, '');
+    if (text) {
+      this.emit('metadata', text);
+    }
+  }
+}
+
+export const parseStreamTitle = (block: string): TrackMetadata | null => {
+  const match = block.match(/StreamTitle='(.*?)';/s);
+  if (!match) {
+    return null;
+  }
+
+  const raw = match[1].trim();
+  if (!raw) {
+    return null;
+  }
+
+  const separator = raw.indexOf(' - ');
+  if (separator === -1) {
+    return { title: raw, raw };
+  }
+
+  return {
+    artist: raw.slice(0, separator).trim(),
+    title: raw.slice(separator + 3).trim(),
+    raw
+  };
+};
@@ -1,151 +1,308 @@
-import { spawn } from 'child_process';
 import { EventEmitter } from 'events';
-import type { Station, PlayerState, StreamError } from '../types/index.js';
+import { Readable } from 'stream';
+import fetch from 'node-fetch';
+import type { Response } from 'node-fetch';
+import { IcyDemuxer, parseStreamTitle } from './IcyDemuxer.js';
+import { FFplayBackend, PCM_CHANNELS, PCM_SAMPLE_RATE } from './backends/FFplayBackend.js';
+import { LevelAnalyzer } from './audio/LevelAnalyzer.js';
+import { getStreamUrls, getTierLabel, resolveTier, stepTier } from './quality.js';
+import type {
+  AudioBackend,
+  AudioLevels,
+  Station,
+  PlayerState,
+  QualityChange,
+  QualityPreference,
+  QualityTier,
+  ReconnectInfo,
+  ReconnectPolicy,
+  StreamError
+} from '../types/index.js';
+
+const FADE_STEP_MS = 50;
+// Without a sleep fade, sleep_warning still gives a minute's notice
+const SLEEP_WARNING_MS = 60 * 1000;
+
+const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelay: 1,
+  maxDelay: 30,
+  alwaysRetry: false
+};
+
+// A stream that delivers nothing for this long is treated as dropped
+const STALL_TIMEOUT_MS = 15 * 1000;
+// In auto quality, this many stalls or reconnects within the window step
+// down a tier, and this long without any steps back up
+const DOWNGRADE_AFTER = 2;
+const PROBLEM_WINDOW_MS = 5 * 60 * 1000;
+const STABLE_PERIOD_MS = 10 * 60 * 1000;
+
+/**
+ * Milliseconds to wait before the given attempt (counting from 1): the base
+ * delay doubled each time up to the cap, then jittered down by up to half
+ * so clients dropped together don't all come back at once.
+ */
+export const getBackoffDelay = (attempt: number, policy: ReconnectPolicy): number => {
+  const exponential = policy.baseDelay * 1000 * Math.pow(2, Math.min(attempt - 1, 30));
+  const capped = Math.min(exponential, policy.maxDelay * 1000);
+  return Math.round(capped / 2 + Math.random() * (capped / 2));
+};
 
 export class StreamPlayer extends EventEmitter {
   private state: PlayerState;
+  private backend: AudioBackend;
   private reconnectAttempts: number = 0;
-  private maxReconnectAttempts: number = 5;
-  private reconnectDelay: number = 3000;
+  private reconnectPolicy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  // Index into getStreamUrls() of the URL currently in use
+  private mirror: number = 0;
+  private tier: QualityTier = 'high';
+  private problems: number[] = [];
+  private stallTimer: NodeJS.Timeout | null = null;
+  private upgradeTimer: NodeJS.Timeout | null = null;
+  private abortController: AbortController | null = null;
+  private session: number = 0;
+  private fadeDuration: number = 0;
+  private fadeId: number = 0;
+  private outputVolume: number = 0;
+  private sleepTimers: NodeJS.Timeout[] = [];
+  private analyzer: LevelAnalyzer = new LevelAnalyzer(PCM_SAMPLE_RATE, PCM_CHANNELS);
 
-  constructor() {
+  constructor(backend: AudioBackend = new FFplayBackend()) {
     super();
+    this.backend = backend;
+    this.analyzer.on('levels', (levels: AudioLevels) => this.emit('levels', levels));
     this.state = {
       isPlaying: false,
       currentStation: null,
       volume: 70,
       startTime: null,
-      process: null
+      backend: backend.name,
+      track: null,
+      muted: false,
+      sleepEndsAt: null,
+      quality: null,
+      qualityMode: 'auto'
     };
+    this.attachBackend(backend);
   }
 
-  async play(station: Station, volume?: number): Promise<void> {
+  async setBackend(backend: AudioBackend): Promise<void> {
+    if (backend === this.backend) {
+      return;
+    }
+
     if (this.state.isPlaying) {
       await this.stop();
     }
 
-    this.state.currentStation = station;
-    this.state.volume = volume || this.state.volume;
-    this.state.startTime = new Date();
+    this.backend.removeAllListeners();
+    this.backend = backend;
+    this.state.backend = backend.name;
+    this.attachBackend(backend);
+  }
 
-    return new Promise((resolve, reject) => {
-      try {
-        const volumeArg = (this.state.volume / 100).toFixed(2);
-
-        const args = [
-          '-nodisp',
-          '-loglevel', 'error',
-          '-af', `volume=${volumeArg}`,
-          '-vn',
-          station.url
-        ];
-
-        this.state.process = spawn('ffplay', args, {
-          stdio: ['ignore', 'ignore', 'pipe'],
-          shell: process.platform === 'win32'
-        });
+  getBackend(): AudioBackend {
+    return this.backend;
+  }
 
-        this.state.isPlaying = true;
-        this.reconnectAttempts = 0;
+  /**
+   * Sets how long play fades in and stop fades out, in milliseconds. Fades
+   * need a backend that can change volume live; others start and stop
+   * at full volume.
+   */
+  setFadeDuration(duration: number): void {
+    this.fadeDuration = Math.max(0, duration);
+  }
 
-        this.state.process.stderr?.on('data', (data: Buffer) => {
-          const error = data.toString();
-          if (error.includes('Invalid data') || error.includes('Connection refused')) {
-            this.handleStreamError({
-              code: 'STREAM_ERROR',
-              message: error,
-              station
-            });
-          }
-        });
+  setReconnectPolicy(policy: ReconnectPolicy): void {
+    this.reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...policy };
+  }
 
-        this.state.process.on('error', (error: Error) => {
-          this.state.isPlaying = false;
-          if (error.message.includes('ENOENT')) {
-            reject(new Error('ffplay not found. Please install ffmpeg: https://ffmpeg.org/download.html'));
-          } else {
-            this.handleStreamError({
-              code: 'PROCESS_ERROR',
-              message: error.message,
-              station
-            });
-          }
-        });
+  /**
+   * Emits `levels` for the visualizer up to `fps` times a second, or stops
+   * with 0. Returns whether the backend hands back any audio to analyse;
+   * without it no frames arrive.
+   */
+  setLevelRate(fps: number): boolean {
+    this.analyzer.setRate(fps);
+    return this.backend.capabilities.levels;
+  }
 
-        this.state.process.on('exit', (code: number | null) => {
-          if (this.state.isPlaying && code !== 0) {
-            this.handleStreamError({
-              code: 'UNEXPECTED_EXIT',
-              message: `Process exited with code ${code}`,
-              station
-            });
-          }
-          this.state.isPlaying = false;
-          this.state.process = null;
-        });
+  /**
+   * Stops playback after `duration` milliseconds. With a fade, the volume
+   * ramps down linearly over the last `fade` milliseconds. `sleep_warning`
+   * is emitted when that fade starts (or a minute before the end without
+   * one) and `sleep_expired` once playback has stopped.
+   */
+  setSleepTimer(duration: number, fade: number = 0): void {
+    this.cancelSleepTimer();
 
-        setTimeout(() => {
-          if (this.state.isPlaying) {
-            this.emit('playing', station);
-            resolve();
-          }
-        }, 1000);
+    const fadeLength = Math.min(Math.max(0, fade), duration);
+    const warnAfter = Math.max(0, duration - (fadeLength > 0 ? fadeLength : SLEEP_WARNING_MS));
+    this.state.sleepEndsAt = new Date(Date.now() + duration);
 
-      } catch (error) {
-        this.state.isPlaying = false;
-        reject(error);
+    this.sleepTimers.push(setTimeout(() => {
+      this.emit('sleep_warning', this.getSleepRemaining());
+      if (fadeLength > 0 && this.state.isPlaying && this.backend.capabilities.liveVolume) {
+        this.fadeTo(0, fadeLength);
       }
-    });
+    }, warnAfter));
+
+    this.sleepTimers.push(setTimeout(() => this.expireSleepTimer(), duration));
   }
 
-  async stop(): Promise<void> {
-    if (!this.state.process) {
-      return;
+  cancelSleepTimer(): boolean {
+    const active = this.state.sleepEndsAt !== null;
+    this.sleepTimers.forEach(timer => clearTimeout(timer));
+    this.sleepTimers = [];
+    this.state.sleepEndsAt = null;
+    return active;
+  }
+
+  // Milliseconds until the sleep timer stops playback, or null when none is set
+  getSleepRemaining(): number | null {
+    if (!this.state.sleepEndsAt) {
+      return null;
     }
+    return Math.max(0, this.state.sleepEndsAt.getTime() - Date.now());
+  }
 
-    return new Promise((resolve) => {
-      const process = this.state.process;
-      this.state.isPlaying = false;
-      this.state.currentStation = null;
-      this.state.startTime = null;
+  /**
+   * Plays a station at the given quality. `auto` starts at the best tier
+   * and adapts: repeated stalls or reconnects step down a tier, and a long
+   * stable stretch steps back up, each announced with `quality_changed`.
+   */
+  async play(station: Station, volume?: number, quality: QualityPreference = 'auto'): Promise<void> {
+    // A fresh request replaces any retry still waiting for the last station
+    this.cancelReconnect();
+    this.reconnectAttempts = 0;
+    this.mirror = 0;
+    this.problems = [];
+    this.state.qualityMode = quality;
+    this.tier = resolveTier(station, quality === 'auto' ? 'high' : quality);
+    if (this.state.isPlaying) {
+      await this.stop();
+    }
+    await this.connect(station, volume);
+  }
+
+  // Also used to reconnect and to switch tiers, which replace the stream without fading or stopping
+  private async connect(station: Station, volume?: number): Promise<void> {
+    // The last stream's timers are still set when its backend exited on its own
+    this.clearQualityTimers();
+    await this.teardown();
+
+    this.state.currentStation = station;
+    this.state.volume = volume ?? this.state.volume;
+    this.state.startTime = new Date();
+    this.state.track = null;
 
-      if (process) {
-        process.removeAllListeners();
+    const audio = await this.openStream(station);
+    const session = ++this.session;
 
-        process.on('exit', () => {
-          this.state.process = null;
-          this.emit('stopped');
-          resolve();
+    audio.on('error', (error: Error) => {
+      if (this.state.isPlaying && this.session === session) {
+        this.handleStreamError({
+          code: 'NETWORK_ERROR',
+          message: error.message,
+          station
         });
+      }
+    });
+
+    audio.on('end', () => {
+      if (this.state.isPlaying && this.session === session) {
+        this.handleStreamError({
+          code: 'STREAM_ENDED',
+          message: 'The server closed the stream',
+          station
+        });
+      }
+    });
 
-        if (process.kill) {
-          process.kill('SIGTERM');
+    const target = this.getOutputVolume();
+    const fadeIn = this.fadeDuration > 0 && this.backend.capabilities.liveVolume;
+    this.outputVolume = fadeIn ? 0 : target;
 
-          setTimeout(() => {
-            if (this.state.process === process) {
-              process.kill('SIGKILL');
-            }
-          }, 2000);
-        }
-      } else {
-        resolve();
+    try {
+      await this.backend.start(audio, this.outputVolume);
+    } catch (error) {
+      this.state.isPlaying = false;
+      this.closeStream();
+      throw error;
+    }
+
+    this.state.isPlaying = true;
+    this.state.quality = this.tier;
+    // Only audio actually arriving counts as recovered; a server that
+    // accepts the connection and then drops it keeps using up attempts
+    audio.once('data', () => {
+      if (this.session === session) {
+        this.reconnectAttempts = 0;
       }
     });
+    this.watchForStalls(audio, station, session);
+    this.scheduleUpgrade(station);
+
+    if (fadeIn) {
+      this.fadeTo(target, this.fadeDuration);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    if (this.state.isPlaying && this.session === session) {
+      this.emit('playing', station);
+    }
+  }
+
+  async stop(fade: boolean = true): Promise<void> {
+    this.cancelReconnect();
+    this.clearQualityTimers();
+
+    if (!this.state.isPlaying && !this.backend.isRunning()) {
+      return;
+    }
+
+    if (fade && this.state.isPlaying && this.fadeDuration > 0 && this.backend.capabilities.liveVolume) {
+      await this.fadeTo(0, this.fadeDuration);
+    }
+
+    this.state.currentStation = null;
+    this.state.startTime = null;
+    this.state.track = null;
+    this.state.quality = null;
+    await this.teardown();
+    this.emit('stopped');
+  }
+
+  // Drops the current stream and output at once; unlike stop(), nothing is emitted
+  private async teardown(): Promise<void> {
+    this.state.isPlaying = false;
+    this.session++;
+    this.closeStream();
+    this.analyzer.reset();
+    await this.backend.stop();
   }
 
-  setVolume(volume: number): void {
+  async setVolume(volume: number): Promise<void> {
     if (volume < 0 || volume > 100) {
       throw new Error('Volume must be between 0 and 100');
     }
 
     this.state.volume = volume;
+    await this.applyVolume();
+  }
 
-    if (this.state.isPlaying && this.state.currentStation) {
-      const station = this.state.currentStation;
-      this.stop().then(() => {
-        this.play(station, volume);
-      });
-    }
+  async mute(): Promise<void> {
+    this.state.muted = true;
+    await this.applyVolume();
+  }
+
+  async unmute(): Promise<void> {
+    this.state.muted = false;
+    await this.applyVolume();
   }
 
   getState(): PlayerState {
@@ -172,29 +329,288 @@ export class StreamPlayer extends EventEmitter {
     }
   }
 
+  private getOutputVolume(): number {
+    return this.state.muted ? 0 : this.state.volume;
+  }
+
+  /**
+   * Pushes the current volume and mute state to the output. Backends that
+   * can't change volume live are restarted, which reconnects to the stream.
+   */
+  private async applyVolume(): Promise<void> {
+    const station = this.state.currentStation;
+    if (!this.state.isPlaying || !station) {
+      return;
+    }
+
+    if (this.backend.capabilities.liveVolume) {
+      // A manual change wins over a fade that is still running
+      this.fadeId++;
+      this.outputVolume = this.getOutputVolume();
+      await this.backend.setVolume(this.outputVolume);
+      return;
+    }
+
+    await this.connect(station, this.state.volume);
+  }
+
+  private async fadeTo(target: number, duration: number): Promise<void> {
+    const fadeId = ++this.fadeId;
+    const from = this.outputVolume;
+    const steps = Math.max(1, Math.round(duration / FADE_STEP_MS));
+
+    for (let step = 1; step <= steps; step++) {
+      await new Promise(resolve => setTimeout(resolve, duration / steps));
+      if (fadeId !== this.fadeId || !this.backend.isRunning()) {
+        return;
+      }
+
+      this.outputVolume = from + (target - from) * (step / steps);
+      await this.backend.setVolume(this.outputVolume).catch(() => {});
+    }
+  }
+
+  private async expireSleepTimer(): Promise<void> {
+    this.cancelSleepTimer();
+    await this.stop(false);
+    this.emit('sleep_expired');
+  }
+
+  private attachBackend(backend: AudioBackend): void {
+    backend.on('pcm', (chunk: Buffer) => this.analyzer.push(chunk));
+
+    backend.on('error', (error: StreamError) => {
+      const station = this.state.currentStation;
+      if (this.state.isPlaying && station) {
+        this.handleStreamError({ ...error, station });
+      }
+    });
+
+    backend.on('exit', (code: number | null) => {
+      // Even a clean exit mid-stream means the audio stopped, so it's retried like a drop
+      const station = this.state.currentStation;
+      if (this.state.isPlaying && station) {
+        this.handleStreamError({
+          code: code === 0 ? 'STREAM_ENDED' : 'UNEXPECTED_EXIT',
+          message: code === 0 ? `${backend.name} stopped before the stream did` : `${backend.name} exited with code ${code}`,
+          station
+        });
+      }
+      this.state.isPlaying = false;
+      this.clearQualityTimers();
+      this.closeStream();
+    });
+  }
+
+  /**
+   * Requests the stream with ICY metadata enabled and returns the audio
+   * part of it. When the server interleaves metadata (`icy-metaint`), the
+   * blocks are stripped out and surfaced as `metadata` events. A URL that
+   * can't be reached moves on to the station's next mirror; the error is
+   * only thrown once every one of them has failed.
+   */
+  private async openStream(station: Station): Promise<Readable> {
+    const urls = getStreamUrls(station, this.tier);
+    let response: Response | null = null;
+    let lastError: Error | null = null;
+
+    for (let tried = 0; tried < urls.length && !response; tried++) {
+      const mirror = (this.mirror + tried) % urls.length;
+      this.abortController = new AbortController();
+
+      try {
+        const attempt = await fetch(urls[mirror], {
+          headers: { 'Icy-MetaData': '1' },
+          signal: this.abortController.signal
+        });
+
+        if (!attempt.ok || !attempt.body) {
+          throw new Error(`Stream responded with HTTP ${attempt.status}`);
+        }
+
+        response = attempt;
+        this.mirror = mirror;
+      } catch (error: any) {
+        this.closeStream();
+        lastError = error;
+      }
+    }
+
+    if (!response) {
+      throw lastError;
+    }
+
+    const body = response.body as unknown as Readable;
+    const metaint = parseInt(response.headers.get('icy-metaint') || '', 10);
+
+    if (!metaint || metaint <= 0) {
+      return body;
+    }
+
+    const demuxer = new IcyDemuxer(metaint);
+    demuxer.on('metadata', (block: string) => this.handleMetadata(block));
+    body.on('error', (error: Error) => demuxer.destroy(error));
+
+    return body.pipe(demuxer);
+  }
+
+  private closeStream(): void {
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+  }
+
+  private handleMetadata(block: string): void {
+    const track = parseStreamTitle(block);
+    if (!track || track.raw === this.state.track?.raw) {
+      return;
+    }
+
+    this.state.track = track;
+    this.emit('metadata', track, this.state.currentStation);
+  }
+
+  private clearQualityTimers(): void {
+    if (this.stallTimer) {
+      clearInterval(this.stallTimer);
+      this.stallTimer = null;
+    }
+    if (this.upgradeTimer) {
+      clearTimeout(this.upgradeTimer);
+      this.upgradeTimer = null;
+    }
+  }
+
+  // Some servers keep the connection open but stop sending; that would
+  // otherwise go unnoticed until the listener does
+  private watchForStalls(audio: Readable, station: Station, session: number): void {
+    let lastData = Date.now();
+    audio.on('data', () => {
+      lastData = Date.now();
+    });
+
+    this.stallTimer = setInterval(() => {
+      if (this.session !== session || !this.state.isPlaying) {
+        return;
+      }
+      if (Date.now() - lastData > STALL_TIMEOUT_MS) {
+        this.clearQualityTimers();
+        this.handleStreamError({
+          code: 'STREAM_STALLED',
+          message: `No audio received for ${STALL_TIMEOUT_MS / 1000}s`,
+          station
+        });
+      }
+    }, STALL_TIMEOUT_MS / 3);
+  }
+
+  // Returns true when the problem made auto quality step down a tier
+  private trackProblem(station: Station): boolean {
+    if (this.state.qualityMode !== 'auto') {
+      return false;
+    }
+
+    const now = Date.now();
+    this.problems = [...this.problems.filter(at => now - at < PROBLEM_WINDOW_MS), now];
+    const lower = stepTier(station, this.tier, -1);
+    if (this.problems.length < DOWNGRADE_AFTER || !lower) {
+      return false;
+    }
+
+    this.changeTier(lower, 'downgrade');
+    return true;
+  }
+
+  private scheduleUpgrade(station: Station): void {
+    const higher = stepTier(station, this.tier, 1);
+    if (this.state.qualityMode !== 'auto' || !higher) {
+      return;
+    }
+
+    this.upgradeTimer = setTimeout(() => {
+      this.upgradeTimer = null;
+      if (!this.state.isPlaying || this.state.currentStation !== station) {
+        return;
+      }
+
+      this.changeTier(higher, 'upgrade');
+      this.mirror = 0;
+      this.connect(station, this.state.volume).catch(() => {
+        this.handleStreamError({
+          code: 'RECONNECT_FAILED',
+          message: `Couldn't switch to ${getTierLabel(station, higher)}`,
+          station
+        });
+      });
+    }, STABLE_PERIOD_MS);
+  }
+
+  private changeTier(tier: QualityTier, reason: QualityChange['reason']): void {
+    const change: QualityChange = { tier, previous: this.tier, reason };
+    this.tier = tier;
+    this.problems = [];
+    this.emit('quality_changed', change);
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Retries a dropped stream with exponential backoff, starting each
+   * attempt from the next mirror so a dead server isn't hit twice in a row.
+   * `reconnecting` carries a ReconnectInfo describing the coming attempt.
+   */
   private async handleStreamError(error: StreamError): Promise<void> {
+    // One failure is often reported twice (a crashing player logs an error,
+    // then exits); only the first counts as an attempt or a problem
+    if (this.reconnectTimer) {
+      return;
+    }
     this.emit('error', error);
 
-    if (this.reconnectAttempts < this.maxReconnectAttempts && error.station) {
+    const policy = this.reconnectPolicy;
+    const station = error.station;
+    if (station && (policy.alwaysRetry || this.reconnectAttempts < policy.maxAttempts)) {
       this.reconnectAttempts++;
-      this.emit('reconnecting', this.reconnectAttempts);
-
-      setTimeout(async () => {
-        if (error.station) {
-          try {
-            await this.play(error.station, this.state.volume);
-          } catch (reconnectError) {
-            this.handleStreamError({
-              code: 'RECONNECT_FAILED',
-              message: `Reconnection attempt ${this.reconnectAttempts} failed`,
-              station: error.station
-            });
-          }
+
+      // A new tier starts again from its first URL
+      const downgraded = this.trackProblem(station);
+      const urls = getStreamUrls(station, this.tier);
+      this.mirror = downgraded ? 0 : (this.mirror + 1) % urls.length;
+      const delay = getBackoffDelay(this.reconnectAttempts, policy);
+      const info: ReconnectInfo = {
+        attempt: this.reconnectAttempts,
+        maxAttempts: policy.alwaysRetry ? null : policy.maxAttempts,
+        url: urls[this.mirror],
+        mirror: this.mirror,
+        delay,
+        nextRetryAt: new Date(Date.now() + delay).toISOString()
+      };
+      this.emit('reconnecting', info);
+
+      this.cancelReconnect();
+      this.reconnectTimer = setTimeout(async () => {
+        this.reconnectTimer = null;
+        const attempt = this.reconnectAttempts;
+        try {
+          await this.connect(station, this.state.volume);
+        } catch {
+          this.handleStreamError({
+            code: 'RECONNECT_FAILED',
+            message: `Reconnection attempt ${attempt} failed`,
+            station
+          });
         }
-      }, this.reconnectDelay);
+      }, delay);
     } else {
       this.emit('connection_lost', error);
-      await this.stop();
+      this.cancelSleepTimer();
+      await this.stop(false);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { EventEmitter } from 'events';
+import type { AudioLevels } from '../../types/index.js';
+
+// Samples per analysis, about 46ms at 44.1 kHz; must be a power of two
+const FFT_SIZE = 2048;
+const BAND_COUNT = 32;
+const LOWEST_FREQUENCY = 40;
+const HIGHEST_FREQUENCY = 16000;
+// The bottom of the scale every level is measured against
+const FLOOR_DB = -60;
+export const MAX_LEVEL_RATE = 30;
+
+const toLevel = (amplitude: number): number => {
+  if (amplitude <= 0) {
+    return 0;
+  }
+  const db = 20 * Math.log10(amplitude);
+  return Math.round(Math.max(0, Math.min(1, (db - FLOOR_DB) / -FLOOR_DB)) * 1000) / 1000;
+};
+
+// In-place iterative radix-2 FFT over separate real and imaginary parts
+const fft = (re: Float64Array, im: Float64Array): void => {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+
+        const next = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = next;
+      }
+    }
+  }
+};
+
+/**
+ * Turns the PCM a backend plays into visualizer frames. It only keeps the
+ * most recent window of audio and analyses it on a timer, so the cost
+ * depends on the frame rate rather than on the stream, and is nothing at
+ * all while stopped. Emits `levels` with an AudioLevels per frame.
+ */
+export class LevelAnalyzer extends EventEmitter {
+  private channels: number;
+  private chunks: Buffer[] = [];
+  private buffered: number = 0;
+  private fresh: boolean = false;
+  private silent: boolean = true;
+  private timer: NodeJS.Timeout | null = null;
+  private window: Float64Array;
+  // FFT bin where each band starts; the last entry is where the last one ends
+  private bandEdges: number[];
+
+  constructor(sampleRate: number, channels: number) {
+    super();
+    this.channels = channels;
+
+    this.window = new Float64Array(FFT_SIZE);
+    for (let i = 0; i < FFT_SIZE; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FFT_SIZE - 1));
+    }
+
+    const binWidth = sampleRate / FFT_SIZE;
+    const ratio = Math.pow(HIGHEST_FREQUENCY / LOWEST_FREQUENCY, 1 / BAND_COUNT);
+    this.bandEdges = [];
+    for (let band = 0; band <= BAND_COUNT; band++) {
+      const bin = Math.round(LOWEST_FREQUENCY * Math.pow(ratio, band) / binWidth);
+      // Low bands are narrower than a bin; give each at least one of its own
+      const previous = this.bandEdges[band - 1] ?? 0;
+      this.bandEdges.push(Math.min(FFT_SIZE / 2, Math.max(bin, previous + 1)));
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  // Frames per second, capped at MAX_LEVEL_RATE; 0 stops the analyser
+  setRate(fps: number): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (fps > 0) {
+      this.timer = setInterval(() => this.analyze(), 1000 / Math.min(fps, MAX_LEVEL_RATE));
+    } else {
+      this.reset();
+    }
+  }
+
+  push(chunk: Buffer): void {
+    if (!this.timer) {
+      return;
+    }
+
+    this.chunks.push(chunk);
+    this.buffered += chunk.length;
+    this.fresh = true;
+
+    const needed = FFT_SIZE * this.channels * 2;
+    while (this.chunks.length > 1 && this.buffered - this.chunks[0].length >= needed) {
+      this.buffered -= this.chunks.shift()!.length;
+    }
+  }
+
+  reset(): void {
+    this.chunks = [];
+    this.buffered = 0;
+    this.fresh = false;
+  }
+
+  private analyze(): void {
+    // Without new audio, say so once so the display can fall back to silence
+    if (!this.fresh) {
+      if (!this.silent) {
+        this.silent = true;
+        this.emit('levels', this.silence());
+      }
+      return;
+    }
+    this.fresh = false;
+    this.silent = false;
+
+    const frameBytes = this.channels * 2;
+    const data = Buffer.concat(this.chunks);
+    const frames = Math.min(FFT_SIZE, Math.floor(data.length / frameBytes));
+    const offset = data.length - frames * frameBytes;
+
+    const sums = new Array(this.channels).fill(0);
+    const peaks = new Array(this.channels).fill(0);
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+
+    for (let frame = 0; frame < frames; frame++) {
+      let mono = 0;
+      for (let channel = 0; channel < this.channels; channel++) {
+        const sample = data.readInt16LE(offset + frame * frameBytes + channel * 2) / 32768;
+        sums[channel] += sample * sample;
+        peaks[channel] = Math.max(peaks[channel], Math.abs(sample));
+        mono += sample;
+      }
+      re[frame] = (mono / this.channels) * this.window[frame];
+    }
+
+    fft(re, im);
+
+    // A full-scale sine through a Hann window peaks at a quarter of the size
+    const bands: number[] = [];
+    for (let band = 0; band < BAND_COUNT; band++) {
+      let magnitude = 0;
+      for (let bin = this.bandEdges[band]; bin < this.bandEdges[band + 1]; bin++) {
+        magnitude = Math.max(magnitude, Math.hypot(re[bin], im[bin]));
+      }
+      bands.push(toLevel(magnitude / (FFT_SIZE / 4)));
+    }
+
+    const levels: AudioLevels = {
+      rms: sums.map(sum => toLevel(Math.sqrt(sum / Math.max(1, frames)))),
+      peak: peaks.map(toLevel),
+      bands
+    };
+    this.emit('levels', levels);
+  }
+
+  private silence(): AudioLevels {
+    return {
+      rms: new Array(this.channels).fill(0),
+      peak: new Array(this.channels).fill(0),
+      bands: new Array(BAND_COUNT).fill(0)
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { Transform, TransformCallback } from 'stream';
+
+/**
+ * Applies a volume to signed 16-bit little-endian PCM. Gain changes are
+ * ramped across the next chunk instead of jumping, so live volume changes
+ * and fades don't click.
+ */
+export class PcmGain extends Transform {
+  private gain: number;
+  private target: number;
+  private remainder: Buffer | null = null;
+
+  constructor(gain: number = 1) {
+    super();
+    this.gain = gain;
+    this.target = gain;
+  }
+
+  setGain(gain: number): void {
+    this.target = Math.max(0, gain);
+  }
+
+  getGain(): number {
+    return this.target;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    let data = this.remainder ? Buffer.concat([this.remainder, chunk]) : chunk;
+
+    // Keep a trailing odd byte for the next chunk so samples stay aligned
+    if (data.length % 2 !== 0) {
+      this.remainder = Buffer.from(data.subarray(data.length - 1));
+      data = data.subarray(0, data.length - 1);
+    } else {
+      this.remainder = null;
+    }
+
+    const samples = data.length / 2;
+    if (samples === 0) {
+      callback();
+      return;
+    }
+
+    const output = Buffer.allocUnsafe(data.length);
+    const start = this.gain;
+    const step = (this.target - start) / samples;
+
+    for (let i = 0; i < samples; i++) {
+      const value = Math.round(data.readInt16LE(i * 2) * (start + step * i));
+      output.writeInt16LE(Math.max(-32768, Math.min(32767, value)), i * 2);
+    }
+
+    this.gain = this.target;
+    callback(null, output);
+  }
+}
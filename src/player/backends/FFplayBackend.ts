@@ -0,0 +1,125 @@
+import { spawn, ChildProcess } from 'child_process';
+import { Readable } from 'stream';
+import { ProcessBackend } from './ProcessBackend.js';
+import { PcmGain } from '../audio/PcmGain.js';
+import { checkCommand } from '../../utils/helpers.js';
+import type { BackendCapabilities, BackendName } from '../../types/index.js';
+
+export const PCM_SAMPLE_RATE = 44100;
+export const PCM_CHANNELS = 2;
+
+/**
+ * Plays through ffplay. ffplay has no control interface, so when ffmpeg is
+ * also installed the stream is decoded to PCM first and run through a gain
+ * stage in Node; that is what makes live volume changes and fades possible,
+ * and what feeds the visualizer. Without ffmpeg, ffplay decodes the stream
+ * itself and volume changes need a restart.
+ */
+export class FFplayBackend extends ProcessBackend {
+  readonly name: BackendName = 'ffplay';
+  readonly capabilities: BackendCapabilities = { liveVolume: false, audioOutput: true, levels: false };
+  protected readonly command = 'ffplay';
+  protected readonly installHint = 'Please install ffmpeg: https://ffmpeg.org/download.html';
+  protected versionArgs = ['-version'];
+  private decoder: ChildProcess | null = null;
+  private gain: PcmGain | null = null;
+
+  async isAvailable(): Promise<boolean> {
+    if (!(await super.isAvailable())) {
+      return false;
+    }
+
+    this.capabilities.liveVolume = await checkCommand('ffmpeg', ['-version']);
+    this.capabilities.levels = this.capabilities.liveVolume;
+    return true;
+  }
+
+  protected buildArgs(volume: number): string[] {
+    if (this.capabilities.liveVolume) {
+      return [
+        '-nodisp',
+        '-loglevel', 'error',
+        '-f', 's16le',
+        '-ar', String(PCM_SAMPLE_RATE),
+        '-ac', String(PCM_CHANNELS),
+        '-i', 'pipe:0'
+      ];
+    }
+
+    return [
+      '-nodisp',
+      '-loglevel', 'error',
+      '-af', `volume=${(volume / 100).toFixed(2)}`,
+      '-vn',
+      '-i', 'pipe:0'
+    ];
+  }
+
+  protected buildClipArgs(): string[] {
+    return ['-nodisp', '-autoexit', '-loglevel', 'error', '-i', 'pipe:0'];
+  }
+
+  protected prepareInput(input: Readable, volume: number): Readable {
+    if (!this.capabilities.liveVolume) {
+      return input;
+    }
+
+    const decoder = spawn('ffmpeg', [
+      '-loglevel', 'error',
+      '-i', 'pipe:0',
+      '-vn',
+      '-f', 's16le',
+      '-ar', String(PCM_SAMPLE_RATE),
+      '-ac', String(PCM_CHANNELS),
+      'pipe:1'
+    ], {
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: process.platform === 'win32'
+    });
+    this.decoder = decoder;
+
+    decoder.stdin!.on('error', () => {});
+    input.pipe(decoder.stdin!);
+
+    decoder.stderr!.on('data', (data: Buffer) => {
+      const output = data.toString();
+      const code = this.classifyError(output);
+      if (code) {
+        this.emit('error', { code, message: output.trim() });
+      }
+    });
+
+    decoder.on('error', (error: Error) => {
+      this.emit('error', { code: 'DECODER_ERROR', message: error.message });
+    });
+
+    this.gain = new PcmGain(volume / 100);
+    this.gain.on('data', (chunk: Buffer) => this.emit('pcm', chunk));
+    return decoder.stdout!.pipe(this.gain);
+  }
+
+  protected releaseInput(): void {
+    if (this.decoder) {
+      this.decoder.kill('SIGTERM');
+      this.decoder = null;
+    }
+    this.gain = null;
+  }
+
+  async setVolume(volume: number): Promise<void> {
+    if (!this.gain) {
+      return super.setVolume(volume);
+    }
+    this.gain.setGain(volume / 100);
+  }
+
+  classifyError(output: string): string | null {
+    if (output.includes('Invalid data') || output.includes('Connection refused')) {
+      return 'STREAM_ERROR';
+    }
+    if (output.includes('Could not initialize SDL') || output.includes('Failed to open audio device')) {
+      return 'AUDIO_DEVICE_ERROR';
+    }
+    return null;
+  }
+}
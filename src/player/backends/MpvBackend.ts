@@ -0,0 +1,42 @@
+import { ProcessBackend } from './ProcessBackend.js';
+import type { BackendCapabilities, BackendName } from '../../types/index.js';
+
+export class MpvBackend extends ProcessBackend {
+  readonly name: BackendName = 'mpv';
+  readonly capabilities: BackendCapabilities = { liveVolume: true, audioOutput: true, levels: false };
+  protected readonly command = 'mpv';
+  protected readonly installHint = 'Please install mpv: https://mpv.io/installation/';
+  private ipcPath: string = this.createControlSocketPath();
+
+  protected buildArgs(volume: number): string[] {
+    return [
+      '--no-video',
+      '--no-input-terminal',
+      '--msg-level=all=error',
+      `--input-ipc-server=${this.ipcPath}`,
+      `--volume=${volume}`,
+      '-'
+    ];
+  }
+
+  protected buildClipArgs(): string[] {
+    return ['--no-video', '--no-input-terminal', '--really-quiet', '-'];
+  }
+
+  async setVolume(volume: number): Promise<void> {
+    if (!this.isRunning()) {
+      return;
+    }
+    await this.sendControlLine(this.ipcPath, JSON.stringify({ command: ['set_property', 'volume', volume] }));
+  }
+
+  classifyError(output: string): string | null {
+    if (output.includes('Failed to recognize file format') || output.includes('Errors when loading file')) {
+      return 'STREAM_ERROR';
+    }
+    if (output.includes('Could not open/initialize audio device') || output.includes('Failed to initialize audio driver')) {
+      return 'AUDIO_DEVICE_ERROR';
+    }
+    return null;
+  }
+}
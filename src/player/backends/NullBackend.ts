@@ -0,0 +1,52 @@
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import type { AudioBackend, BackendCapabilities, BackendName } from '../../types/index.js';
+
+/**
+ * Reads the stream and throws the audio away. Useful on headless machines
+ * where only metadata, recording or statistics matter, and in tests.
+ */
+export class NullBackend extends EventEmitter implements AudioBackend {
+  readonly name: BackendName = 'null';
+  readonly capabilities: BackendCapabilities = { liveVolume: true, audioOutput: false, levels: false };
+  private input: Readable | null = null;
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  isRunning(): boolean {
+    return this.input !== null;
+  }
+
+  async start(input: Readable, _volume: number): Promise<void> {
+    this.input = input;
+
+    input.on('data', () => {});
+    input.once('end', () => {
+      if (this.input === input) {
+        this.input = null;
+        this.emit('exit', 0);
+      }
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (this.input) {
+      this.input.removeAllListeners('end');
+      this.input = null;
+    }
+  }
+
+  async setVolume(_volume: number): Promise<void> {
+    // Nothing is audible, so any volume applies immediately
+  }
+
+  async playClip(_clip: Buffer): Promise<void> {
+    // Nothing to hear
+  }
+
+  classifyError(_output: string): string | null {
+    return null;
+  }
+}
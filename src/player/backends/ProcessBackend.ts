@@ -0,0 +1,158 @@
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { checkCommand, createError } from '../../utils/helpers.js';
+import type { AudioBackend, BackendCapabilities, BackendName } from '../../types/index.js';
+
+/**
+ * Shared plumbing for backends that run an external player reading the
+ * encoded stream on stdin. Subclasses supply the command line and decide
+ * which stderr output counts as an error.
+ */
+export abstract class ProcessBackend extends EventEmitter implements AudioBackend {
+  abstract readonly name: BackendName;
+  abstract readonly capabilities: BackendCapabilities;
+  protected abstract readonly command: string;
+  protected abstract readonly installHint: string;
+  protected versionArgs: string[] = ['--version'];
+  protected child: ChildProcess | null = null;
+
+  protected abstract buildArgs(volume: number): string[];
+
+  // Arguments for playing a WAV clip from stdin and exiting at its end
+  protected abstract buildClipArgs(): string[];
+
+  abstract classifyError(output: string): string | null;
+
+  // Lets a backend put a processing stage between the stream and the player
+  protected prepareInput(input: Readable, _volume: number): Readable {
+    return input;
+  }
+
+  protected releaseInput(): void {}
+
+  isAvailable(): Promise<boolean> {
+    return checkCommand(this.command, this.versionArgs);
+  }
+
+  isRunning(): boolean {
+    return this.child !== null;
+  }
+
+  start(input: Readable, volume: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, this.buildArgs(volume), {
+        stdio: ['pipe', 'ignore', 'pipe'],
+        shell: process.platform === 'win32'
+      });
+      this.child = child;
+
+      // The player closing its stdin on exit is reported through 'exit'
+      child.stdin!.on('error', () => {});
+      this.prepareInput(input, volume).pipe(child.stdin!);
+
+      child.stderr!.on('data', (data: Buffer) => {
+        const output = data.toString();
+        const code = this.classifyError(output);
+        if (code) {
+          this.emit('error', { code, message: output.trim() });
+        }
+      });
+
+      child.once('spawn', () => resolve());
+
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        if (this.child === child) {
+          this.child = null;
+        }
+
+        if (error.code === 'ENOENT') {
+          reject(createError('BACKEND_NOT_FOUND', `${this.command} not found. ${this.installHint}`));
+        } else {
+          this.emit('error', { code: 'PROCESS_ERROR', message: error.message });
+        }
+      });
+
+      child.on('exit', (code: number | null) => {
+        if (this.child === child) {
+          this.child = null;
+          this.releaseInput();
+          this.emit('exit', code);
+        }
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    const child = this.child;
+    if (!child) {
+      return;
+    }
+    this.child = null;
+    this.releaseInput();
+
+    return new Promise((resolve) => {
+      child.once('exit', () => resolve());
+      child.kill('SIGTERM');
+
+      setTimeout(() => {
+        if (child.exitCode === null && child.signalCode === null) {
+          child.kill('SIGKILL');
+        }
+      }, 2000);
+    });
+  }
+
+  // The clip gets a player process of its own, so it plays over the stream
+  playClip(clip: Buffer): Promise<void> {
+    return new Promise((resolve) => {
+      const child = spawn(this.command, this.buildClipArgs(), {
+        stdio: ['pipe', 'ignore', 'ignore'],
+        shell: process.platform === 'win32'
+      });
+
+      child.stdin!.on('error', () => {});
+      child.once('error', () => resolve());
+      child.once('exit', () => resolve());
+      child.stdin!.end(clip);
+    });
+  }
+
+  async setVolume(_volume: number): Promise<void> {
+    throw createError('UNSUPPORTED', `The ${this.name} backend cannot change volume while playing`);
+  }
+
+  protected createControlSocketPath(): string {
+    if (process.platform === 'win32') {
+      return `\\\\.\\pipe\\lofi-radio-${this.name}-${process.pid}`;
+    }
+    return path.join(os.tmpdir(), `lofi-radio-${this.name}-${process.pid}.sock`);
+  }
+
+  /**
+   * Writes one line to a player's control socket. The player creates the
+   * socket shortly after starting, so early attempts are retried briefly.
+   */
+  protected async sendControlLine(socketPath: string, line: string): Promise<void> {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const sent = await new Promise<boolean>((resolve) => {
+        const socket = net.createConnection(socketPath);
+        socket.once('connect', () => {
+          socket.end(line + '\n');
+          resolve(true);
+        });
+        socket.once('error', () => resolve(false));
+      });
+
+      if (sent) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    throw createError('BACKEND_CONTROL_ERROR', `Could not reach the ${this.name} control socket`);
+  }
+}
@@ -0,0 +1,48 @@
+import { ProcessBackend } from './ProcessBackend.js';
+import type { BackendCapabilities, BackendName } from '../../types/index.js';
+
+// VLC's remote-control interface takes volume on a 0-512 scale, 256 = 100%
+const VLC_FULL_VOLUME = 256;
+
+export class VlcBackend extends ProcessBackend {
+  readonly name: BackendName = 'cvlc';
+  readonly capabilities: BackendCapabilities = { liveVolume: true, audioOutput: true, levels: false };
+  protected readonly command = 'cvlc';
+  protected readonly installHint = 'Please install VLC: https://www.videolan.org/vlc/';
+  private rcPath: string = this.createControlSocketPath();
+
+  protected buildArgs(volume: number): string[] {
+    return [
+      '--intf', 'dummy',
+      '--extraintf', 'oldrc',
+      `--rc-unix=${this.rcPath}`,
+      '--rc-fake-tty',
+      '--no-video',
+      '--quiet',
+      '--play-and-exit',
+      `--volume=${Math.round((volume / 100) * VLC_FULL_VOLUME)}`,
+      '-'
+    ];
+  }
+
+  protected buildClipArgs(): string[] {
+    return ['--intf', 'dummy', '--no-video', '--quiet', '--play-and-exit', '-'];
+  }
+
+  async setVolume(volume: number): Promise<void> {
+    if (!this.isRunning()) {
+      return;
+    }
+    await this.sendControlLine(this.rcPath, `volume ${Math.round((volume / 100) * VLC_FULL_VOLUME)}`);
+  }
+
+  classifyError(output: string): string | null {
+    if (output.includes('cannot open') || output.includes('no suitable demux')) {
+      return 'STREAM_ERROR';
+    }
+    if (output.includes('audio output failed') || output.includes('no suitable audio output')) {
+      return 'AUDIO_DEVICE_ERROR';
+    }
+    return null;
+  }
+}
@@ -0,0 +1,73 @@
+import { FFplayBackend } from './FFplayBackend.js';
+import { MpvBackend } from './MpvBackend.js';
+import { VlcBackend } from './VlcBackend.js';
+import { NullBackend } from './NullBackend.js';
+import { createError } from '../../utils/helpers.js';
+import type { AudioBackend, BackendName } from '../../types/index.js';
+
+export const BACKEND_NAMES: BackendName[] = ['ffplay', 'mpv', 'cvlc', 'null'];
+
+// Probed in this order by auto-detection. The null backend plays nothing,
+// so it is only used when asked for explicitly.
+const DETECTION_ORDER: BackendName[] = ['ffplay', 'mpv', 'cvlc'];
+
+export const isBackendName = (name: string): name is BackendName => {
+  return (BACKEND_NAMES as string[]).includes(name);
+};
+
+export const createBackend = (name: BackendName): AudioBackend => {
+  switch (name) {
+    case 'ffplay':
+      return new FFplayBackend();
+    case 'mpv':
+      return new MpvBackend();
+    case 'cvlc':
+      return new VlcBackend();
+    case 'null':
+      return new NullBackend();
+  }
+};
+
+export const getBackendAvailability = async (): Promise<Record<BackendName, boolean>> => {
+  const results = await Promise.all(
+    BACKEND_NAMES.map(async name => [name, await createBackend(name).isAvailable()] as const)
+  );
+  return Object.fromEntries(results) as Record<BackendName, boolean>;
+};
+
+export const detectBackend = async (): Promise<AudioBackend> => {
+  for (const name of DETECTION_ORDER) {
+    const backend = createBackend(name);
+    if (await backend.isAvailable()) {
+      return backend;
+    }
+  }
+
+  throw createError(
+    'BACKEND_NOT_FOUND',
+    'No audio backend found. Please install ffmpeg (ffplay), mpv or VLC (cvlc)'
+  );
+};
+
+/**
+ * Picks the backend for a preference from `--backend` or the config.
+ * `auto` (or nothing) runs detection; a named backend must be installed.
+ */
+export const resolveBackend = async (preference?: string | null): Promise<AudioBackend> => {
+  if (!preference || preference === 'auto') {
+    return detectBackend();
+  }
+
+  if (!isBackendName(preference)) {
+    throw createError(
+      'INVALID_BACKEND',
+      `Unknown backend "${preference}" (expected auto, ${BACKEND_NAMES.join(', ')})`
+    );
+  }
+
+  const backend = createBackend(preference);
+  if (!(await backend.isAvailable())) {
+    throw createError('BACKEND_NOT_FOUND', `The ${preference} backend is not installed`);
+  }
+  return backend;
+};
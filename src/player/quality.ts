@@ -0,0 +1,67 @@
+import type { QualityPreference, QualityTier, Station } from '../types/index.js';
+
+// Lowest first, so a tier's index doubles as its rank
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high'];
+
+export const QUALITY_PREFERENCES: QualityPreference[] = [...QUALITY_TIERS, 'auto'];
+
+export const isQualityPreference = (value: string): value is QualityPreference => {
+  return (QUALITY_PREFERENCES as string[]).includes(value);
+};
+
+// The tiers a station offers, lowest first. Every station has a high tier.
+export const getAvailableTiers = (station: Station): QualityTier[] => {
+  const tiers = new Set<QualityTier>(['high']);
+  (station.variants || []).forEach(variant => tiers.add(variant.tier));
+  return QUALITY_TIERS.filter(tier => tiers.has(tier));
+};
+
+/**
+ * The tier to play when `wanted` is asked for: that tier if the station has
+ * it, otherwise the closest one below, otherwise the closest one above.
+ */
+export const resolveTier = (station: Station, wanted: QualityTier): QualityTier => {
+  const available = getAvailableTiers(station);
+  const rank = QUALITY_TIERS.indexOf(wanted);
+  const below = available.filter(tier => QUALITY_TIERS.indexOf(tier) <= rank);
+  return below.length > 0 ? below[below.length - 1] : available[0];
+};
+
+// The next tier down (or up) that the station offers, if any
+export const stepTier = (station: Station, tier: QualityTier, direction: -1 | 1): QualityTier | null => {
+  const available = getAvailableTiers(station);
+  const next = available[available.indexOf(tier) + direction];
+  return next ?? null;
+};
+
+/**
+ * URLs to try for a tier, in order. Mirrors only exist for the station's
+ * main stream, so they come with the high tier.
+ */
+export const getStreamUrls = (station: Station, tier: QualityTier = 'high'): string[] => {
+  const variant = station.variants?.find(candidate => candidate.tier === tier);
+  if (tier !== 'high' && variant) {
+    return [variant.url];
+  }
+  return [station.url, ...(station.mirrors || [])];
+};
+
+// e.g. "64kbps AAC" for a variant that says so, or just the tier name
+export const getTierLabel = (station: Station, tier: QualityTier): string => {
+  if (tier === 'high') {
+    return station.quality;
+  }
+  return station.variants?.find(candidate => candidate.tier === tier)?.quality || tier;
+};
+
+// e.g. "medium • 128kbps MP3 (auto)", for status displays
+export const describeQuality = (station: Station, tier: QualityTier, mode: QualityPreference): string => {
+  // Tiers mean nothing for a station with a single stream
+  if (getAvailableTiers(station).length === 1) {
+    return station.quality;
+  }
+
+  const label = getTierLabel(station, tier);
+  const name = label === tier ? tier : `${tier} • ${label}`;
+  return mode === 'auto' ? `${name} (auto)` : name;
+};
@@ -0,0 +1,168 @@
+import path from 'path';
+import { getStations } from '../config/stations.js';
+import { addUserStation, validateStationUrl } from '../config/library.js';
+import { createError, formatUptime, slugify } from '../utils/helpers.js';
+import { parseM3U, serializeM3U } from './m3u.js';
+import { parsePLS, serializePLS } from './pls.js';
+import { parseXSPF, serializeXSPF } from './xspf.js';
+import type { PlaylistEntry, PlaylistFormat, Station } from '../types/index.js';
+
+export const PLAYLIST_FORMATS: PlaylistFormat[] = ['m3u', 'pls', 'xspf', 'json'];
+
+export interface ImportPlan {
+  additions: Station[];
+  duplicates: { entry: PlaylistEntry; existing?: Station }[];
+  invalid: { entry: PlaylistEntry; reason: string }[];
+}
+
+export const detectFormat = (file: string, content: string): PlaylistFormat => {
+  const extension = path.extname(file).toLowerCase().replace('.', '');
+  if (extension === 'm3u8') {
+    return 'm3u';
+  }
+  if ((PLAYLIST_FORMATS as string[]).includes(extension)) {
+    return extension as PlaylistFormat;
+  }
+
+  const head = content.trimStart().slice(0, 200).toLowerCase();
+  if (head.startsWith('[playlist]')) {
+    return 'pls';
+  }
+  if (head.startsWith('<?xml') || head.startsWith('<playlist')) {
+    return 'xspf';
+  }
+  if (head.startsWith('[') || head.startsWith('{')) {
+    return 'json';
+  }
+  return 'm3u';
+};
+
+const parseJSON = (content: string): PlaylistEntry[] => {
+  const data = JSON.parse(content);
+  const list: any[] = Array.isArray(data) ? data : data.stations;
+
+  if (!Array.isArray(list)) {
+    throw createError('INVALID_PLAYLIST', 'JSON playlist must be an array of stations or { "stations": [...] }');
+  }
+
+  return list
+    .filter(item => item && typeof item.url === 'string')
+    .map(item => ({
+      url: item.url,
+      title: item.name || item.title,
+      genre: item.genre,
+      description: item.description,
+      quality: item.quality
+    }));
+};
+
+export const parsePlaylist = (content: string, format: PlaylistFormat): PlaylistEntry[] => {
+  // Files saved on Windows often start with a byte order mark, which JSON.parse rejects
+  const text = content.replace(/^\uFEFF/, '');
+  switch (format) {
+    case 'm3u':
+      return parseM3U(text);
+    case 'pls':
+      return parsePLS(text);
+    case 'xspf':
+      return parseXSPF(text);
+    case 'json':
+      return parseJSON(text);
+  }
+};
+
+export const serializePlaylist = (stations: Station[], format: PlaylistFormat): string => {
+  switch (format) {
+    case 'm3u':
+      return serializeM3U(stations);
+    case 'pls':
+      return serializePLS(stations);
+    case 'xspf':
+      return serializeXSPF(stations);
+    case 'json':
+      return JSON.stringify(stations, null, 2) + '\n';
+  }
+};
+
+const normalizeUrl = (url: string): string => {
+  return url.trim().replace(/\/+$/, '').toLowerCase();
+};
+
+// Streams rarely say what they are, but URLs and titles like
+// `groovesalad-256-mp3` or "Jazz (128k AAC)" usually do
+const guessQuality = (entry: PlaylistEntry): string => {
+  const text = `${entry.title || ''} ${entry.url}`;
+  const bitrate = text.match(/(\d{2,3})\s*-?k(?:bps|b)?\b/i) || entry.url.match(/[-_/](\d{2,3})(?=[-_.](?:mp3|aac|ogg|opus))/i);
+  const codec = text.match(/\b(mp3|aac|ogg|opus|flac)\b/i);
+
+  if (!bitrate && !codec) {
+    return 'Unknown';
+  }
+
+  return [bitrate ? `${bitrate[1]}kbps` : null, codec ? codec[1].toUpperCase() : null]
+    .filter(Boolean)
+    .join(' ');
+};
+
+const entryToStation = (entry: PlaylistEntry, takenIds: Set<string>): Station => {
+  const name = entry.title || new URL(entry.url).hostname;
+  const base = slugify(name);
+
+  let id = base;
+  for (let n = 2; takenIds.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  takenIds.add(id);
+
+  const description = entry.description
+    || (entry.duration ? `Duration: ${formatUptime(Math.round(entry.duration))}` : '');
+
+  return {
+    id,
+    name,
+    url: entry.url.trim(),
+    genre: entry.genre || 'Custom',
+    description,
+    quality: entry.quality || guessQuality(entry)
+  };
+};
+
+/**
+ * Works out what importing the entries would do without touching the
+ * config: which stations would be added, and which entries are skipped as
+ * duplicates (of the catalog or of an earlier entry) or invalid.
+ */
+export const planImport = (entries: PlaylistEntry[]): ImportPlan => {
+  const catalog = getStations();
+  const knownUrls = new Map(catalog.map(station => [normalizeUrl(station.url), station]));
+  const takenIds = new Set(catalog.map(station => station.id));
+  const plan: ImportPlan = { additions: [], duplicates: [], invalid: [] };
+
+  entries.forEach(entry => {
+    try {
+      validateStationUrl(entry.url.trim());
+    } catch (error: any) {
+      plan.invalid.push({ entry, reason: error.message });
+      return;
+    }
+
+    const key = normalizeUrl(entry.url);
+    if (knownUrls.has(key)) {
+      plan.duplicates.push({ entry, existing: knownUrls.get(key) });
+      return;
+    }
+
+    const station = entryToStation(entry, takenIds);
+    knownUrls.set(key, station);
+    plan.additions.push(station);
+  });
+
+  return plan;
+};
+
+export const applyImport = (plan: ImportPlan): Station[] => {
+  return plan.additions.map(station => {
+    const { id, url, ...fields } = station;
+    return addUserStation(id, url, fields);
+  });
+};
@@ -0,0 +1,57 @@
+import type { PlaylistEntry, Station } from '../types/index.js';
+
+const EXTINF_PATTERN = /^#EXTINF:\s*(-?\d+(?:\.\d+)?)((?:\s+[\w-]+="[^"]*")*)\s*,(.*)$/i;
+const ATTRIBUTE_PATTERN = /([\w-]+)="([^"]*)"/g;
+
+/**
+ * Parses plain and extended M3U. `#EXTINF` titles and durations are kept,
+ * along with the `group-title` attribute and `#EXTGENRE` lines that most
+ * radio players use for genres.
+ */
+export const parseM3U = (content: string): PlaylistEntry[] => {
+  const entries: PlaylistEntry[] = [];
+  let pending: Omit<PlaylistEntry, 'url'> = {};
+
+  content.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) {
+      return;
+    }
+
+    if (line.startsWith('#')) {
+      const extinf = line.match(EXTINF_PATTERN);
+      if (extinf) {
+        const duration = parseFloat(extinf[1]);
+        const attributes = Object.fromEntries(
+          Array.from(extinf[2].matchAll(ATTRIBUTE_PATTERN), match => [match[1].toLowerCase(), match[2]])
+        );
+
+        pending.title = extinf[3].trim() || undefined;
+        pending.duration = duration > 0 ? duration : undefined;
+        pending.genre = attributes['group-title'] || attributes['tvg-genre'] || pending.genre;
+        pending.description = attributes['tvg-description'] || pending.description;
+      } else if (/^#EXTGENRE:/i.test(line)) {
+        pending.genre = line.slice(line.indexOf(':') + 1).trim();
+      } else if (/^#EXTALB:/i.test(line)) {
+        pending.description = line.slice(line.indexOf(':') + 1).trim();
+      }
+      return;
+    }
+
+    entries.push({ ...pending, url: line });
+    pending = {};
+  });
+
+  return entries;
+};
+
+export const serializeM3U = (stations: Station[]): string => {
+  const lines = ['#EXTM3U'];
+
+  stations.forEach(station => {
+    lines.push(`#EXTINF:-1 group-title="${station.genre.replace(/"/g, "'")}",${station.name}`);
+    lines.push(station.url);
+  });
+
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,57 @@
+import type { PlaylistEntry, Station } from '../types/index.js';
+
+/**
+ * Parses PLS playlists (`File1=`, `Title1=`, `Length1=` ...). Entries are
+ * returned in index order regardless of the order of the keys in the file.
+ */
+export const parsePLS = (content: string): PlaylistEntry[] => {
+  const byIndex = new Map<number, Partial<PlaylistEntry>>();
+
+  content.split(/\r?\n/).forEach(rawLine => {
+    const match = rawLine.trim().match(/^(File|Title|Length)(\d+)\s*=\s*(.*)$/i);
+    if (!match) {
+      return;
+    }
+
+    const index = parseInt(match[2], 10);
+    const entry = byIndex.get(index) || {};
+    const value = match[3].trim();
+
+    switch (match[1].toLowerCase()) {
+      case 'file':
+        entry.url = value;
+        break;
+      case 'title':
+        entry.title = value || undefined;
+        break;
+      case 'length': {
+        const length = parseInt(value, 10);
+        entry.duration = length > 0 ? length : undefined;
+        break;
+      }
+    }
+
+    byIndex.set(index, entry);
+  });
+
+  return Array.from(byIndex.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, entry]) => entry)
+    .filter((entry): entry is PlaylistEntry => Boolean(entry.url));
+};
+
+export const serializePLS = (stations: Station[]): string => {
+  const lines = ['[playlist]'];
+
+  stations.forEach((station, index) => {
+    const n = index + 1;
+    lines.push(`File${n}=${station.url}`);
+    lines.push(`Title${n}=${station.name}`);
+    lines.push(`Length${n}=-1`);
+  });
+
+  lines.push(`NumberOfEntries=${stations.length}`);
+  lines.push('Version=2');
+
+  return lines.join('\n') + '\n';
+};
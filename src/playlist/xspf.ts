@@ -0,0 +1,77 @@
+import type { PlaylistEntry, Station } from '../types/index.js';
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const unescapeXml = (text: string): string => {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+const readElement = (xml: string, name: string): string | undefined => {
+  const match = xml.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'i'));
+  return match ? unescapeXml(match[1].trim()) || undefined : undefined;
+};
+
+const readMeta = (xml: string, rel: string): string | undefined => {
+  const pattern = new RegExp(`<meta\\s+rel="[^"]*#${rel}"\\s*>([\\s\\S]*?)</meta>`, 'i');
+  const match = xml.match(pattern);
+  return match ? unescapeXml(match[1].trim()) || undefined : undefined;
+};
+
+/**
+ * Reads the `<track>` entries of an XSPF playlist. Only the handful of
+ * elements that map onto a station are looked at, so a full XML parser is
+ * not needed. Genre and quality round-trip through `<meta>` elements.
+ */
+export const parseXSPF = (content: string): PlaylistEntry[] => {
+  const tracks = content.match(/<track(?:\s[^>]*)?>[\s\S]*?<\/track>/gi) || [];
+
+  return tracks
+    .map(track => {
+      const duration = parseInt(readElement(track, 'duration') || '', 10);
+      return {
+        url: readElement(track, 'location') || '',
+        title: readElement(track, 'title'),
+        duration: duration > 0 ? Math.round(duration / 1000) : undefined,
+        genre: readMeta(track, 'genre') || readElement(track, 'album'),
+        description: readElement(track, 'annotation'),
+        quality: readMeta(track, 'quality')
+      };
+    })
+    .filter(entry => entry.url);
+};
+
+export const serializeXSPF = (stations: Station[]): string => {
+  const tracks = stations.map(station => [
+    '    <track>',
+    `      <location>${escapeXml(station.url)}</location>`,
+    `      <title>${escapeXml(station.name)}</title>`,
+    `      <annotation>${escapeXml(station.description)}</annotation>`,
+    `      <meta rel="https://github.com/AmigosKazz/Lofi-Radio-in-terminal#genre">${escapeXml(station.genre)}</meta>`,
+    `      <meta rel="https://github.com/AmigosKazz/Lofi-Radio-in-terminal#quality">${escapeXml(station.quality)}</meta>`,
+    '    </track>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    '  <title>Lofi Radio Stations</title>',
+    '  <trackList>',
+    ...tracks,
+    '  </trackList>',
+    '</playlist>',
+    ''
+  ].join('\n');
+};
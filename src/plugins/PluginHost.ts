@@ -0,0 +1,241 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import type Conf from 'conf';
+import { getConfigDir } from '../config/store.js';
+import { addPluginStations } from '../config/stations.js';
+import { buildStation } from '../config/library.js';
+import { createError } from '../utils/helpers.js';
+import type { CommandRegistry } from '../commands/registry.js';
+import type {
+  Config,
+  PluginApi,
+  PluginEventName,
+  PluginInfo,
+  RadioCommand,
+  RadioPlugin,
+  Station,
+  StationProvider
+} from '../types/index.js';
+
+// Bumped whenever PluginApi changes in a way existing plugins would notice
+export const PLUGIN_API_VERSION = 1;
+
+export const PLUGIN_EVENTS: PluginEventName[] = [
+  'playing', 'stopped', 'error', 'reconnecting', 'connection_lost', 'metadata', 'quality_changed', 'sleep_warning', 'sleep_expired'
+];
+
+// Commands that look up stations wait for plugins to load, so a hanging setup() or provider must not hold them up for long
+const PLUGIN_TIMEOUT_MS = 5000;
+const MODULE_EXTENSIONS = ['.js', '.mjs'];
+
+interface Subscription {
+  plugin: PluginInfo;
+  event: PluginEventName;
+  listener: (...args: any[]) => void | Promise<void>;
+}
+
+export const getPluginDir = (): string => {
+  return path.join(getConfigDir(), 'plugins');
+};
+
+const withTimeout = <T>(work: () => T | Promise<T>, what: string): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(createError('PLUGIN_TIMEOUT', `${what} took longer than ${PLUGIN_TIMEOUT_MS / 1000}s`));
+    }, PLUGIN_TIMEOUT_MS);
+    // Runs inside the promise so a synchronous throw becomes a rejection too
+    Promise.resolve().then(work).then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+};
+
+// Files and folders in the plugin directory; node_modules holds the npm packages listed in the config instead
+const findLocalPlugins = (dir: string): string[] => {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => !entry.name.startsWith('.') && entry.name !== 'node_modules')
+    .filter(entry => entry.isDirectory() || (entry.isFile() && MODULE_EXTENSIONS.includes(path.extname(entry.name))))
+    .map(entry => path.join(dir, entry.name))
+    .sort();
+};
+
+// A folder plugin starts at its package.json "main", or index.js
+const resolveLocalPlugin = (pluginPath: string): string => {
+  if (!fs.statSync(pluginPath).isDirectory()) {
+    return pluginPath;
+  }
+  const manifest = path.join(pluginPath, 'package.json');
+  const main = fs.existsSync(manifest) ? JSON.parse(fs.readFileSync(manifest, 'utf8')).main : undefined;
+  return path.join(pluginPath, main || 'index.js');
+};
+
+/**
+ * Resolves a plugin listed in the config: a path (relative to the plugin
+ * directory), or an npm package installed in the plugin directory or
+ * alongside radio itself.
+ */
+const resolvePluginSpec = (spec: string, dir: string): string => {
+  if (spec.startsWith('.') || path.isAbsolute(spec)) {
+    return path.resolve(dir, spec);
+  }
+
+  const lookups = [createRequire(path.join(dir, 'package.json')), createRequire(import.meta.url)];
+  for (const lookup of lookups) {
+    try {
+      return lookup.resolve(spec);
+    } catch {
+      // Try the next place
+    }
+  }
+  throw createError('PLUGIN_NOT_FOUND', `Cannot find package "${spec}" (install it with "npm install --prefix ${dir} ${spec}")`);
+};
+
+/**
+ * Loads plugins and keeps track of what each contributed. A plugin is an
+ * ES module whose default export is a RadioPlugin; its setup() gets a
+ * PluginApi to register commands, add stations and listen to the player.
+ *
+ * Nothing a plugin does can take the radio down: a plugin that fails to
+ * load is reported and skipped, and its event listeners are isolated, so
+ * a throw or rejection there is reported while playback carries on.
+ *
+ * Emits `failed` (PluginInfo, Error) when a plugin fails to load or a
+ * listener throws, and `log` (PluginInfo, message) for api.log().
+ */
+export class PluginHost extends EventEmitter {
+  private registry: CommandRegistry;
+  private config: Conf<Config>;
+  private plugins: PluginInfo[] = [];
+  private subscriptions: Subscription[] = [];
+
+  constructor(registry: CommandRegistry, config: Conf<Config>) {
+    super();
+    this.registry = registry;
+    this.config = config;
+  }
+
+  async load(): Promise<void> {
+    const dir = getPluginDir();
+    const sources: { source: string; resolve: () => string }[] = [
+      ...findLocalPlugins(dir).map(file => ({ source: file, resolve: () => resolveLocalPlugin(file) })),
+      ...(this.config.get('plugins') || []).map(spec => ({ source: spec, resolve: () => resolvePluginSpec(spec, dir) }))
+    ];
+
+    // One at a time, so which plugin wins a station id or command name doesn't depend on timing
+    for (const { source, resolve } of sources) {
+      await this.loadPlugin(source, resolve);
+    }
+  }
+
+  getPlugins(): PluginInfo[] {
+    return this.plugins.map(plugin => ({ ...plugin }));
+  }
+
+  // Called by the daemon with its StreamPlayer
+  attachPlayer(player: EventEmitter): void {
+    this.subscriptions.forEach(({ plugin, event, listener }) => {
+      player.on(event, (...args: any[]) => {
+        try {
+          Promise.resolve(listener(...args)).catch(error => this.listenerFailed(plugin, event, error));
+        } catch (error) {
+          this.listenerFailed(plugin, event, error);
+        }
+      });
+    });
+  }
+
+  private listenerFailed(plugin: PluginInfo, event: PluginEventName, error: any): void {
+    this.emit('failed', plugin, createError('PLUGIN_ERROR', `"${event}" listener threw: ${error?.message ?? error}`));
+  }
+
+  private async loadPlugin(source: string, resolve: () => string): Promise<void> {
+    const info: PluginInfo = {
+      name: source,
+      version: null,
+      source,
+      state: 'failed',
+      error: null,
+      commands: [],
+      stations: 0,
+      events: []
+    };
+    this.plugins.push(info);
+
+    try {
+      const module = await withTimeout(() => import(pathToFileURL(resolve()).href), 'Loading the module');
+      const plugin: RadioPlugin | undefined = module.default;
+      if (!plugin || typeof plugin.name !== 'string' || typeof plugin.setup !== 'function') {
+        throw createError('INVALID_PLUGIN', 'The default export must be an object with a name and a setup() function');
+      }
+      info.name = plugin.name;
+      info.version = plugin.version ?? null;
+
+      if (plugin.apiVersion !== PLUGIN_API_VERSION) {
+        info.state = 'incompatible';
+        info.error = typeof plugin.apiVersion === 'number'
+          ? `Written for plugin API v${plugin.apiVersion}, but this radio supports v${PLUGIN_API_VERSION}`
+          : `No apiVersion given (this radio supports v${PLUGIN_API_VERSION})`;
+        this.emit('failed', info, createError('PLUGIN_INCOMPATIBLE', info.error));
+        return;
+      }
+
+      // Contributions are held back until setup() succeeds, so a failed plugin leaves nothing behind
+      const commands: RadioCommand[] = [];
+      const stations: Station[] = [];
+      const providers: StationProvider[] = [];
+      const subscriptions: Subscription[] = [];
+
+      const api: PluginApi = {
+        apiVersion: PLUGIN_API_VERSION,
+        config: this.config,
+        registerCommand: command => {
+          commands.push(command);
+        },
+        addStations: added => {
+          stations.push(...added);
+        },
+        addStationProvider: provider => {
+          providers.push(provider);
+        },
+        on: (event, listener) => {
+          if (!PLUGIN_EVENTS.includes(event)) {
+            throw createError('INVALID_PLUGIN_EVENT', `Unknown event "${event}" (expected ${PLUGIN_EVENTS.join(', ')})`);
+          }
+          subscriptions.push({ plugin: info, event, listener });
+        },
+        log: message => {
+          this.emit('log', info, message);
+        }
+      };
+
+      await withTimeout(() => plugin.setup(api), 'setup()');
+      for (const provider of providers) {
+        stations.push(...await withTimeout(provider, 'A station provider'));
+      }
+
+      const names = commands.flatMap(command => [command.name, ...(command.aliases || [])]);
+      const repeated = names.find((name, index) => names.indexOf(name) !== index);
+      if (repeated !== undefined) {
+        throw createError('COMMAND_EXISTS', `Registers "${repeated}" more than once`);
+      }
+      commands.forEach(command => this.registry.check(command));
+      const built = stations.map(station => buildStation(station.id, station.url, station));
+
+      commands.forEach(command => this.registry.register(command));
+      info.commands = commands.map(command => command.name);
+      info.stations = addPluginStations(built);
+      info.events = [...new Set(subscriptions.map(subscription => subscription.event))];
+      this.subscriptions.push(...subscriptions);
+      info.state = 'loaded';
+    } catch (error: any) {
+      info.state = 'failed';
+      info.error = error?.message ?? String(error);
+      this.emit('failed', info, error);
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import fetch from 'node-fetch';
+import { IcyDemuxer, parseStreamTitle } from '../player/IcyDemuxer.js';
+import { createError } from '../utils/helpers.js';
+import type { RecordedTrack, RecordingStatus, Station, StreamError, TrackMetadata } from '../types/index.js';
+
+// Refuse to start when the disk is nearly full rather than failing a minute in
+const MIN_FREE_BYTES = 50 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/aac': 'aac',
+  'audio/aacp': 'aac',
+  'audio/ogg': 'ogg',
+  'application/ogg': 'ogg',
+  'audio/flac': 'flac'
+};
+
+export const getDefaultRecordingDir = (): string => {
+  return path.join(os.homedir(), 'Music', 'lofi-radio');
+};
+
+/**
+ * Saves a station's stream to disk exactly as the server sends it, on a
+ * connection of its own so it works with or without playback. Every ICY
+ * title change starts a new file, and `index.json` plus `index.cue` are
+ * rewritten as tracks go by. The split happens on the byte boundary where
+ * the title changed, which decoders handle but isn't frame-exact.
+ *
+ * Emits `error` (StreamError) when the recording fails and `stopped`
+ * (RecordingStatus) when it ends for any reason.
+ */
+export class StreamRecorder extends EventEmitter {
+  private station: Station;
+  private directory: string;
+  private startedAt: Date = new Date();
+  private endsAt: Date | null = null;
+  private extension: string = 'mp3';
+  private bytes: number = 0;
+  private tracks: RecordedTrack[] = [];
+  private currentRaw: string | null = null;
+  private file: fs.WriteStream | null = null;
+  private abortController: AbortController | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped: boolean = false;
+
+  constructor(station: Station, baseDirectory: string) {
+    super();
+    this.station = station;
+    this.directory = path.join(baseDirectory, `${sanitizeFilename(station.id)}-${formatTimestamp(this.startedAt)}`);
+  }
+
+  /**
+   * Connects and starts writing. With a duration (in milliseconds) the
+   * recording stops by itself.
+   */
+  async start(duration?: number): Promise<void> {
+    const baseDirectory = path.dirname(this.directory);
+    fs.mkdirSync(baseDirectory, { recursive: true });
+    checkFreeSpace(baseDirectory);
+
+    this.abortController = new AbortController();
+    const response = await fetch(this.station.url, {
+      headers: { 'Icy-MetaData': '1' },
+      signal: this.abortController.signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw createError('STREAM_ERROR', `Stream responded with HTTP ${response.status}`);
+    }
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim();
+    this.extension = EXTENSIONS[contentType] || 'mp3';
+    fs.mkdirSync(this.directory, { recursive: true });
+
+    const body = response.body as unknown as Readable;
+    const metaint = parseInt(response.headers.get('icy-metaint') || '', 10);
+    let audio: Readable = body;
+
+    if (metaint > 0) {
+      const demuxer = new IcyDemuxer(metaint);
+      demuxer.on('metadata', (block: string) => {
+        const track = parseStreamTitle(block);
+        if (track && track.raw !== this.currentRaw) {
+          this.startTrack(track);
+        }
+      });
+      body.on('error', (error: Error) => demuxer.destroy(error));
+      audio = body.pipe(demuxer);
+    }
+
+    this.startTrack(null);
+
+    audio.on('data', (chunk: Buffer) => this.write(chunk));
+    audio.on('error', (error: Error) => {
+      if (!this.stopped) {
+        this.fail({ code: 'NETWORK_ERROR', message: error.message, station: this.station });
+      }
+    });
+    audio.on('end', () => this.stop());
+
+    if (duration) {
+      this.endsAt = new Date(this.startedAt.getTime() + duration);
+      this.timer = setTimeout(() => this.stop(), duration);
+    }
+  }
+
+  async stop(): Promise<RecordingStatus> {
+    if (this.stopped) {
+      return this.getStatus();
+    }
+    this.stopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+
+    await this.closeFile();
+
+    // A title change right before stopping leaves an empty file behind
+    const last = this.currentTrack();
+    if (last && last.bytes === 0 && this.tracks.length > 1) {
+      fs.rmSync(path.join(this.directory, last.file), { force: true });
+      this.tracks.pop();
+    }
+    this.writeIndex();
+
+    const status = this.getStatus();
+    this.emit('stopped', status);
+    return status;
+  }
+
+  getStatus(): RecordingStatus {
+    return {
+      station: this.station,
+      directory: this.directory,
+      startedAt: this.startedAt.toISOString(),
+      endsAt: this.endsAt ? this.endsAt.toISOString() : null,
+      elapsed: Math.floor((Date.now() - this.startedAt.getTime()) / 1000),
+      bytes: this.bytes,
+      tracks: this.tracks.length
+    };
+  }
+
+  private currentTrack(): RecordedTrack | undefined {
+    return this.tracks[this.tracks.length - 1];
+  }
+
+  // Audio before the first title goes to a file named after the station
+  private startTrack(track: TrackMetadata | null): void {
+    if (this.stopped) {
+      return;
+    }
+
+    const previous = this.file;
+    if (previous) {
+      previous.end();
+    }
+
+    this.currentRaw = track ? track.raw : null;
+    const number = String(this.tracks.length + 1).padStart(2, '0');
+    const label = track
+      ? [track.artist, track.title].filter(Boolean).join(' - ')
+      : this.station.name;
+    const file = `${number} - ${sanitizeFilename(label) || 'Untitled'}.${this.extension}`;
+
+    this.tracks.push({
+      file,
+      artist: track?.artist,
+      title: track ? track.title : this.station.name,
+      startedAt: new Date().toISOString(),
+      offset: Math.floor((Date.now() - this.startedAt.getTime()) / 1000),
+      bytes: 0
+    });
+
+    this.file = fs.createWriteStream(path.join(this.directory, file));
+    this.file.on('error', (error: NodeJS.ErrnoException) => {
+      this.fail({
+        code: error.code === 'ENOSPC' ? 'DISK_FULL' : 'RECORD_WRITE_ERROR',
+        message: error.code === 'ENOSPC' ? `Disk full while recording to ${this.directory}` : error.message,
+        station: this.station
+      });
+    });
+
+    if (this.tracks.length > 1) {
+      this.writeIndex();
+    }
+  }
+
+  private write(chunk: Buffer): void {
+    const track = this.currentTrack();
+    if (!this.file || !track || this.stopped) {
+      return;
+    }
+
+    this.file.write(chunk);
+    this.bytes += chunk.length;
+    track.bytes += chunk.length;
+  }
+
+  private closeFile(): Promise<void> {
+    const file = this.file;
+    this.file = null;
+    if (!file || file.destroyed) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => file.end(() => resolve()));
+  }
+
+  private fail(error: StreamError): void {
+    if (this.stopped) {
+      return;
+    }
+    this.emit('error', error);
+    this.stop();
+  }
+
+  private writeIndex(): void {
+    const index = {
+      station: this.station.name,
+      url: this.station.url,
+      startedAt: this.startedAt.toISOString(),
+      bytes: this.bytes,
+      tracks: this.tracks
+    };
+
+    try {
+      fs.writeFileSync(path.join(this.directory, 'index.json'), JSON.stringify(index, null, 2) + '\n');
+      fs.writeFileSync(path.join(this.directory, 'index.cue'), buildCueSheet(this.station, this.tracks, this.extension));
+    } catch {
+      // The audio files matter more than the index, so keep recording without it
+    }
+  }
+}
+
+const sanitizeFilename = (text: string): string => {
+  return text
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[.\s]+|[.\s]+$/g, '')
+    .slice(0, 120);
+};
+
+const formatTimestamp = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+const checkFreeSpace = (directory: string): void => {
+  let free: number;
+  try {
+    const stats = fs.statfsSync(directory);
+    free = stats.bavail * stats.bsize;
+  } catch {
+    return;
+  }
+
+  if (free < MIN_FREE_BYTES) {
+    throw createError('DISK_FULL', `Not enough free space to record in ${directory}`);
+  }
+};
+
+const quoteCue = (text: string): string => `"${text.replace(/"/g, "'")}"`;
+
+const CUE_FILE_TYPES: Record<string, string> = { mp3: 'MP3', aac: 'AAC', ogg: 'OGG', flac: 'FLAC' };
+
+// One FILE per track, since the recording is already split on track changes
+const buildCueSheet = (station: Station, tracks: RecordedTrack[], extension: string): string => {
+  const lines = [`PERFORMER ${quoteCue(station.name)}`, `TITLE ${quoteCue(`${station.name} recording`)}`];
+
+  tracks.forEach((track, index) => {
+    lines.push(`FILE ${quoteCue(track.file)} ${CUE_FILE_TYPES[extension] || 'MP3'}`);
+    lines.push(`  TRACK ${String(index + 1).padStart(2, '0')} AUDIO`);
+    lines.push(`    TITLE ${quoteCue(track.title)}`);
+    if (track.artist) {
+      lines.push(`    PERFORMER ${quoteCue(track.artist)}`);
+    }
+    lines.push('    INDEX 01 00:00:00');
+  });
+
+  return lines.join('\n') + '\n';
+};
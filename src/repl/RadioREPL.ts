@@ -1,7 +1,29 @@
 import readline from 'readline';
 import chalk from 'chalk';
-import { StreamPlayer } from '../player/StreamPlayer.js';
-import { stations, getStationById, getStationByName } from '../config/stations.js';
+import { DaemonClient } from '../daemon/DaemonClient.js';
+import {
+    getStations,
+    getStationById,
+    getStationByName,
+    isBuiltinStation,
+    isUserStation
+} from '../config/stations.js';
+import {
+    addUserStation,
+    editUserStation,
+    removeUserStation,
+    renameUserStation
+} from '../config/library.js';
+import type { StationFields } from '../config/library.js';
+import {
+    getFavoriteStations,
+    isFavorite,
+    addFavorite,
+    removeFavorite,
+    moveFavorite,
+    isFavoriteSelector,
+    resolveFavoriteSelector
+} from '../config/favorites.js';
 import {
     formatStation,
     formatError,
@@ -10,26 +32,121 @@ import {
     formatMusic,
     formatControl,
     createSpinner,
-    validateVolume,
-    clearConsole
+    resolveVolume,
+    clearConsole,
+    formatMetadata,
+    truncate,
+    splitArgs,
+    parseDuration,
+    formatCountdown,
+    formatReconnect,
+    formatFocus,
+    formatUptime,
+    formatBytes
 } from '../utils/helpers.js';
-import type { Station, Config } from '../types/index.js';
+import path from 'path';
+import { readTrackHistory, filterTrackHistory, formatTrackName } from '../history/tracks.js';
+import { describeQuality, getTierLabel } from '../player/quality.js';
+import { searchDirectory, directoryToStation, describeDirectoryStation } from '../directory/index.js';
+import { Visualizer, isVisualizerMode, getVisualizerFrameRate } from '../tui/Visualizer.js';
+import { DEFAULT_FOCUS_BREAK, DEFAULT_FOCUS_CYCLES, DEFAULT_FOCUS_WORK } from '../focus/FocusTimer.js';
+import { commandRegistry } from '../commands/registry.js';
+import type {
+    AudioLevels,
+    BackendName,
+    CommandContext,
+    CommandDefinition,
+    Station,
+    Config,
+    DirectorySearchResult,
+    DirectoryStation,
+    FocusSessionRecord,
+    FocusStatus,
+    TrackMetadata,
+    QualityChange,
+    QualityPreference,
+    QualityTier,
+    ReconnectInfo,
+    RecordingStatus,
+    StreamError,
+    VisualizerMode
+} from '../types/index.js';
 import Conf from 'conf';
 
+interface HelpForm {
+    cmd: string;
+    desc: string;
+    example: string;
+}
+
+// REPL-only ways to use a command, listed under it in help
+const HELP_FORMS: Record<string, HelpForm[]> = {
+    play: [
+        { cmd: 'play <n>', desc: 'Play the n-th station in the list', example: 'play 1' },
+        { cmd: 'play fav[:random|:n]', desc: 'Play your first, a random or the n-th favorite', example: 'play fav:random' }
+    ],
+    record: [
+        { cmd: 'record [station] [duration=] [out=]', desc: 'Stop after a while, or save somewhere else', example: 'record soma-deep duration=1h' },
+        { cmd: 'record stop', desc: 'Finish the current recording', example: 'record stop' }
+    ],
+    stations: [
+        { cmd: 'stations add <id> <url>', desc: 'Add a station to your library', example: 'stations add team-radio http://radio.local/stream name="Team Radio"' },
+        { cmd: 'stations edit <id>', desc: 'Edit a station (name, url, genre, description, quality)', example: 'stations edit team-radio genre=Jazz' },
+        { cmd: 'stations remove <id>', desc: 'Remove a station from your library', example: 'stations remove team-radio' },
+        { cmd: 'stations rename <id> <new>', desc: 'Change the id of a station in your library', example: 'stations rename team-radio office' }
+    ],
+    search: [
+        { cmd: 'search play|save <n>', desc: 'Play a search result, or add it to your stations', example: 'search play 2' }
+    ],
+    fav: [
+        { cmd: 'fav [list]', desc: 'List favorite stations', example: 'fav' },
+        { cmd: 'fav add <station>', desc: 'Add a station to your favorites', example: 'fav add soma-lush' },
+        { cmd: 'fav remove <station>', desc: 'Remove a station from your favorites', example: 'fav remove soma-lush' },
+        { cmd: 'fav move <station> <n>', desc: 'Move a favorite to position n', example: 'fav move soma-lush 1' }
+    ],
+    tracks: [
+        { cmd: 'tracks [search]', desc: 'Only tracks whose artist, title or station contains the text', example: 'tracks nujabes' }
+    ],
+    sleep: [
+        { cmd: 'sleep <duration> fade=<d>', desc: 'Fade out over the last part of the sleep timer', example: 'sleep 1h fade=10m' },
+        { cmd: 'sleep off', desc: 'Cancel the sleep timer', example: 'sleep off' }
+    ],
+    focus: [
+        { cmd: 'focus [station] work= break= cycles=', desc: 'Set the block lengths (minutes) and count, and a station for breaks', example: 'focus soma-deep work=50 break=10 cycles=2 break-station=soma-lush' },
+        { cmd: 'focus off', desc: 'End the focus session', example: 'focus off' }
+    ]
+};
+
+// Rows kept at the bottom of the terminal for each visualizer mode, below a rule
+const VISUALIZER_ROWS: Record<VisualizerMode, number> = { bars: 6, meter: 2 };
+
 export class RadioREPL {
     private rl: readline.Interface;
-    private player: StreamPlayer;
+    private client: DaemonClient;
     private config: Conf<Config>;
+    private backend: BackendName;
     private isPlaying: boolean = false;
     private currentStation: Station | null = null;
+    private currentTrack: TrackMetadata | null = null;
+    private sleepEndsAt: Date | null = null;
+    private quality: QualityTier | null = null;
+    private qualityMode: QualityPreference = 'auto';
+    private searchResults: DirectoryStation[] = [];
+    private focus: FocusStatus | null = null;
+    private visualizer: Visualizer | null = null;
+    private visualizerMode: VisualizerMode = 'bars';
+    // Rows currently reserved at the bottom, 0 when none are
+    private visualizerRows: number = 0;
+    private visualizerBusy: boolean = false;
     private spinner: any = null;
     private version: string = '1.0.0';
     private commandHistory: string[] = [];
     private historyIndex: number = -1;
 
-    constructor(player: StreamPlayer, config: Conf<Config>) {
-        this.player = player;
+    constructor(client: DaemonClient, config: Conf<Config>, backend: BackendName) {
+        this.client = client;
         this.config = config;
+        this.backend = backend;
 
         this.rl = readline.createInterface({
             input: process.stdin,
@@ -85,12 +202,9 @@ export class RadioREPL {
 
 
     private completer(line: string): [string[], string] {
-        const commands = [
-            'play', 'stop', 'stations', 'status', 'volume', 'help', 'clear', 'exit',
-            'p', 's', 'l', 'n', 'v', 'h', 'q', 'cls'
-        ];
+        const commands = commandRegistry.getNames('repl');
 
-        const stationIds = stations.map(s => s.id);
+        const stationIds = getStations().map(s => s.id);
         const allCompletions = [...commands, ...stationIds];
 
         const hits = allCompletions.filter(c => c.startsWith(line));
@@ -99,25 +213,57 @@ export class RadioREPL {
 
 
     private setupPlayerListeners(): void {
-        this.player.on('playing', (station: Station) => {
+        this.client.on('playing', (station: Station) => {
             if (this.spinner) {
                 this.spinner.succeed(formatSuccess(`Connected to ${station.name}`));
                 this.spinner = null;
             }
             this.isPlaying = true;
             this.currentStation = station;
-            this.showNowPlaying();
+            this.currentTrack = null;
+
+            // Playing may have switched the daemon to a backend without levels
+            if (this.visualizer) {
+                this.client.levels(getVisualizerFrameRate(), this.backend).then(({ available, backend }) => {
+                    this.visualizer?.setSource(available, backend);
+                }).catch(() => {});
+            }
+
+            // A sleep timer outlives station switches, but "radio stop" elsewhere
+            // cancels it; the quality tier is only known to the daemon
+            this.client.status().then(state => {
+                this.sleepEndsAt = state.sleepEndsAt ? new Date(state.sleepEndsAt) : null;
+                this.quality = state.quality;
+                this.qualityMode = state.qualityMode;
+                this.focus = state.focus;
+            }).catch(() => {}).finally(() => {
+                this.showNowPlaying();
+                this.showPrompt();
+            });
+        });
+
+        this.client.on('quality_changed', (change: QualityChange) => {
+            this.quality = change.tier;
+            const label = this.currentStation ? getTierLabel(this.currentStation, change.tier) : change.tier;
+            process.stdout.write('\r\x1b[K');
+            console.log(formatInfo(change.reason === 'downgrade'
+                ? `Connection is struggling, dropping to ${label}`
+                : `Connection looks stable, trying ${label}`));
             this.showPrompt();
         });
 
-        this.player.on('stopped', () => {
+        this.client.on('stopped', () => {
             this.isPlaying = false;
             this.currentStation = null;
+            this.currentTrack = null;
+            this.quality = null;
+            this.visualizer?.clear();
+            this.drawVisualizer();
             console.log(formatControl('Playback stopped'));
             this.showPrompt();
         });
 
-        this.player.on('error', (error) => {
+        this.client.on('error', (error) => {
             if (this.spinner) {
                 this.spinner.fail(formatError(error.message));
                 this.spinner = null;
@@ -125,15 +271,93 @@ export class RadioREPL {
             this.showPrompt();
         });
 
-        this.player.on('reconnecting', (attempt: number) => {
-            console.log(formatInfo(`Reconnecting... (attempt ${attempt})`));
+        this.client.on('metadata', (track: TrackMetadata) => {
+            this.currentTrack = track;
+            process.stdout.write('\r\x1b[K');
+            console.log(formatMusic('Now playing:') + ' ' + formatMetadata(track));
+            this.showPrompt();
+        });
+
+        this.client.on('sleep_warning', (remaining: number) => {
+            process.stdout.write('\r\x1b[K');
+            console.log(formatInfo(`Sleep timer: stopping in ${formatCountdown(remaining / 1000)}`));
+            this.showPrompt();
+        });
+
+        this.client.on('sleep_expired', () => {
+            this.sleepEndsAt = null;
+            process.stdout.write('\r\x1b[K');
+            console.log(formatInfo('Sleep timer expired. Good night!'));
+            this.showPrompt();
+        });
+
+        this.client.on('recording_stopped', (summary: RecordingStatus) => {
+            process.stdout.write('\r\x1b[K');
+            console.log(formatSuccess(`Recording saved: ${summary.tracks} track(s), ${formatBytes(summary.bytes)}`));
+            console.log(chalk.dim(`   ${summary.directory}`));
+            this.showPrompt();
+        });
+
+        this.client.on('recording_error', (error: StreamError) => {
+            process.stdout.write('\r\x1b[K');
+            console.log(formatError(`Recording failed: ${error.message}`));
+            this.showPrompt();
+        });
+
+        this.client.on('focus_phase', (status: FocusStatus) => {
+            this.focus = status;
+            process.stdout.write('\r\x1b[K');
+            const playing = status.station ? status.station.name : 'silence';
+            console.log(formatInfo(status.phase === 'work'
+                ? `Focus: work block ${status.cycle}/${status.cycles} (${playing})`
+                : `Focus: time for a break (${playing})`));
+            this.showPrompt();
+        });
+
+        this.client.on('focus_finished', (record: FocusSessionRecord) => {
+            this.focus = null;
+            process.stdout.write('\r\x1b[K');
+            console.log(record.completed
+                ? formatSuccess(`Focus session done: ${record.cycles} block(s), ${formatUptime(record.focusSeconds)} focused`)
+                : formatControl(`Focus session ended after ${formatUptime(record.focusSeconds)}`));
+            this.showPrompt();
+        });
+
+        this.client.on('reconnecting', (info: ReconnectInfo) => {
+            console.log(formatInfo(formatReconnect(info)));
+        });
+
+        this.client.on('levels', (levels: AudioLevels) => {
+            this.visualizer?.update(levels);
+            this.drawVisualizer();
+        });
+
+        this.client.on('disconnected', () => {
+            this.releaseVisualizerRows();
+            console.log('\n' + formatError('Lost connection to the radio daemon'));
+            process.exit(1);
         });
     }
 
-    public start(): void {
+    public async start(): Promise<void> {
+        await this.client.subscribe();
+
+        // The daemon may already be playing from an earlier `radio play`
+        const state = await this.client.status();
+        this.isPlaying = state.isPlaying;
+        this.currentStation = state.currentStation;
+        this.currentTrack = state.track;
+        this.sleepEndsAt = state.sleepEndsAt ? new Date(state.sleepEndsAt) : null;
+        this.quality = state.quality;
+        this.qualityMode = state.qualityMode;
+        this.focus = state.focus;
+
         clearConsole();
         this.showWelcome();
         this.showStatusBar();
+        if (this.isPlaying) {
+            this.showNowPlaying();
+        }
         this.showPrompt();
 
         this.rl.on('line', async (input: string) => {
@@ -144,12 +368,15 @@ export class RadioREPL {
                 return;
             }
 
-            await this.handleCommand(command.toLowerCase());
+            await this.handleCommand(command);
         });
 
         this.rl.on('close', async () => {
+            this.releaseVisualizerRows();
             console.log('\n' + formatInfo('Shutting down...'));
-            await this.player.stop();
+            this.client.removeAllListeners('disconnected');
+            await this.client.stop();
+            this.client.close();
             process.exit(0);
         });
 
@@ -201,6 +428,11 @@ export class RadioREPL {
     }
 
     private showPrompt(): void {
+        this.rl.setPrompt(this.buildPrompt());
+        this.rl.prompt();
+    }
+
+    private buildPrompt(): string {
         const promptPrefix = this.isPlaying && this.currentStation
             ? chalk.green('♪')
             : chalk.dim('○');
@@ -209,10 +441,19 @@ export class RadioREPL {
             ? chalk.dim(` ${this.currentStation.name.split(' - ')[0]}`)
             : '';
 
-        const prompt = `${promptPrefix}${stationName} ${chalk.cyan('▶')} `;
+        const trackTitle = this.currentTrack
+            ? chalk.dim(` · ${truncate(this.currentTrack.raw, 40)}`)
+            : '';
+
+        const sleepCountdown = this.isPlaying && this.sleepEndsAt
+            ? chalk.yellow(` ☾ ${formatCountdown((this.sleepEndsAt.getTime() - Date.now()) / 1000)}`)
+            : '';
 
-        this.rl.setPrompt(prompt);
-        this.rl.prompt();
+        const focusCountdown = this.focus
+            ? chalk.magenta(` ◷ ${this.focus.phase} ${formatCountdown((Date.parse(this.focus.phaseEndsAt) - Date.now()) / 1000)}`)
+            : '';
+
+        return `${promptPrefix}${stationName}${trackTitle}${sleepCountdown}${focusCountdown} ${chalk.cyan('▶')} `;
     }
 
     private showNowPlaying(): void {
@@ -221,8 +462,14 @@ export class RadioREPL {
             console.log(chalk.bgCyan.black(' NOW PLAYING '));
             console.log('');
             console.log(formatMusic(`${this.currentStation.name}`));
+            if (this.currentTrack) {
+                console.log(`   ${formatMetadata(this.currentTrack)}`);
+            }
             console.log(chalk.dim(`   ${this.currentStation.description}`));
-            console.log(chalk.dim(`   Quality: ${this.currentStation.quality} | Volume: ${this.player.getState().volume}%`));
+            const quality = this.quality
+                ? describeQuality(this.currentStation, this.quality, this.qualityMode)
+                : this.currentStation.quality;
+            console.log(chalk.dim(`   Quality: ${quality} | Volume: ${this.config.get('volume')}%`));
             console.log('');
 
             console.log(chalk.dim('─'.repeat(50)));
@@ -231,11 +478,14 @@ export class RadioREPL {
     }
 
     private async handleCommand(input: string): Promise<void> {
-        const parts = input.split(' ');
-        const command = parts[0];
+        // Only the command word is case-insensitive; arguments such as
+        // stream URLs must be kept as typed
+        const parts = splitArgs(input);
+        const command = parts[0].toLowerCase();
         const args = parts.slice(1);
 
-        const isLongOperation = ['play', 'p'].includes(command);
+        const registered = commandRegistry.find(command, 'repl');
+        const isLongOperation = ['play', 'search', 'focus'].includes(registered?.name ?? '');
         let typingIndicator: NodeJS.Timeout | null = null;
 
         if (isLongOperation) {
@@ -243,45 +493,62 @@ export class RadioREPL {
                 process.stdout.write(chalk.dim('⠋ Processing...'));
             }, 100);
         }
+        const clearTypingIndicator = () => {
+            if (typingIndicator) {
+                clearTimeout(typingIndicator);
+                typingIndicator = null;
+                process.stdout.write('\r\x1b[K');
+            }
+        };
 
         try {
-            switch (command) {
+            if (!registered) {
+                this.showCommandSuggestion(command);
+                return;
+            }
+
+            switch (registered.name) {
                 case 'play':
-                case 'p':
                     await this.handlePlay(args.join(' '));
                     break;
 
                 case 'stop':
-                case 's':
                     await this.handleStop();
                     break;
 
                 case 'stations':
-                case 'list':
-                case 'l':
-                    this.handleStations();
+                    if (args.length > 0) {
+                        this.handleStationLibrary(args);
+                    } else {
+                        this.handleStations();
+                    }
                     break;
 
                 case 'status':
-                case 'now':
-                case 'n':
-                    this.handleStatus();
+                    await this.handleStatus();
                     break;
 
                 case 'volume':
-                case 'vol':
-                case 'v':
-                    this.handleVolume(args[0]);
+                    await this.handleVolume(args[0]);
+                    break;
+
+                case 'sleep':
+                    await this.handleSleep(args);
+                    break;
+
+                case 'record':
+                    await this.handleRecord(args);
+                    break;
+
+                case 'fav':
+                    this.handleFavorites(args);
                     break;
 
                 case 'clear':
-                case 'cls':
                     this.handleClear();
                     break;
 
                 case 'help':
-                case 'h':
-                case '?':
                     this.showHelp();
                     break;
 
@@ -289,27 +556,60 @@ export class RadioREPL {
                     this.showHistory();
                     break;
 
+                case 'tracks':
+                    this.showTracks(args.join(' '));
+                    break;
+
+                case 'search':
+                    await this.handleSearch(args);
+                    break;
+
+                case 'focus':
+                    await this.handleFocus(args);
+                    break;
+
+                case 'viz':
+                    await this.handleVisualizer(args[0]);
+                    break;
+
                 case 'exit':
-                case 'quit':
-                case 'q':
                     this.rl.close();
                     return;
 
+                // Shared and plugin commands, which run the same everywhere
                 default:
-                    this.showCommandSuggestion(command);
+                    await this.runRegisteredCommand(registered, args);
                     break;
             }
+        } catch (error: any) {
+            // A command that fails (the daemon going away mid-request, say) is reported and the REPL carries on
+            clearTypingIndicator();
+            console.log(formatError(error.message));
         } finally {
-            if (typingIndicator) {
-                clearTimeout(typingIndicator);
-                process.stdout.write('\r\x1b[K');
-            }
+            clearTypingIndicator();
             this.showPrompt();
         }
     }
 
+    // Shared and plugin commands; an error in one is reported like any other, and the REPL carries on
+    private async runRegisteredCommand(command: CommandDefinition, args: string[]): Promise<void> {
+        const context: CommandContext = {
+            surface: 'repl',
+            config: this.config,
+            connect: async () => this.client,
+            ensureDaemon: async () => this.client,
+            json: false
+        };
+
+        try {
+            await commandRegistry.run(command, args, context);
+        } catch (error: any) {
+            console.log(formatError(error.message));
+        }
+    }
+
     private showCommandSuggestion(command: string): void {
-        const commands = ['play', 'stop', 'stations', 'status', 'volume', 'help', 'clear', 'exit'];
+        const commands = commandRegistry.list('repl').map(registered => registered.name);
         const suggestions = commands.filter(cmd => cmd.includes(command) || command.includes(cmd.substring(0, 2)));
 
         console.log(formatError(`Unknown command: "${command}"`));
@@ -323,9 +623,17 @@ export class RadioREPL {
 
     private async handlePlay(stationInput: string): Promise<void> {
         let selectedStation: Station | undefined;
+        const stations = getStations();
 
-        if (stationInput) {
-            selectedStation = getStationById(stationInput) || getStationByName(stationInput);
+        if (stationInput && isFavoriteSelector(stationInput)) {
+            try {
+                selectedStation = resolveFavoriteSelector(stationInput);
+            } catch (error: any) {
+                console.log(formatError(error.message));
+                return;
+            }
+        } else if (stationInput) {
+            selectedStation = getStationById(stationInput.toLowerCase()) || getStationByName(stationInput);
             if (!selectedStation) {
                 const stationIndex = parseInt(stationInput, 10) - 1;
                 if (!isNaN(stationIndex) && stationIndex >= 0 && stationIndex < stations.length) {
@@ -343,14 +651,19 @@ export class RadioREPL {
             return;
         }
 
-        const volume = this.config.get('volume') as number;
         this.config.set('lastStation', selectedStation.id);
+        await this.startPlayback(selectedStation);
+    }
+
+    // The `playing` event finishes the spinner; only failures are handled here
+    private async startPlayback(station: Station): Promise<void> {
+        const volume = this.config.get('volume') as number;
 
-        this.spinner = createSpinner(`Connecting to ${selectedStation.name}...`);
+        this.spinner = createSpinner(`Connecting to ${station.name}...`);
         this.spinner.start();
 
         try {
-            await this.player.play(selectedStation, volume);
+            await this.client.play(station, volume, this.backend);
         } catch (error: any) {
             if (this.spinner) {
                 this.spinner.fail(formatError(error.message));
@@ -362,16 +675,17 @@ export class RadioREPL {
     private showQuickStationList(): void {
         console.log(chalk.cyan('🎵 Quick Station Selection:'));
         console.log('');
-        stations.forEach((station, index) => {
+        getStations().forEach((station, index) => {
             const number = chalk.bgBlue.white(` ${index + 1} `);
+            const star = isFavorite(station.id) ? chalk.yellow('★ ') : '';
             const id = chalk.dim(`[${station.id}]`);
             const name = chalk.white(station.name);
             const genre = chalk.dim(`- ${station.genre}`);
 
-            console.log(`${number} ${id} ${name} ${genre}`);
+            console.log(`${number} ${star}${id} ${name} ${genre}`);
         });
         console.log('');
-        console.log(chalk.dim(`Usage: ${chalk.yellow('play 1')} or ${chalk.yellow('play rp-mellow')} or ${chalk.yellow('play paradise')}`));
+        console.log(chalk.dim(`Usage: ${chalk.yellow('play 1')} or ${chalk.yellow('play rp-mellow')} or ${chalk.yellow('play paradise')} or ${chalk.yellow('play fav')}`));
     }
 
     private async handleStop(): Promise<void> {
@@ -379,7 +693,8 @@ export class RadioREPL {
             console.log(formatInfo('No station is currently playing'));
             return;
         }
-        await this.player.stop();
+        this.sleepEndsAt = null;
+        await this.client.stop();
     }
 
     private handleStations(): void {
@@ -387,13 +702,15 @@ export class RadioREPL {
         console.log(chalk.bgMagenta.white(' AVAILABLE STATIONS '));
         console.log('');
 
-        stations.forEach((station, index) => {
+        getStations().forEach((station, index) => {
             const isPlaying = this.currentStation?.id === station.id;
             const icon = isPlaying ? chalk.green('♪') : chalk.dim('○');
             const number = chalk.yellow(`[${index + 1}]`);
             const id = chalk.cyan(`[${station.id}]`);
+            const custom = isUserStation(station.id) ? ` ${chalk.magenta('(custom)')}` : '';
+            const star = isFavorite(station.id) ? ` ${chalk.yellow('★')}` : '';
 
-            console.log(`${icon} ${number} ${id}`);
+            console.log(`${icon} ${number} ${id}${star}${custom}`);
             console.log(`   ${formatStation(station)}`);
             if (isPlaying) {
                 console.log(chalk.green('   ► Currently playing'));
@@ -402,8 +719,130 @@ export class RadioREPL {
         });
     }
 
-    private handleStatus(): void {
-        const state = this.player.getState();
+    private handleStationLibrary(args: string[]): void {
+        const [action, id, ...rest] = args;
+
+        try {
+            switch (action.toLowerCase()) {
+                case 'add': {
+                    const [url, ...fields] = rest;
+                    if (!id || !url) {
+                        console.log(formatError('Usage: stations add <id> <url> [name=...] [genre=...]'));
+                        return;
+                    }
+                    const station = addUserStation(id, url, parseStationFields(fields));
+                    const shadows = isBuiltinStation(id) ? chalk.dim(' (overrides the built-in station)') : '';
+                    console.log(formatSuccess(`Added ${station.name} [${station.id}]`) + shadows);
+                    break;
+                }
+
+                case 'edit': {
+                    if (!id || rest.length === 0) {
+                        console.log(formatError('Usage: stations edit <id> <field>=<value>...'));
+                        return;
+                    }
+                    const station = editUserStation(id, parseStationFields(rest));
+                    console.log(formatSuccess(`Updated ${station.name} [${station.id}]`));
+                    break;
+                }
+
+                case 'remove':
+                case 'rm': {
+                    if (!id) {
+                        console.log(formatError('Usage: stations remove <id>'));
+                        return;
+                    }
+                    const station = removeUserStation(id);
+                    console.log(formatSuccess(`Removed ${station.name} [${station.id}]`));
+                    break;
+                }
+
+                case 'rename': {
+                    const [newId] = rest;
+                    if (!id || !newId) {
+                        console.log(formatError('Usage: stations rename <id> <new-id>'));
+                        return;
+                    }
+                    const station = renameUserStation(id, newId);
+                    console.log(formatSuccess(`Renamed [${id}] to [${station.id}]`));
+                    break;
+                }
+
+                default:
+                    console.log(formatError(`Unknown stations command: "${action}"`));
+                    console.log(chalk.dim(`Use ${chalk.yellow('add')}, ${chalk.yellow('edit')}, ${chalk.yellow('remove')} or ${chalk.yellow('rename')}`));
+            }
+        } catch (error: any) {
+            console.log(formatError(error.message));
+        }
+    }
+
+    private handleFavorites(args: string[]): void {
+        const [action = 'list', input, position] = args;
+
+        try {
+            switch (action.toLowerCase()) {
+                case 'list': {
+                    const favorites = getFavoriteStations();
+                    if (favorites.length === 0) {
+                        console.log(formatInfo(`No favorites yet. Add one with ${chalk.yellow('fav add <station>')}`));
+                        return;
+                    }
+
+                    console.log('');
+                    console.log(chalk.bgYellow.black(' FAVORITES '));
+                    console.log('');
+                    favorites.forEach((station, index) => {
+                        const isPlaying = this.currentStation?.id === station.id;
+                        const icon = isPlaying ? chalk.green('♪') : chalk.yellow('★');
+                        console.log(`${icon} ${chalk.yellow(`[${index + 1}]`)} ${chalk.cyan(`[${station.id}]`)} ${chalk.white(station.name)}`);
+                    });
+                    console.log('');
+                    break;
+                }
+
+                case 'add': {
+                    if (!input) {
+                        console.log(formatError('Usage: fav add <station>'));
+                        return;
+                    }
+                    const station = addFavorite(input);
+                    console.log(formatSuccess(`Added ${station.name} to favorites`));
+                    break;
+                }
+
+                case 'remove':
+                case 'rm': {
+                    if (!input) {
+                        console.log(formatError('Usage: fav remove <station>'));
+                        return;
+                    }
+                    const id = removeFavorite(input);
+                    console.log(formatSuccess(`Removed [${id}] from favorites`));
+                    break;
+                }
+
+                case 'move': {
+                    if (!input || !position) {
+                        console.log(formatError('Usage: fav move <station> <position>'));
+                        return;
+                    }
+                    const station = moveFavorite(input, parseInt(position, 10));
+                    console.log(formatSuccess(`Moved ${station.name} to position ${position}`));
+                    break;
+                }
+
+                default:
+                    console.log(formatError(`Unknown fav command: "${action}"`));
+                    console.log(chalk.dim(`Use ${chalk.yellow('list')}, ${chalk.yellow('add')}, ${chalk.yellow('remove')} or ${chalk.yellow('move')}`));
+            }
+        } catch (error: any) {
+            console.log(formatError(error.message));
+        }
+    }
+
+    private async handleStatus(): Promise<void> {
+        const state = await this.client.status();
 
         console.log('');
         console.log(chalk.bgYellow.black(' STATUS '));
@@ -411,31 +850,50 @@ export class RadioREPL {
 
         if (!state.isPlaying || !state.currentStation) {
             console.log(chalk.dim('○') + ' ' + formatMusic('Not playing'));
+            if (state.recording) {
+                console.log(`   Recording: ${describeRecording(state.recording)}`);
+            }
         } else {
             console.log(chalk.green('♪') + ' ' + formatMusic('Playing'));
             console.log(`   Station: ${chalk.white(state.currentStation.name)}`);
             console.log(`   Genre: ${chalk.dim(state.currentStation.genre)}`);
-            console.log(`   Uptime: ${chalk.green(this.player.getUptime())}`);
-            console.log(`   Volume: ${chalk.yellow(state.volume + '%')}`);
+            if (state.track) {
+                console.log(`   Track: ${formatMetadata(state.track)}`);
+            }
+            console.log(`   Uptime: ${chalk.green(state.uptime)}`);
+            console.log(`   Volume: ${chalk.yellow(state.volume + '%')}${state.muted ? chalk.dim(' (muted)') : ''}`);
+            console.log(`   Backend: ${chalk.dim(state.backend)}`);
+            if (state.quality) {
+                console.log(`   Quality: ${chalk.dim(describeQuality(state.currentStation, state.quality, state.qualityMode))}`);
+            }
+            if (state.sleepRemaining !== null) {
+                console.log(`   Sleep: ${chalk.yellow(formatCountdown(state.sleepRemaining))} left`);
+            }
+            if (state.recording) {
+                console.log(`   Recording: ${describeRecording(state.recording)}`);
+            }
+        }
+        if (state.focus) {
+            console.log(`   Focus: ${chalk.magenta(formatFocus(state.focus))}`);
         }
         console.log('');
     }
 
-    private handleVolume(level?: string): void {
+    private async handleVolume(level?: string): Promise<void> {
         if (!level) {
             const currentVolume = this.config.get('volume');
             console.log(formatInfo(`Current volume: ${chalk.yellow(currentVolume + '%')}`));
             return;
         }
 
-        const volume = validateVolume(level);
+        const volume = resolveVolume(level, this.config.get('volume'));
         if (volume === null) {
             console.log(formatError('Volume must be between 0 and 100'));
             return;
         }
 
         this.config.set('volume', volume);
-        this.player.setVolume(volume);
+        await this.client.setVolume(volume);
 
         // Visual volume bar
         const barLength = 20;
@@ -446,8 +904,106 @@ export class RadioREPL {
         console.log(`   ${chalk.green(bar)} ${chalk.yellow(volume + '%')}`);
     }
 
+    private async handleSleep(args: string[]): Promise<void> {
+        if (args.length === 0) {
+            if (!this.isPlaying || !this.sleepEndsAt) {
+                console.log(formatInfo('No sleep timer set'));
+            } else {
+                console.log(formatInfo(`Sleeping in ${chalk.yellow(formatCountdown((this.sleepEndsAt.getTime() - Date.now()) / 1000))}`));
+            }
+            return;
+        }
+
+        if (args[0].toLowerCase() === 'off') {
+            await this.client.cancelSleep();
+            this.sleepEndsAt = null;
+            console.log(formatSuccess('Sleep timer cancelled'));
+            return;
+        }
+
+        if (!this.isPlaying) {
+            console.log(formatInfo('No station is currently playing'));
+            return;
+        }
+
+        const duration = parseDuration(args[0]);
+        const fadeArg = args.find(arg => arg.toLowerCase().startsWith('fade='));
+        const fade = fadeArg ? parseDuration(fadeArg.slice('fade='.length)) : 0;
+        if (!duration || fade === null) {
+            console.log(formatError('Usage: sleep <duration> [fade=<duration>], e.g. sleep 45m fade=5m'));
+            return;
+        }
+
+        try {
+            const state = await this.client.sleep(duration, fade);
+            this.sleepEndsAt = state.sleepEndsAt ? new Date(state.sleepEndsAt) : null;
+            console.log(formatSuccess(`Sleeping in ${formatCountdown(duration)}${fade ? chalk.dim(` (fading out over the last ${formatCountdown(fade)})`) : ''}`));
+        } catch (error: any) {
+            console.log(formatError(error.message));
+        }
+    }
+
+    private async handleRecord(args: string[]): Promise<void> {
+        if (args[0]?.toLowerCase() === 'stop') {
+            try {
+                await this.client.stopRecording();
+            } catch (error: any) {
+                console.log(formatInfo(error.message));
+            }
+            return;
+        }
+
+        const options: Record<string, string> = {};
+        const words: string[] = [];
+        args.forEach(arg => {
+            const match = arg.match(/^(duration|out)=(.*)$/i);
+            if (match) {
+                options[match[1].toLowerCase()] = match[2];
+            } else {
+                words.push(arg);
+            }
+        });
+
+        const duration = options.duration ? parseDuration(options.duration) : undefined;
+        if (duration === null || duration === 0) {
+            console.log(formatError('Usage: record [station] [duration=1h] [out=dir], e.g. record soma-deep duration=1h'));
+            return;
+        }
+
+        const stationInput = words.join(' ');
+        let station: Station | undefined;
+        try {
+            station = !stationInput
+                ? this.currentStation || undefined
+                : isFavoriteSelector(stationInput)
+                    ? resolveFavoriteSelector(stationInput)
+                    : getStationById(stationInput.toLowerCase()) || getStationByName(stationInput);
+        } catch (error: any) {
+            console.log(formatError(error.message));
+            return;
+        }
+
+        if (!station) {
+            console.log(formatError(stationInput ? `Station "${stationInput}" not found` : 'Nothing is playing; name a station to record'));
+            return;
+        }
+
+        try {
+            const state = await this.client.record(station, duration, options.out ? path.resolve(options.out) : undefined);
+            console.log(formatSuccess(`Recording ${station.name}${duration ? ` for ${formatUptime(duration)}` : ''}`));
+            console.log(chalk.dim(`   Saving to ${state.recording?.directory}`));
+        } catch (error: any) {
+            console.log(formatError(error.message));
+        }
+    }
+
     private handleClear(): void {
         clearConsole();
+        // The reset also dropped the visualizer's scroll region
+        if (this.visualizerRows) {
+            this.visualizerRows = 0;
+            this.reserveVisualizerRows();
+        }
         this.showWelcome();
         this.showStatusBar();
         if (this.isPlaying && this.currentStation) {
@@ -455,6 +1011,187 @@ export class RadioREPL {
         }
     }
 
+    private async handleFocus(args: string[]): Promise<void> {
+        if (args[0]?.toLowerCase() === 'off') {
+            if (!this.focus) {
+                console.log(formatInfo('No focus session is running'));
+                return;
+            }
+            await this.client.stopFocus();
+            return;
+        }
+
+        const options: Record<string, string> = {};
+        const words: string[] = [];
+        args.forEach(arg => {
+            const match = arg.match(/^(work|break|cycles|break-station)=(.*)$/i);
+            if (match) {
+                options[match[1].toLowerCase()] = match[2];
+            } else {
+                words.push(arg);
+            }
+        });
+
+        if (words.length === 0 && Object.keys(options).length === 0 && this.focus) {
+            console.log(formatInfo(`Focus: ${chalk.magenta(formatFocus(this.focus))}`));
+            return;
+        }
+
+        const work = parseFloat(options.work ?? String(DEFAULT_FOCUS_WORK));
+        const breakLength = parseFloat(options.break ?? String(DEFAULT_FOCUS_BREAK));
+        const cycles = parseInt(options.cycles ?? String(DEFAULT_FOCUS_CYCLES), 10);
+        if (!(work > 0) || !(breakLength >= 0) || !(cycles >= 1)) {
+            console.log(formatError('Usage: focus [station] [work=25] [break=5] [cycles=4] [break-station=<station>], lengths in minutes'));
+            return;
+        }
+
+        const findStation = (input: string): Station | undefined => isFavoriteSelector(input)
+            ? resolveFavoriteSelector(input)
+            : getStationById(input.toLowerCase()) || getStationByName(input);
+
+        const stationInput = words.join(' ');
+        let station: Station | undefined;
+        let breakStation: Station | null = null;
+        try {
+            const lastStationId = this.config.get('lastStation');
+            station = stationInput
+                ? findStation(stationInput)
+                : this.currentStation || (lastStationId ? getStationById(lastStationId) : undefined);
+
+            const breakInput = options['break-station'];
+            if (breakInput && breakInput.toLowerCase() !== 'silence') {
+                breakStation = findStation(breakInput) || null;
+                if (!breakStation) {
+                    console.log(formatError(`Station "${breakInput}" not found`));
+                    return;
+                }
+            }
+        } catch (error: any) {
+            console.log(formatError(error.message));
+            return;
+        }
+
+        if (!station) {
+            console.log(formatError(stationInput ? `Station "${stationInput}" not found` : 'Nothing is playing; name a station to focus with'));
+            return;
+        }
+
+        this.config.set('lastStation', station.id);
+        this.spinner = createSpinner(`Starting focus on ${station.name}...`);
+        this.spinner.start();
+
+        try {
+            const plan = { station, breakStation, work: Math.round(work * 60), break: Math.round(breakLength * 60), cycles };
+            const state = await this.client.focus(plan, this.config.get('volume') as number, this.backend);
+            this.focus = state.focus;
+        } catch (error: any) {
+            if (this.spinner) {
+                this.spinner.fail(formatError(error.message));
+                this.spinner = null;
+            }
+        }
+    }
+
+    private async handleVisualizer(arg?: string): Promise<void> {
+        const option = arg?.toLowerCase();
+
+        if (option === 'off' || (!option && this.visualizer)) {
+            if (!this.visualizer) {
+                console.log(formatInfo('The visualizer is already off'));
+                return;
+            }
+            this.visualizer = null;
+            this.releaseVisualizerRows();
+            await this.client.stopLevels();
+            console.log(formatControl('Visualizer off'));
+            return;
+        }
+
+        if (option && option !== 'on' && !isVisualizerMode(option)) {
+            console.log(formatError('Usage: viz [on|off|bars|meter]'));
+            return;
+        }
+        if (!process.stdout.isTTY) {
+            console.log(formatError('The visualizer needs an interactive terminal'));
+            return;
+        }
+
+        if (option && isVisualizerMode(option)) {
+            this.visualizerMode = option;
+        }
+
+        if (!this.visualizer) {
+            const { available, backend } = await this.client.levels(getVisualizerFrameRate(), this.backend);
+            this.visualizer = new Visualizer(this.visualizerMode);
+            this.visualizer.setSource(available, backend);
+            if (!available) {
+                console.log(formatInfo(`The ${backend} backend gives no audio levels; use ffplay with ffmpeg installed`));
+            }
+        }
+        this.visualizer.mode = this.visualizerMode;
+
+        this.releaseVisualizerRows();
+        this.reserveVisualizerRows();
+        console.log(formatSuccess(`Visualizer on (${this.visualizerMode})`));
+    }
+
+    /**
+     * Keeps the bottom rows of the terminal for the visualizer by limiting
+     * scrolling to the rows above them, so the REPL carries on as usual and
+     * each frame redraws the reserved rows in place.
+     */
+    private reserveVisualizerRows(): void {
+        if (!this.visualizer) {
+            return;
+        }
+
+        const reserved = VISUALIZER_ROWS[this.visualizer.mode] + 1;
+        const rows = process.stdout.rows || 24;
+        // Leave the REPL some room, or don't draw at all
+        if (rows - reserved < 8) {
+            return;
+        }
+
+        // Scroll the screen up first so the prompt isn't left inside the reserved rows
+        process.stdout.write('\n'.repeat(reserved) + `\x1b[${reserved}A\x1b7\x1b[1;${rows - reserved}r\x1b8`);
+        this.visualizerRows = reserved;
+        this.drawVisualizer();
+    }
+
+    private releaseVisualizerRows(): void {
+        if (!this.visualizerRows) {
+            return;
+        }
+
+        const rows = process.stdout.rows || 24;
+        let output = '\x1b7\x1b[r';
+        for (let row = rows - this.visualizerRows + 1; row <= rows; row++) {
+            output += `\x1b[${row};1H\x1b[2K`;
+        }
+        process.stdout.write(output + '\x1b8');
+        this.visualizerRows = 0;
+    }
+
+    private drawVisualizer(): void {
+        if (!this.visualizer || !this.visualizerRows || this.visualizerBusy) {
+            return;
+        }
+
+        const rows = process.stdout.rows || 24;
+        const width = process.stdout.columns || 80;
+        const top = rows - this.visualizerRows + 1;
+        const lines = [chalk.dim('─'.repeat(width)), ...this.visualizer.render(width, this.visualizerRows - 1)];
+        const frame = lines.map((line, index) => `\x1b[${top + index};1H${line}\x1b[K`).join('');
+
+        // A terminal that can't keep up gets fewer frames rather than a backlog
+        if (!process.stdout.write(`\x1b7${frame}\x1b8`)) {
+            this.visualizerBusy = true;
+            process.stdout.once('drain', () => {
+                this.visualizerBusy = false;
+            });
+        }
+    }
+
     private showHistory(): void {
         if (this.commandHistory.length === 0) {
             console.log(formatInfo('No command history'));
@@ -472,22 +1209,119 @@ export class RadioREPL {
         console.log('');
     }
 
+    // Played tracks, as opposed to `history`, which lists typed commands
+    private showTracks(search: string): void {
+        const entries = filterTrackHistory(readTrackHistory(), { grep: search || undefined }).slice(-15);
+        if (entries.length === 0) {
+            console.log(formatInfo(search ? `No tracks matching "${search}"` : 'No tracks played yet'));
+            return;
+        }
+
+        console.log('');
+        console.log(chalk.bgCyan.black(' RECENT TRACKS '));
+        console.log('');
+
+        entries.forEach(entry => {
+            const time = new Date(entry.startedAt).toLocaleString([], {
+                month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+            });
+            console.log(`${chalk.dim(time)} ${chalk.cyan(`[${entry.stationId}]`)} ${chalk.white(formatTrackName(entry))}`);
+        });
+        console.log('');
+        console.log(chalk.dim('   Full history: "radio tracks", or "radio tracks export --format csv"'));
+        console.log('');
+    }
+
+    private async handleSearch(args: string[]): Promise<void> {
+        const [action, position] = args;
+        if (['play', 'save'].includes(action?.toLowerCase()) && /^\d+$/.test(position || '')) {
+            const result = this.searchResults[parseInt(position, 10) - 1];
+            if (!result) {
+                console.log(formatError(`No search result ${position}`));
+                return;
+            }
+
+            const station = directoryToStation(result);
+            if (action.toLowerCase() === 'play') {
+                await this.startPlayback(station);
+                return;
+            }
+
+            try {
+                const { id, url, ...fields } = station;
+                addUserStation(id, url, fields);
+                console.log(formatSuccess(`Added ${station.name} [${station.id}]`));
+            } catch (error: any) {
+                console.log(formatError(error.message));
+            }
+            return;
+        }
+
+        const options: Record<string, string> = {};
+        const words: string[] = [];
+        args.forEach(arg => {
+            const match = arg.match(/^(genre|country|codec)=(.*)$/i);
+            if (match) {
+                options[match[1].toLowerCase()] = match[2];
+            } else {
+                words.push(arg);
+            }
+        });
+
+        if (words.length === 0) {
+            console.log(formatError('Usage: search <query> [genre=...] [country=...] [codec=...], e.g. search lofi country=DE'));
+            return;
+        }
+
+        let result: DirectorySearchResult;
+        try {
+            result = await searchDirectory({ query: words.join(' '), ...options, limit: 15 });
+        } catch (error: any) {
+            process.stdout.write('\r\x1b[K');
+            console.log(formatError(error.message));
+            return;
+        }
+
+        process.stdout.write('\r\x1b[K');
+        this.searchResults = result.stations;
+        if (result.stations.length === 0) {
+            console.log(formatInfo('No stations found'));
+            return;
+        }
+
+        console.log('');
+        console.log(chalk.bgCyan.black(' SEARCH RESULTS '));
+        if (result.stale) {
+            console.log(chalk.dim(`   Offline: results from ${new Date(result.fetchedAt).toLocaleString()}`));
+        }
+        console.log('');
+        result.stations.forEach((station, index) => {
+            const number = chalk.bgBlue.white(` ${index + 1} `);
+            const details = [station.countryCode, describeDirectoryStation(station), station.tags.slice(0, 3).join(', ')]
+                .filter(Boolean)
+                .join(' • ');
+            console.log(`${number} ${chalk.white(truncate(station.name, 40))} ${chalk.dim(details)}`);
+        });
+        console.log('');
+        console.log(chalk.dim(`Usage: ${chalk.yellow('search play 1')} to listen, ${chalk.yellow('search save 1')} to add it to your stations`));
+        console.log('');
+    }
+
     private showHelp(): void {
         console.log('');
         console.log(chalk.bgGreen.black(' COMMANDS '));
         console.log('');
 
-        const commands = [
-            { cmd: 'play [station]', alias: 'p', desc: 'Play a station (by number, ID, or name)', example: 'play 1, play rp-mellow' },
-            { cmd: 'stop', alias: 's', desc: 'Stop current playback', example: 'stop' },
-            { cmd: 'stations', alias: 'l', desc: 'List all available stations', example: 'stations' },
-            { cmd: 'status', alias: 'n', desc: 'Show current playback status', example: 'status' },
-            { cmd: 'volume [0-100]', alias: 'v', desc: 'Set or show volume level', example: 'volume 50' },
-            { cmd: 'clear', alias: 'cls', desc: 'Clear the screen', example: 'clear' },
-            { cmd: 'history', alias: '', desc: 'Show command history', example: 'history' },
-            { cmd: 'help', alias: 'h, ?', desc: 'Show this help message', example: 'help' },
-            { cmd: 'exit', alias: 'q', desc: 'Exit the radio', example: 'exit' }
-        ];
+        // Each command from the registry, followed by the other ways to use it here
+        const commands = commandRegistry.list('repl').flatMap(command => [
+            {
+                cmd: command.arguments ? `${command.name} ${command.arguments}` : command.name,
+                alias: (command.aliases || []).join(', '),
+                desc: command.description,
+                example: command.example || ''
+            },
+            ...(HELP_FORMS[command.name] || []).map(form => ({ ...form, alias: '' }))
+        ]);
 
         commands.forEach(({ cmd, alias, desc, example }) => {
             const cmdStr = chalk.yellow(cmd.padEnd(18));
@@ -515,6 +1349,15 @@ export class RadioREPL {
             process.stdin.resume();
         }
 
+        // The old scroll region no longer fits, so set up a new one
+        process.stdout.on('resize', () => {
+            if (this.visualizerRows) {
+                process.stdout.write('\x1b[r');
+                this.visualizerRows = 0;
+                this.reserveVisualizerRows();
+            }
+        });
+
         this.rl.on('SIGINT', () => {
             console.log('\n' + chalk.yellow('Tip: Use "stop" to stop playback, "exit" to quit'));
             this.showPrompt();
@@ -522,8 +1365,37 @@ export class RadioREPL {
 
         setInterval(() => {
             if (!this.rl.line && this.rl.terminal) {
+                // Re-render so the sleep countdown in the prompt keeps ticking
+                this.rl.setPrompt(this.buildPrompt());
                 this.rl.prompt(true);
             }
         }, 2000);
     }
-}
\ No newline at end of file
+}
+
+const describeRecording = (recording: RecordingStatus): string => {
+    return [
+        chalk.white(recording.station.name),
+        chalk.yellow(formatBytes(recording.bytes)),
+        chalk.green(formatUptime(recording.elapsed)),
+        chalk.dim(`${recording.tracks} track${recording.tracks === 1 ? '' : 's'}`)
+    ].join(chalk.dim(' • '));
+};
+
+const STATION_FIELDS = ['name', 'url', 'genre', 'description', 'quality'];
+
+// Turns `name="Team Radio" genre=Jazz` style arguments into station fields
+const parseStationFields = (pairs: string[]): StationFields => {
+    const fields: Record<string, string> = {};
+
+    pairs.forEach(pair => {
+        const separator = pair.indexOf('=');
+        const key = separator === -1 ? '' : pair.slice(0, separator).toLowerCase();
+        if (!STATION_FIELDS.includes(key)) {
+            throw new Error(`Unknown station field "${pair}" (expected ${STATION_FIELDS.join(', ')})`);
+        }
+        fields[key] = pair.slice(separator + 1);
+    });
+
+    return fields;
+};
\ No newline at end of file
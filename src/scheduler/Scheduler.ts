@@ -0,0 +1,89 @@
+import { EventEmitter } from 'events';
+import { getSchedules, markScheduleRun } from '../config/schedules.js';
+import { previousOccurrence, nextOccurrence } from './spec.js';
+import type { ScheduleEntry } from '../types/index.js';
+
+// How late a missed entry may still run, e.g. after the machine wakes up
+const CATCH_UP_WINDOW_MS = 2 * 60 * 60 * 1000;
+// Check at least this often, so wake-ups and clock changes are noticed
+const MAX_WAIT_MS = 60 * 1000;
+
+export type ScheduleRunner = (entry: ScheduleEntry) => Promise<void>;
+
+/**
+ * Runs schedule entries from the config when they come due. Each check
+ * looks for the latest occurrence since the entry last ran, so occurrences
+ * missed while the process was suspended are caught up once (within
+ * CATCH_UP_WINDOW_MS) rather than replayed one by one.
+ *
+ * Emits `run` (entry, dueAt), `missed` (entry, dueAt) and
+ * `failed` (entry, error).
+ */
+export class Scheduler extends EventEmitter {
+  private runner: ScheduleRunner;
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+
+  constructor(runner: ScheduleRunner) {
+    super();
+    this.runner = runner;
+  }
+
+  start(): void {
+    this.running = true;
+    this.check();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private check(): void {
+    try {
+      const now = new Date();
+
+      for (const entry of getSchedules()) {
+        const due = previousOccurrence(entry, now);
+        const since = new Date(entry.lastRun || entry.createdAt);
+        if (!due || due <= since) {
+          continue;
+        }
+
+        // Recorded before running so a failing entry isn't retried every check
+        markScheduleRun(entry.id, due);
+
+        if (now.getTime() - due.getTime() > CATCH_UP_WINDOW_MS) {
+          this.emit('missed', entry, due);
+          continue;
+        }
+
+        // Not awaited: a station that keeps reconnecting may never start,
+        // and that mustn't hold up the other entries or the next check
+        this.runner(entry).then(
+          () => this.emit('run', entry, due),
+          error => this.emit('failed', entry, error)
+        );
+      }
+    } finally {
+      this.scheduleNextCheck();
+    }
+  }
+
+  private scheduleNextCheck(): void {
+    if (!this.running) {
+      return;
+    }
+
+    const now = new Date();
+    const wait = getSchedules().reduce((shortest, entry) => {
+      const next = nextOccurrence(entry, now);
+      return next ? Math.min(shortest, next.getTime() - now.getTime()) : shortest;
+    }, MAX_WAIT_MS);
+
+    this.timer = setTimeout(() => this.check(), Math.max(wait, 0));
+  }
+}
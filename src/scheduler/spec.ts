@@ -0,0 +1,103 @@
+import { createError } from '../utils/helpers.js';
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const FULL_DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DAY_GROUPS: Record<string, number[]> = {
+  daily: [0, 1, 2, 3, 4, 5, 6],
+  everyday: [0, 1, 2, 3, 4, 5, 6],
+  weekdays: [1, 2, 3, 4, 5],
+  weekends: [0, 6]
+};
+
+export interface ScheduleTime {
+  days: number[];
+  hour: number;
+  minute: number;
+}
+
+const parseDay = (input: string): number => {
+  const index = Math.max(DAY_NAMES.indexOf(input), FULL_DAY_NAMES.indexOf(input));
+  if (index === -1) {
+    throw createError('INVALID_SCHEDULE', `Unknown day "${input}"`);
+  }
+  return index;
+};
+
+// "mon-fri" wraps around the week when the end comes first, so "fri-mon" works
+const parseDays = (input: string): number[] => {
+  if (DAY_GROUPS[input]) {
+    return DAY_GROUPS[input];
+  }
+
+  const days = new Set<number>();
+  input.split(',').forEach(part => {
+    const [from, to] = part.split('-');
+    if (to === undefined) {
+      days.add(parseDay(from));
+      return;
+    }
+
+    const start = parseDay(from);
+    const end = parseDay(to);
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === end) {
+        break;
+      }
+    }
+  });
+
+  return [...days].sort((a, b) => a - b);
+};
+
+/**
+ * Parses a schedule such as "mon-fri 09:00", "daily 18:00", "sat,sun 10:30"
+ * or just "07:15" (every day). Times are local wall-clock times.
+ */
+export const parseScheduleSpec = (spec: string): ScheduleTime => {
+  const parts = spec.trim().toLowerCase().split(/\s+/);
+  const timePart = parts.pop() || '';
+  const dayPart = parts.join('') || 'daily';
+
+  const time = timePart.match(/^(\d{1,2}):(\d{2})$/);
+  if (!time) {
+    throw createError('INVALID_SCHEDULE', `Invalid time "${timePart}" (expected HH:MM, e.g. 09:00)`);
+  }
+
+  const hour = parseInt(time[1], 10);
+  const minute = parseInt(time[2], 10);
+  if (hour > 23 || minute > 59) {
+    throw createError('INVALID_SCHEDULE', `Invalid time "${timePart}"`);
+  }
+
+  return { days: parseDays(dayPart), hour, minute };
+};
+
+// Building each candidate from its local date parts, rather than adding
+// 24-hour steps, keeps entries on the wall clock across DST changes. A time
+// skipped by a spring-forward change runs just after the gap.
+const occurrenceOn = (base: Date, dayOffset: number, time: ScheduleTime): Date => {
+  return new Date(base.getFullYear(), base.getMonth(), base.getDate() + dayOffset, time.hour, time.minute);
+};
+
+// The most recent time the entry was due, at or before `now`
+export const previousOccurrence = (time: ScheduleTime, now: Date): Date | null => {
+  for (let offset = 0; offset >= -7; offset--) {
+    const candidate = occurrenceOn(now, offset, time);
+    if (time.days.includes(candidate.getDay()) && candidate <= now) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+export const nextOccurrence = (time: ScheduleTime, now: Date): Date | null => {
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = occurrenceOn(now, offset, time);
+    if (time.days.includes(candidate.getDay()) && candidate > now) {
+      return candidate;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,343 @@
+import http from 'http';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type Conf from 'conf';
+import { DaemonClient, DaemonError } from '../daemon/DaemonClient.js';
+import { getStationById, getStationByName, getDefaultStation } from '../config/stations.js';
+import { isFavoriteSelector, resolveFavoriteSelector } from '../config/favorites.js';
+import { isQualityPreference, QUALITY_PREFERENCES } from '../player/quality.js';
+import { createError } from '../utils/helpers.js';
+import { API_EVENTS, createOpenApiDocument } from './openapi.js';
+import type { Config, Station } from '../types/index.js';
+
+export const DEFAULT_API_PORT = 7456;
+const HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 16 * 1024;
+// Comment lines on idle event streams, so proxies and clients don't time them out
+const HEARTBEAT_MS = 15 * 1000;
+// Anything else in the Host header is a page on another site trying DNS rebinding
+const LOCAL_HOSTNAMES = ['127.0.0.1', 'localhost', '[::1]'];
+
+export interface ApiServerOptions {
+  port: number;
+  // Required as a bearer token (or ?token=) on every request when set
+  token: string | null;
+  backend: string;
+}
+
+type ApiError = Error & { code: string; status: number };
+
+const apiError = (status: number, code: string, message: string): ApiError => {
+  return Object.assign(createError(code, message), { status });
+};
+
+// Daemon errors are about the stream or the player's state rather than the request
+const statusForDaemonError = (error: DaemonError): number => {
+  return error.code === 'NOT_PLAYING' ? 409 : 502;
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown): void => {
+  const json = JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(json) });
+  res.end(json);
+};
+
+const readBody = (req: http.IncomingMessage): Promise<Record<string, any>> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(apiError(413, 'BODY_TOO_LARGE', `Request bodies are limited to ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('error', reject);
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8').trim();
+      if (!text) {
+        resolve({});
+        return;
+      }
+      // Plain form posts from other sites can't set this without a CORS preflight we never answer
+      if (!(req.headers['content-type'] || '').startsWith('application/json')) {
+        reject(apiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Request bodies must be application/json'));
+        return;
+      }
+      try {
+        const body = JSON.parse(text);
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+          throw new Error();
+        }
+        resolve(body);
+      } catch {
+        reject(apiError(400, 'INVALID_JSON', 'Request body must be a JSON object'));
+      }
+    });
+  });
+};
+
+const parseVolume = (value: unknown): number => {
+  if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > 100) {
+    throw apiError(400, 'INVALID_VOLUME', 'Volume must be a whole number between 0 and 100');
+  }
+  return value as number;
+};
+
+const parseFade = (value: unknown): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw apiError(400, 'INVALID_FADE', 'Fade must be a number of seconds, 0 or more');
+  }
+  return value;
+};
+
+// Same lookup as "radio play": id, name or favorite selector
+const resolveStation = (input: unknown): Station => {
+  if (typeof input !== 'string' || !input.trim()) {
+    throw apiError(400, 'INVALID_STATION', 'Station must be a station id, name or favorite selector');
+  }
+
+  if (isFavoriteSelector(input)) {
+    try {
+      return resolveFavoriteSelector(input);
+    } catch (error: any) {
+      throw apiError(404, error.code, error.message);
+    }
+  }
+
+  const station = getStationById(input) || getStationByName(input);
+  if (!station) {
+    throw apiError(404, 'STATION_NOT_FOUND', `Station "${input}" not found`);
+  }
+  return station;
+};
+
+/**
+ * A small HTTP API over the daemon for scripts, editor extensions and
+ * dashboards. It listens on localhost only and drives the daemon through a
+ * DaemonClient, reconnecting (and starting the daemon) on the next request
+ * if the daemon goes away. Player events go out to every /events stream.
+ *
+ * Emits `request` (method, path, status) once each request is answered.
+ */
+export class ApiServer extends EventEmitter {
+  private config: Conf<Config>;
+  private options: ApiServerOptions;
+  private server: http.Server | null = null;
+  private client: DaemonClient | null = null;
+  private connecting: Promise<DaemonClient> | null = null;
+  private streams: Set<http.ServerResponse> = new Set();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(config: Conf<Config>, options: ApiServerOptions) {
+    super();
+    this.config = config;
+    this.options = options;
+  }
+
+  async start(): Promise<void> {
+    // Connect up front so a daemon that can't start is reported now, not on the first request
+    await this.getClient();
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(() => res.destroy());
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', (error: any) => {
+        reject(error.code === 'EADDRINUSE'
+          ? createError('PORT_IN_USE', `Port ${this.options.port} is already in use`)
+          : error);
+      });
+      server.listen(this.options.port, HOST, () => resolve());
+    });
+
+    this.server = server;
+    this.heartbeat = setInterval(() => this.streams.forEach(res => res.write(': ping\n\n')), HEARTBEAT_MS);
+  }
+
+  getUrl(): string {
+    return `http://${HOST}:${this.options.port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    this.streams.forEach(res => res.end());
+    this.streams.clear();
+
+    this.client?.removeAllListeners('disconnected');
+    this.client?.close();
+    this.client = null;
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  private getClient(): Promise<DaemonClient> {
+    if (this.client) {
+      return Promise.resolve(this.client);
+    }
+
+    // Concurrent requests share one connection attempt
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        const client = await DaemonClient.ensureRunning();
+        API_EVENTS.forEach(event => client.on(event, (data?: unknown) => this.publish(event, data)));
+        client.on('disconnected', () => {
+          if (this.client === client) {
+            this.client = null;
+          }
+        });
+        await client.subscribe();
+        this.client = client;
+        return client;
+      })().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private publish(event: string, data: unknown): void {
+    const message = `event: ${event}\ndata: ${JSON.stringify(data ?? null)}\n\n`;
+    this.streams.forEach(res => res.write(message));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.getUrl());
+    const method = req.method || 'GET';
+    res.on('finish', () => this.emit('request', method, url.pathname, res.statusCode));
+
+    try {
+      const hostname = (req.headers.host || '').replace(/:\d+$/, '');
+      if (!LOCAL_HOSTNAMES.includes(hostname)) {
+        throw apiError(403, 'FORBIDDEN_HOST', 'The API only answers requests addressed to localhost');
+      }
+
+      // The description is public so tools can discover the API before they have a token
+      if (url.pathname === '/openapi.json' && method === 'GET') {
+        sendJson(res, 200, createOpenApiDocument(this.options.port));
+        return;
+      }
+
+      this.authorize(req, url);
+
+      if (url.pathname === '/events' && method === 'GET') {
+        await this.openStream(req, res);
+        return;
+      }
+
+      const result = await this.route(method, url.pathname, req);
+      sendJson(res, 200, result);
+    } catch (error: any) {
+      const status = error instanceof DaemonError ? statusForDaemonError(error) : error.status || 500;
+      if (status === 401) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+      }
+      sendJson(res, status, { error: { code: error.code || 'INTERNAL_ERROR', message: error.message } });
+    }
+  }
+
+  private authorize(req: http.IncomingMessage, url: URL): void {
+    const expected = this.options.token;
+    if (!expected) {
+      return;
+    }
+
+    const header = req.headers.authorization || '';
+    const given = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : url.searchParams.get('token') || '';
+    // Comparing digests keeps the comparison constant-time whatever the lengths
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    if (!crypto.timingSafeEqual(digest(given), digest(expected))) {
+      throw apiError(401, 'UNAUTHORIZED', 'Missing or wrong API token');
+    }
+  }
+
+  private async route(method: string, path: string, req: http.IncomingMessage): Promise<unknown> {
+    const routes: Record<string, string> = {
+      '/status': 'GET',
+      '/stations': 'GET',
+      '/play': 'POST',
+      '/stop': 'POST',
+      '/volume': 'PUT'
+    };
+    if (!routes[path]) {
+      throw apiError(404, 'NOT_FOUND', `No endpoint at ${path}`);
+    }
+    if (routes[path] !== method) {
+      throw apiError(405, 'METHOD_NOT_ALLOWED', `${path} only accepts ${routes[path]}`);
+    }
+
+    const body = method === 'GET' ? {} : await readBody(req);
+    const client = await this.getClient();
+
+    switch (path) {
+      case '/status':
+        return client.status();
+
+      case '/stations':
+        return client.stations();
+
+      case '/play':
+        return this.play(client, body);
+
+      case '/stop':
+        return client.stop(parseFade(body.fade));
+
+      default:
+        return client.setVolume(parseVolume(body.level));
+    }
+  }
+
+  private async play(client: DaemonClient, body: Record<string, any>): Promise<unknown> {
+    let station: Station | undefined;
+    if (body.station !== undefined) {
+      station = resolveStation(body.station);
+    } else {
+      const lastStationId = this.config.get('lastStation');
+      station = (lastStationId ? getStationById(lastStationId) : undefined) || getDefaultStation();
+    }
+
+    const fade = parseFade(body.fade);
+    if (body.quality !== undefined && !(typeof body.quality === 'string' && isQualityPreference(body.quality))) {
+      throw apiError(400, 'INVALID_QUALITY', `Quality must be one of ${QUALITY_PREFERENCES.join(', ')}`);
+    }
+
+    let volume = this.config.get('volume');
+    if (body.volume !== undefined) {
+      volume = parseVolume(body.volume);
+      this.config.set('volume', volume);
+    }
+
+    this.config.set('lastStation', station.id);
+    return client.play(station, volume, this.options.backend, fade, undefined, undefined, body.quality);
+  }
+
+  private async openStream(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    // Fail now rather than hand out a stream that never gets events
+    await this.getClient();
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.write(': connected\n\n');
+
+    this.streams.add(res);
+    req.on('close', () => this.streams.delete(res));
+  }
+}
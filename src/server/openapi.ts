@@ -0,0 +1,201 @@
+import { QUALITY_PREFERENCES } from '../player/quality.js';
+
+// Events the /events stream carries, in the order a client is likely to see them
+export const API_EVENTS = ['playing', 'stopped', 'error', 'reconnecting', 'connection_lost'] as const;
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+});
+
+const statusResponse = {
+  description: 'The player status after the request',
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Status' } } }
+};
+
+/**
+ * OpenAPI 3 description of the local HTTP API that `radio serve` runs,
+ * served at /openapi.json. Kept by hand next to the server, so a change to
+ * one should come with a change to the other.
+ */
+export const createOpenApiDocument = (port: number): object => ({
+  openapi: '3.0.3',
+  info: {
+    title: 'Lofi Radio local API',
+    version: '1.0.0',
+    description: 'Controls the radio daemon from scripts and editor extensions. Listens on localhost only.'
+  },
+  servers: [{ url: `http://127.0.0.1:${port}` }],
+  security: [{ bearerToken: [] }, { queryToken: [] }],
+  paths: {
+    '/status': {
+      get: {
+        summary: 'What is playing',
+        responses: { 200: statusResponse, 401: errorResponse('Missing or wrong token') }
+      }
+    },
+    '/stations': {
+      get: {
+        summary: 'Every station, built-in and user-added',
+        responses: {
+          200: {
+            description: 'The station catalog and the one playing, if any',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    stations: { type: 'array', items: { $ref: '#/components/schemas/Station' } },
+                    currentStationId: { type: 'string', nullable: true }
+                  }
+                }
+              }
+            }
+          },
+          401: errorResponse('Missing or wrong token')
+        }
+      }
+    },
+    '/play': {
+      post: {
+        summary: 'Play a station',
+        description: 'Resolves once the stream is playing. Without a station it plays the last one, like `radio play`.',
+        requestBody: {
+          required: false,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  station: { type: 'string', description: 'Station id or name, or a favorite selector such as fav:2' },
+                  volume: { type: 'integer', minimum: 0, maximum: 100 },
+                  fade: { type: 'number', minimum: 0, description: 'Fade-in in seconds' },
+                  quality: { type: 'string', enum: QUALITY_PREFERENCES }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          200: statusResponse,
+          400: errorResponse('Invalid body'),
+          401: errorResponse('Missing or wrong token'),
+          404: errorResponse('No such station'),
+          502: errorResponse('The stream could not be played')
+        }
+      }
+    },
+    '/stop': {
+      post: {
+        summary: 'Stop playback',
+        requestBody: {
+          required: false,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { fade: { type: 'number', minimum: 0, description: 'Fade-out in seconds' } }
+              }
+            }
+          }
+        },
+        responses: { 200: statusResponse, 401: errorResponse('Missing or wrong token') }
+      }
+    },
+    '/volume': {
+      put: {
+        summary: 'Set the volume',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['level'],
+                properties: { level: { type: 'integer', minimum: 0, maximum: 100 } }
+              }
+            }
+          }
+        },
+        responses: {
+          200: statusResponse,
+          400: errorResponse('Level missing or out of range'),
+          401: errorResponse('Missing or wrong token')
+        }
+      }
+    },
+    '/events': {
+      get: {
+        summary: 'Player events as Server-Sent Events',
+        description: `Each event is named after the player event (${API_EVENTS.join(', ')}) and carries its data as JSON. ` +
+          'Browsers can pass the token as ?token= since EventSource cannot set headers.',
+        responses: {
+          200: { description: 'An endless text/event-stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+          401: errorResponse('Missing or wrong token')
+        }
+      }
+    },
+    '/openapi.json': {
+      get: {
+        summary: 'This document',
+        security: [],
+        responses: { 200: { description: 'OpenAPI 3 document', content: { 'application/json': {} } } }
+      }
+    }
+  },
+  components: {
+    securitySchemes: {
+      bearerToken: { type: 'http', scheme: 'bearer', description: 'Only when the server was started with --token' },
+      queryToken: { type: 'apiKey', in: 'query', name: 'token' }
+    },
+    schemas: {
+      Error: {
+        type: 'object',
+        properties: {
+          error: {
+            type: 'object',
+            properties: { code: { type: 'string' }, message: { type: 'string' } }
+          }
+        }
+      },
+      Station: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          url: { type: 'string' },
+          genre: { type: 'string' },
+          description: { type: 'string' },
+          quality: { type: 'string' }
+        }
+      },
+      Track: {
+        type: 'object',
+        nullable: true,
+        properties: {
+          artist: { type: 'string' },
+          title: { type: 'string' },
+          album: { type: 'string' },
+          raw: { type: 'string' }
+        }
+      },
+      Status: {
+        type: 'object',
+        properties: {
+          isPlaying: { type: 'boolean' },
+          currentStation: { allOf: [{ $ref: '#/components/schemas/Station' }], nullable: true },
+          volume: { type: 'integer' },
+          muted: { type: 'boolean' },
+          startTime: { type: 'string', format: 'date-time', nullable: true },
+          uptime: { type: 'string' },
+          track: { $ref: '#/components/schemas/Track' },
+          backend: { type: 'string' },
+          quality: { type: 'string', nullable: true },
+          qualityMode: { type: 'string' },
+          sleepEndsAt: { type: 'string', format: 'date-time', nullable: true },
+          sleepRemaining: { type: 'integer', nullable: true, description: 'Seconds' }
+        }
+      }
+    }
+  }
+});
@@ -0,0 +1,35 @@
+import fs from 'fs';
+import path from 'path';
+import { getConfigDir } from '../config/store.js';
+import type { FocusSessionRecord } from '../types/index.js';
+
+export const getFocusLogPath = (): string => {
+  return path.join(getConfigDir(), 'focus.jsonl');
+};
+
+export const appendFocusSession = (record: FocusSessionRecord): void => {
+  try {
+    fs.appendFileSync(getFocusLogPath(), JSON.stringify(record) + '\n');
+  } catch {
+    // Stats are best-effort; the session itself already happened
+  }
+};
+
+// All logged focus sessions, oldest first
+export const readFocusSessions = (): FocusSessionRecord[] => {
+  const records: FocusSessionRecord[] = [];
+
+  try {
+    fs.readFileSync(getFocusLogPath(), 'utf8').split('\n').forEach(line => {
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Blank or truncated line
+      }
+    });
+  } catch {
+    // No focus sessions yet
+  }
+
+  return records;
+};
@@ -0,0 +1,131 @@
+import type { FocusSessionRecord, FocusStats, ListeningSession, StationStats, StatsPeriod, StatsReport } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_DAYS: Record<StatsPeriod, number | null> = {
+  week: 7,
+  month: 30,
+  all: null
+};
+
+// Local calendar day, so a streak follows the user's midnight rather than UTC's
+const dayKey = (date: Date): string => {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+};
+
+const listeningDays = (sessions: ListeningSession[]): Set<string> => {
+  const days = new Set<string>();
+  sessions.forEach(session => {
+    const end = Date.parse(session.endedAt);
+    for (let time = Date.parse(session.startedAt); time <= end; time += DAY_MS) {
+      days.add(dayKey(new Date(time)));
+    }
+    days.add(dayKey(new Date(end)));
+  });
+  return days;
+};
+
+const countStreak = (days: Set<string>, from: Date): number => {
+  let streak = 0;
+  const cursor = new Date(from);
+  while (days.has(dayKey(cursor))) {
+    streak++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  return streak;
+};
+
+const longestStreak = (days: Set<string>, sessions: ListeningSession[]): number => {
+  let longest = 0;
+  sessions.forEach(session => {
+    const start = new Date(session.startedAt);
+    const previous = new Date(start);
+    previous.setDate(previous.getDate() - 1);
+    // Only count from the first day of each run
+    if (!days.has(dayKey(previous))) {
+      longest = Math.max(longest, countStreakForward(days, start));
+    }
+  });
+  return longest;
+};
+
+const countStreakForward = (days: Set<string>, from: Date): number => {
+  let streak = 0;
+  const cursor = new Date(from);
+  while (days.has(dayKey(cursor))) {
+    streak++;
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return streak;
+};
+
+// Focus sessions count in the period they ended in
+const summarizeFocus = (records: FocusSessionRecord[], since: Date | null): FocusStats => {
+  const inPeriod = records.filter(record => !since || Date.parse(record.endedAt) > since.getTime());
+  return {
+    sessions: inPeriod.length,
+    completed: inPeriod.filter(record => record.completed).length,
+    cycles: inPeriod.reduce((total, record) => total + record.cycles, 0),
+    focusSeconds: inPeriod.reduce((total, record) => total + record.focusSeconds, 0)
+  };
+};
+
+/**
+ * Summarizes listening over a period. Sessions that started before the
+ * period only count for the part inside it; streaks always look at the
+ * whole history.
+ */
+export const buildStatsReport = (
+  sessions: ListeningSession[],
+  focusSessions: FocusSessionRecord[],
+  period: StatsPeriod,
+  now: Date = new Date()
+): StatsReport => {
+  const days = PERIOD_DAYS[period];
+  const since = days === null ? null : new Date(now.getTime() - days * DAY_MS);
+
+  const inPeriod = sessions
+    .filter(session => !since || Date.parse(session.endedAt) > since.getTime())
+    .map(session => {
+      if (!since || Date.parse(session.startedAt) >= since.getTime()) {
+        return session;
+      }
+      const duration = Math.round((Date.parse(session.endedAt) - since.getTime()) / 1000);
+      return { ...session, startedAt: since.toISOString(), duration };
+    });
+
+  const byStation = new Map<string, StationStats>();
+  inPeriod.forEach(session => {
+    const stats = byStation.get(session.stationId) || {
+      stationId: session.stationId,
+      stationName: session.stationName,
+      seconds: 0,
+      sessions: 0
+    };
+    stats.seconds += session.duration;
+    stats.sessions++;
+    byStation.set(session.stationId, stats);
+  });
+
+  const listened = listeningDays(sessions);
+  const today = countStreak(listened, now);
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  return {
+    period,
+    since: since ? since.toISOString() : null,
+    totalSeconds: inPeriod.reduce((total, session) => total + session.duration, 0),
+    sessions: inPeriod.length,
+    reconnects: inPeriod.reduce((total, session) => total + session.reconnects, 0),
+    stations: [...byStation.values()].sort((a, b) => b.seconds - a.seconds),
+    longestSession: inPeriod.reduce<ListeningSession | null>(
+      (longest, session) => (!longest || session.duration > longest.duration ? session : longest),
+      null
+    ),
+    // Today's streak isn't broken until the day is over without listening
+    currentStreak: today > 0 ? today : countStreak(listened, yesterday),
+    longestStreak: longestStreak(listened, sessions),
+    focus: summarizeFocus(focusSessions, since)
+  };
+};
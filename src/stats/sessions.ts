@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { getConfigDir } from '../config/store.js';
+import type { ListeningSession, Station } from '../types/index.js';
+
+// How often an open session is written to disk, so a crash loses at most this much
+const CHECKPOINT_INTERVAL_MS = 30 * 1000;
+// Playback that resumes on the same station this soon after stopping (a
+// restart for a volume change, or switching back) continues the session
+const RESUME_WINDOW_MS = 30 * 1000;
+
+interface OpenSession {
+  stationId: string;
+  stationName: string;
+  startedAt: string;
+  lastSeenAt: string;
+  reconnects: number;
+}
+
+export const getSessionLogPath = (): string => {
+  return path.join(getConfigDir(), 'sessions.jsonl');
+};
+
+const getCheckpointPath = (): string => {
+  return path.join(getConfigDir(), 'session.checkpoint.json');
+};
+
+const toSession = (open: OpenSession, endedAt: Date): ListeningSession => {
+  return {
+    stationId: open.stationId,
+    stationName: open.stationName,
+    startedAt: open.startedAt,
+    endedAt: endedAt.toISOString(),
+    duration: Math.max(0, Math.round((endedAt.getTime() - Date.parse(open.startedAt)) / 1000)),
+    reconnects: open.reconnects
+  };
+};
+
+const readCheckpoint = (): OpenSession | null => {
+  try {
+    return JSON.parse(fs.readFileSync(getCheckpointPath(), 'utf8'));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Turns the player's `playing`/`stopped` events into listening sessions.
+ * Finished sessions are appended to `sessions.jsonl`; the open one is
+ * checkpointed regularly so a crash still leaves a record of it, which
+ * `recover` files away on the next start.
+ */
+export class SessionRecorder {
+  private current: OpenSession | null = null;
+  private checkpointTimer: NodeJS.Timeout | null = null;
+  private stopTimer: NodeJS.Timeout | null = null;
+  private stoppedAt: Date | null = null;
+
+  // Files away a session left open by a daemon that didn't shut down cleanly
+  recover(): void {
+    const open = readCheckpoint();
+    if (open) {
+      appendSession(toSession(open, new Date(open.lastSeenAt)));
+      removeCheckpoint();
+    }
+  }
+
+  playing(station: Station): void {
+    if (this.current && this.current.stationId === station.id) {
+      this.cancelPendingStop();
+      return;
+    }
+
+    this.finish();
+    this.current = {
+      stationId: station.id,
+      stationName: station.name,
+      startedAt: new Date().toISOString(),
+      lastSeenAt: new Date().toISOString(),
+      reconnects: 0
+    };
+    this.checkpoint();
+    this.checkpointTimer = setInterval(() => this.checkpoint(), CHECKPOINT_INTERVAL_MS);
+  }
+
+  reconnected(): void {
+    if (this.current) {
+      this.current.reconnects++;
+    }
+  }
+
+  stopped(): void {
+    if (!this.current || this.stoppedAt) {
+      return;
+    }
+    this.stoppedAt = new Date();
+    this.stopTimer = setTimeout(() => this.finish(), RESUME_WINDOW_MS);
+  }
+
+  // Ends the open session now, e.g. when the daemon shuts down
+  finish(): void {
+    const open = this.current;
+    if (!open) {
+      return;
+    }
+
+    const endedAt = this.stoppedAt || new Date();
+    this.cancelPendingStop();
+    if (this.checkpointTimer) {
+      clearInterval(this.checkpointTimer);
+      this.checkpointTimer = null;
+    }
+    this.current = null;
+
+    appendSession(toSession(open, endedAt));
+    removeCheckpoint();
+  }
+
+  private cancelPendingStop(): void {
+    if (this.stopTimer) {
+      clearTimeout(this.stopTimer);
+      this.stopTimer = null;
+    }
+    this.stoppedAt = null;
+  }
+
+  private checkpoint(): void {
+    if (!this.current || this.stoppedAt) {
+      return;
+    }
+
+    this.current.lastSeenAt = new Date().toISOString();
+    try {
+      fs.writeFileSync(getCheckpointPath(), JSON.stringify(this.current));
+    } catch {
+      // Stats are best-effort; playback carries on without them
+    }
+  }
+}
+
+const appendSession = (session: ListeningSession): void => {
+  try {
+    fs.appendFileSync(getSessionLogPath(), JSON.stringify(session) + '\n');
+  } catch {
+    // Stats are best-effort; playback carries on without them
+  }
+};
+
+const removeCheckpoint = (): void => {
+  fs.rmSync(getCheckpointPath(), { force: true });
+};
+
+/**
+ * All recorded sessions, oldest first. A session still open in a running
+ * daemon is included up to its last checkpoint.
+ */
+export const readSessions = (): ListeningSession[] => {
+  const sessions: ListeningSession[] = [];
+
+  try {
+    fs.readFileSync(getSessionLogPath(), 'utf8').split('\n').forEach(line => {
+      try {
+        sessions.push(JSON.parse(line));
+      } catch {
+        // Blank or truncated line
+      }
+    });
+  } catch {
+    // No sessions yet
+  }
+
+  const open = readCheckpoint();
+  if (open) {
+    sessions.push(toSession(open, new Date(open.lastSeenAt)));
+  }
+
+  return sessions;
+};
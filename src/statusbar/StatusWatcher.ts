@@ -0,0 +1,136 @@
+import { EventEmitter } from 'events';
+import { DaemonClient } from '../daemon/DaemonClient.js';
+import type { DaemonEventName, PlayerStatus } from '../types/index.js';
+
+// Re-render this often, so uptimes and countdowns keep moving
+const TICK_MS = 1000;
+// How often to look for a daemon while none is running
+const RETRY_MS = 3000;
+// Sleep timers set from another client don't send an event, so fetch now and then anyway
+const RESYNC_MS = 30 * 1000;
+
+const REFRESH_EVENTS: DaemonEventName[] = [
+  'playing',
+  'stopped',
+  'error',
+  'reconnecting',
+  'connection_lost',
+  'metadata',
+  'quality_changed',
+  'sleep_expired',
+  'focus_phase',
+  'focus_finished',
+  'volume_changed'
+];
+
+export type StatusRenderer = (status: PlayerStatus | null, reconnecting: boolean) => string;
+
+/**
+ * Follows the daemon for long-running bar modules. It renders after every
+ * event and every second, and emits `line` (string) only when the output
+ * differs from the last one. While no daemon is running it shows the
+ * stopped state and keeps checking for one, without ever starting it.
+ */
+export class StatusWatcher extends EventEmitter {
+  private render: StatusRenderer;
+  private client: DaemonClient | null = null;
+  private status: PlayerStatus | null = null;
+  private reconnecting: boolean = false;
+  private last: string | null = null;
+  private ticker: NodeJS.Timeout | null = null;
+  private resync: NodeJS.Timeout | null = null;
+  private retry: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+
+  constructor(render: StatusRenderer) {
+    super();
+    this.render = render;
+  }
+
+  async start(): Promise<void> {
+    this.running = true;
+    this.ticker = setInterval(() => this.update(), TICK_MS);
+    this.resync = setInterval(() => this.fetch(), RESYNC_MS);
+    await this.connect();
+    this.update();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+    if (this.resync) {
+      clearInterval(this.resync);
+      this.resync = null;
+    }
+    if (this.retry) {
+      clearTimeout(this.retry);
+      this.retry = null;
+    }
+
+    this.client?.removeAllListeners('disconnected');
+    this.client?.close();
+    this.client = null;
+  }
+
+  private async connect(): Promise<void> {
+    this.retry = null;
+    const client = await DaemonClient.connect();
+    if (!this.running) {
+      client?.close();
+      return;
+    }
+    if (!client) {
+      this.retry = setTimeout(() => this.connect(), RETRY_MS);
+      return;
+    }
+
+    REFRESH_EVENTS.forEach(event => client.on(event, () => {
+      if (event === 'reconnecting') {
+        this.reconnecting = true;
+      } else if (event === 'playing' || event === 'stopped' || event === 'connection_lost') {
+        this.reconnecting = false;
+      }
+      this.fetch();
+    }));
+    client.on('disconnected', () => {
+      this.client = null;
+      this.status = null;
+      this.reconnecting = false;
+      this.update();
+      if (this.running) {
+        this.retry = setTimeout(() => this.connect(), RETRY_MS);
+      }
+    });
+
+    this.client = client;
+    try {
+      await client.subscribe();
+      await this.fetch();
+    } catch {
+      // The daemon went away in between; 'disconnected' takes it from here
+    }
+  }
+
+  private async fetch(): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+    try {
+      this.status = await this.client.status();
+    } catch {
+      return;
+    }
+    this.update();
+  }
+
+  private update(): void {
+    const line = this.render(this.status, this.reconnecting);
+    if (line !== this.last) {
+      this.last = line;
+      this.emit('line', line);
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import { formatCountdown, formatFocus, createError, truncate } from '../utils/helpers.js';
+import type { PlayerStatus, StatusBarFields, StatusBarPreset, StatusBarState } from '../types/index.js';
+
+export const STATUS_BAR_PRESETS: StatusBarPreset[] = ['tmux', 'polybar', 'waybar', 'i3blocks'];
+
+export const STATUS_FIELDS: (keyof StatusBarFields)[] = [
+  'state', 'icon', 'station', 'track', 'artist', 'title', 'genre', 'volume', 'uptime', 'quality', 'sleep', 'focus', 'backend'
+];
+
+// What --watch prints without a --format
+export const DEFAULT_STATUS_TEMPLATE = '{icon} {track|station|state}';
+
+// Bars are narrow; longer track names are cut to this
+const MAX_TEXT_LENGTH = 40;
+
+const ICONS: Record<StatusBarState, string> = {
+  playing: '♪',
+  muted: '♪',
+  reconnecting: '⟳',
+  stopped: '■'
+};
+
+// One palette for every bar: green, yellow for muted or reconnecting, grey when stopped
+const COLORS: Record<StatusBarState, string> = {
+  playing: '#8ec07c',
+  muted: '#fabd2f',
+  reconnecting: '#fabd2f',
+  stopped: '#928374'
+};
+
+const TMUX_COLORS: Record<StatusBarState, string> = {
+  playing: 'green',
+  muted: 'yellow',
+  reconnecting: 'yellow',
+  stopped: 'colour244'
+};
+
+// The main text every preset shows, before any markup
+const TEXT_TEMPLATES: Record<StatusBarState, string> = {
+  playing: `{icon} {track|station:${MAX_TEXT_LENGTH}} {volume}%`,
+  muted: `{icon} {track|station:${MAX_TEXT_LENGTH}} muted`,
+  reconnecting: `{icon} {station:${MAX_TEXT_LENGTH}}`,
+  stopped: '{icon} off'
+};
+
+type Segment = string | { names: (keyof StatusBarFields)[]; width: number | null };
+
+export const isStatusBarPreset = (value: string): value is StatusBarPreset => {
+  return (STATUS_BAR_PRESETS as string[]).includes(value);
+};
+
+/**
+ * Parses a status template. `{name}` is replaced by a field, `{a|b}` by the
+ * first of them that isn't empty, and `{name:20}` is cut to 20 characters;
+ * `{{` and `}}` are literal braces.
+ */
+export const parseStatusTemplate = (template: string): Segment[] => {
+  const segments: Segment[] = [];
+  let text = '';
+
+  for (let index = 0; index < template.length; index++) {
+    const char = template[index];
+    if ((char === '{' || char === '}') && template[index + 1] === char) {
+      text += char;
+      index++;
+      continue;
+    }
+    if (char === '}') {
+      throw createError('INVALID_TEMPLATE', 'Unmatched "}" in template (use "}}" for a literal brace)');
+    }
+    if (char !== '{') {
+      text += char;
+      continue;
+    }
+
+    const close = template.indexOf('}', index);
+    if (close === -1) {
+      throw createError('INVALID_TEMPLATE', 'Unclosed "{" in template (use "{{" for a literal brace)');
+    }
+    const [spec, width] = template.slice(index + 1, close).split(':');
+    const names = spec.split('|').map(name => name.trim());
+    const unknown = names.find(name => !(STATUS_FIELDS as string[]).includes(name));
+    if (unknown !== undefined) {
+      throw createError('INVALID_TEMPLATE', `Unknown placeholder "{${unknown}}" (expected ${STATUS_FIELDS.join(', ')})`);
+    }
+    const parsedWidth = width === undefined ? null : parseInt(width, 10);
+    if (parsedWidth !== null && !(parsedWidth > 0)) {
+      throw createError('INVALID_TEMPLATE', `Width in "{${spec}:${width}}" must be a positive number`);
+    }
+
+    if (text) {
+      segments.push(text);
+      text = '';
+    }
+    segments.push({ names: names as (keyof StatusBarFields)[], width: parsedWidth });
+    index = close;
+  }
+
+  if (text) {
+    segments.push(text);
+  }
+  return segments;
+};
+
+// `escape` applies to field values only, so presets can escape for their bar's markup
+const renderSegments = (segments: Segment[], fields: StatusBarFields, escape: (text: string) => string = text => text): string => {
+  return segments.map(segment => {
+    if (typeof segment === 'string') {
+      return segment;
+    }
+    const value = segment.names.map(name => fields[name]).find(Boolean) ?? '';
+    return escape(segment.width === null ? value : truncate(value, segment.width));
+  }).join('');
+};
+
+const renderTemplate = (template: string, fields: StatusBarFields, escape?: (text: string) => string): string => {
+  return renderSegments(parseStatusTemplate(template), fields, escape);
+};
+
+/**
+ * Works out the placeholder values from a daemon status (null when no
+ * daemon is running). Times count from the status's timestamps, so
+ * rendering the same status a second later gives a fresh uptime.
+ */
+export const getStatusBarFields = (status: PlayerStatus | null, reconnecting: boolean = false): StatusBarFields => {
+  const playing = Boolean(status?.isPlaying && status.currentStation);
+  const state: StatusBarState = !playing
+    ? (reconnecting && status?.currentStation ? 'reconnecting' : 'stopped')
+    : reconnecting ? 'reconnecting' : status!.muted ? 'muted' : 'playing';
+
+  const station = playing || state === 'reconnecting' ? status!.currentStation : null;
+  const track = playing ? status!.track : null;
+  const startedAt = playing && status!.startTime ? Date.parse(status!.startTime) : null;
+  const sleepEndsAt = status?.sleepEndsAt ? Date.parse(status.sleepEndsAt) : null;
+
+  return {
+    state,
+    icon: ICONS[state],
+    station: station?.name ?? '',
+    track: track ? (track.artist ? `${track.artist} - ${track.title}` : track.title) : '',
+    artist: track?.artist ?? '',
+    title: track?.title ?? '',
+    genre: station?.genre ?? '',
+    volume: status ? String(status.volume) : '',
+    uptime: startedAt === null ? '' : formatCountdown((Date.now() - startedAt) / 1000),
+    quality: playing ? status!.quality ?? '' : '',
+    sleep: sleepEndsAt === null ? '' : formatCountdown((sleepEndsAt - Date.now()) / 1000),
+    focus: status?.focus ? formatFocus(status.focus) : '',
+    backend: status?.backend ?? ''
+  };
+};
+
+const escapePango = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+const renderTooltip = (fields: StatusBarFields): string => {
+  if (fields.state === 'stopped') {
+    return 'Lofi Radio: not playing';
+  }
+  const lines = [fields.station, fields.track, `Volume: ${fields.volume}%${fields.state === 'muted' ? ' (muted)' : ''}`];
+  if (fields.uptime) {
+    lines.push(`Playing for ${fields.uptime}`);
+  }
+  if (fields.sleep) {
+    lines.push(`Sleeping in ${fields.sleep}`);
+  }
+  if (fields.focus) {
+    lines.push(`Focus: ${fields.focus}`);
+  }
+  return lines.filter(Boolean).join('\n');
+};
+
+/**
+ * Renders the status for a bar. Presets follow each bar's conventions:
+ * tmux and polybar colour codes, waybar's JSON (text, tooltip, class) for
+ * `return-type: json`, and i3blocks' full text, short text and colour
+ * lines, or one JSON object with `streaming` for a persistent block
+ * (`format=json`). Anything else is a template.
+ */
+export const renderStatusBar = (format: string, fields: StatusBarFields, streaming: boolean = false): string => {
+  const text = TEXT_TEMPLATES[fields.state];
+
+  switch (format) {
+    case 'tmux':
+      // tmux reads "#" as the start of a format, so names with one need it doubled
+      return `#[fg=${TMUX_COLORS[fields.state]}]${renderTemplate(text, fields, value => value.replace(/#/g, '##'))}#[default]`;
+
+    case 'polybar':
+      return `%{F${COLORS[fields.state]}}${renderTemplate(text, fields, value => value.replace(/%/g, '%%'))}%{F-}`;
+
+    case 'waybar':
+      return JSON.stringify({
+        text: renderTemplate(text, fields, escapePango),
+        tooltip: escapePango(renderTooltip(fields)),
+        class: fields.state,
+        alt: fields.state,
+        percentage: fields.volume ? Number(fields.volume) : 0
+      });
+
+    case 'i3blocks': {
+      const fullText = renderTemplate(text, fields);
+      const shortText = renderTemplate(fields.state === 'stopped' ? '{icon}' : '{icon} {station:15}', fields);
+      return streaming
+        ? JSON.stringify({ full_text: fullText, short_text: shortText, color: COLORS[fields.state] })
+        : [fullText, shortText, COLORS[fields.state]].join('\n');
+    }
+
+    default:
+      return renderTemplate(format, fields);
+  }
+};
@@ -0,0 +1,499 @@
+import readline from 'readline';
+import chalk from 'chalk';
+import type Conf from 'conf';
+import { DaemonClient } from '../daemon/DaemonClient.js';
+import { getStations } from '../config/stations.js';
+import { isFavorite } from '../config/favorites.js';
+import { describeQuality } from '../player/quality.js';
+import { Visualizer, getVisualizerFrameRate } from './Visualizer.js';
+import {
+  createProgressBar,
+  formatCountdown,
+  formatMetadata,
+  formatReconnect,
+  formatUptime,
+  resolveVolume,
+  truncate
+} from '../utils/helpers.js';
+import type {
+  AudioLevels,
+  BackendName,
+  Config,
+  HealthStatus,
+  PlayerStatus,
+  QualityChange,
+  ReconnectInfo,
+  Station,
+  StreamError,
+  TrackMetadata
+} from '../types/index.js';
+
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const LEAVE_SCREEN = '\x1b[?25h\x1b[?1049l';
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+const MIN_WIDTH = 60;
+const MIN_HEIGHT = 16;
+const VOLUME_STEP = 5;
+const MAX_LOG_ENTRIES = 200;
+// Lines inside the volume/connection pane
+const STATUS_LINES = 4;
+const NOW_PLAYING_LINES = 4;
+// The visualizer pane only shows with at least this many lines inside
+const MIN_VISUALIZER_LINES = 2;
+
+const HEALTH_COLORS: Record<HealthStatus, (text: string) => string> = {
+  ok: chalk.green,
+  warning: chalk.yellow,
+  broken: chalk.red
+};
+
+const visibleLength = (text: string): number => {
+  return text.replace(ANSI_PATTERN, '').length;
+};
+
+// Pads or cuts a line to exactly `width` columns. Cutting drops the colors,
+// which is simpler than slicing through escape codes.
+const fit = (text: string, width: number): string => {
+  const length = visibleLength(text);
+  if (length <= width) {
+    return text + ' '.repeat(width - length);
+  }
+  return truncate(text.replace(ANSI_PATTERN, ''), width);
+};
+
+const drawBox = (title: string, lines: string[], width: number, height: number, focused: boolean = false): string[] => {
+  const border = focused ? chalk.cyan : chalk.dim;
+  const inner = width - 2;
+  const label = truncate(` ${title} `, Math.max(0, inner - 1));
+
+  const box = [border('┌─') + chalk.bold(label) + border('─'.repeat(Math.max(0, inner - 1 - label.length)) + '┐')];
+  for (let row = 0; row < height - 2; row++) {
+    box.push(border('│') + fit(lines[row] ?? '', inner) + border('│'));
+  }
+  box.push(border('└' + '─'.repeat(inner) + '┘'));
+  return box;
+};
+
+/**
+ * A full-screen dashboard on the terminal's alternate screen. Like the
+ * REPL it drives the daemon through a DaemonClient and follows the
+ * player's events, but it redraws fixed panes in place instead of
+ * printing, so nothing scrolls away or gets drawn over.
+ */
+export class Dashboard {
+  private client: DaemonClient;
+  private config: Conf<Config>;
+  private backend: BackendName;
+  private status: PlayerStatus | null = null;
+  private track: TrackMetadata | null = null;
+  private health: { level: HealthStatus; text: string } = { level: 'ok', text: 'Idle' };
+  private log: { at: Date; text: string }[] = [];
+  private selected: number = 0;
+  private active: boolean = false;
+  private ticker: NodeJS.Timeout | null = null;
+  // Null while the visualizer is switched off
+  private visualizer: Visualizer | null = new Visualizer('bars');
+  // The lines on screen, so a render only rewrites what changed
+  private frame: string[] = [];
+  private busy: boolean = false;
+  private onKeypress = (input: string, key: readline.Key) => this.handleKey(input, key);
+  private onResize = () => this.render(true);
+  private onExit = () => this.restore();
+
+  constructor(client: DaemonClient, config: Conf<Config>, backend: BackendName) {
+    this.client = client;
+    this.config = config;
+    this.backend = backend;
+  }
+
+  async start(): Promise<void> {
+    if (!process.stdin.isTTY || !process.stdout.isTTY) {
+      throw new Error('The dashboard needs an interactive terminal');
+    }
+
+    this.setupPlayerListeners();
+    await this.client.subscribe();
+    await this.refreshStatus();
+    await this.watchLevels();
+
+    const stations = getStations();
+    const current = this.status?.currentStation?.id || this.config.get('lastStation');
+    this.selected = Math.max(0, stations.findIndex(station => station.id === current));
+    this.addLog(this.status?.isPlaying ? `Playing ${this.status.currentStation?.name}` : 'Ready');
+
+    this.active = true;
+    process.stdout.write(ENTER_SCREEN);
+    readline.emitKeypressEvents(process.stdin);
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.on('keypress', this.onKeypress);
+    process.stdout.on('resize', this.onResize);
+
+    // Whatever happens, the terminal has to come back usable
+    process.on('exit', this.onExit);
+    process.on('SIGTERM', () => this.quit(false));
+    process.on('uncaughtException', (error: Error) => this.crash(error));
+    process.on('unhandledRejection', (reason: unknown) => this.crash(reason instanceof Error ? reason : new Error(String(reason))));
+
+    this.ticker = setInterval(() => this.render(), 1000);
+    this.render(true);
+  }
+
+  private async watchLevels(): Promise<void> {
+    if (!this.visualizer) {
+      return;
+    }
+
+    try {
+      const { available, backend } = await this.client.levels(getVisualizerFrameRate(), this.backend);
+      this.visualizer?.setSource(available, backend);
+    } catch (error: any) {
+      this.addLog(`Error: ${error.message}`);
+    }
+  }
+
+  // Bars, then meter, then off
+  private async cycleVisualizer(): Promise<void> {
+    if (!this.visualizer) {
+      this.visualizer = new Visualizer('bars');
+      await this.watchLevels();
+    } else if (this.visualizer.mode === 'bars') {
+      this.visualizer.mode = 'meter';
+    } else {
+      this.visualizer = null;
+      await this.client.stopLevels().catch(() => {});
+    }
+    this.render();
+  }
+
+  private setupPlayerListeners(): void {
+    this.client.on('playing', (station: Station) => {
+      this.health = { level: 'ok', text: 'Connected' };
+      this.track = null;
+      this.addLog(`Playing ${station.name}`);
+      this.refreshStatus();
+      // The station may have been started on a backend without levels
+      this.watchLevels();
+    });
+
+    this.client.on('stopped', () => {
+      this.health = { level: 'ok', text: 'Idle' };
+      this.track = null;
+      this.visualizer?.clear();
+      this.addLog('Playback stopped');
+      this.refreshStatus();
+    });
+
+    this.client.on('metadata', (track: TrackMetadata) => {
+      this.track = track;
+      this.addLog(`♪ ${track.raw}`);
+    });
+
+    this.client.on('reconnecting', (info: ReconnectInfo) => {
+      this.health = { level: 'warning', text: formatReconnect(info) };
+      this.addLog(formatReconnect(info));
+    });
+
+    this.client.on('connection_lost', (error: StreamError) => {
+      this.health = { level: 'broken', text: 'Connection lost' };
+      this.addLog(`Connection lost: ${error.message}`);
+    });
+
+    this.client.on('error', (error: StreamError) => {
+      this.addLog(`Error: ${error.message}`);
+    });
+
+    this.client.on('quality_changed', (change: QualityChange) => {
+      this.addLog(`Quality ${change.reason}: ${change.previous} → ${change.tier}`);
+      this.refreshStatus();
+    });
+
+    this.client.on('sleep_warning', (remaining: number) => {
+      this.addLog(`Sleep timer: stopping in ${formatCountdown(remaining / 1000)}`);
+    });
+
+    this.client.on('sleep_expired', () => {
+      this.addLog('Sleep timer expired');
+    });
+
+    this.client.on('levels', (levels: AudioLevels) => {
+      if (this.visualizer) {
+        this.visualizer.update(levels);
+        // A terminal that can't keep up gets fewer frames rather than a backlog
+        if (!this.busy) {
+          this.render();
+        }
+      }
+    });
+
+    this.client.on('disconnected', () => {
+      this.restore();
+      console.error(chalk.red('Lost connection to the radio daemon'));
+      process.exit(1);
+    });
+  }
+
+  private async refreshStatus(): Promise<void> {
+    try {
+      this.status = await this.client.status();
+      this.track = this.status.track ?? this.track;
+    } catch (error: any) {
+      this.addLog(`Error: ${error.message}`);
+    }
+    this.render();
+  }
+
+  private addLog(text: string): void {
+    this.log.push({ at: new Date(), text });
+    if (this.log.length > MAX_LOG_ENTRIES) {
+      this.log.shift();
+    }
+    this.render();
+  }
+
+  private handleKey(input: string, key: readline.Key): void {
+    const stations = getStations();
+
+    if ((key?.ctrl && key.name === 'c') || input === 'q') {
+      this.quit(true);
+    } else if (input === 'd') {
+      this.quit(false);
+    } else if (key?.name === 'up' || input === 'k') {
+      this.selected = (this.selected - 1 + stations.length) % stations.length;
+      this.render();
+    } else if (key?.name === 'down' || input === 'j') {
+      this.selected = (this.selected + 1) % stations.length;
+      this.render();
+    } else if (key?.name === 'return' || key?.name === 'enter') {
+      this.play(stations[this.selected]);
+    } else if (input === '+' || input === '=') {
+      this.changeVolume(`+${VOLUME_STEP}`);
+    } else if (input === '-' || input === '_') {
+      this.changeVolume(`-${VOLUME_STEP}`);
+    } else if (input === 'm') {
+      this.toggleMute();
+    } else if (input === 'v') {
+      this.cycleVisualizer();
+    } else if (input === 's') {
+      this.client.stop().catch((error: Error) => this.addLog(`Error: ${error.message}`));
+    }
+  }
+
+  private async play(station: Station | undefined): Promise<void> {
+    if (!station) {
+      return;
+    }
+
+    this.config.set('lastStation', station.id);
+    this.health = { level: 'warning', text: `Connecting to ${station.name}…` };
+    this.addLog(`Connecting to ${station.name}…`);
+    try {
+      await this.client.play(station, this.config.get('volume'), this.backend);
+    } catch (error: any) {
+      this.health = { level: 'broken', text: error.message };
+      this.addLog(`Couldn't play ${station.name}: ${error.message}`);
+    }
+  }
+
+  private async changeVolume(change: string): Promise<void> {
+    const volume = resolveVolume(change, this.config.get('volume'));
+    if (volume === null) {
+      return;
+    }
+
+    this.config.set('volume', volume);
+    try {
+      this.status = await this.client.setVolume(volume);
+    } catch (error: any) {
+      this.addLog(`Error: ${error.message}`);
+    }
+    this.render();
+  }
+
+  private async toggleMute(): Promise<void> {
+    if (!this.status?.isPlaying) {
+      return;
+    }
+
+    try {
+      this.status = this.status.muted ? await this.client.unmute() : await this.client.mute();
+      this.addLog(this.status.muted ? 'Muted' : 'Unmuted');
+    } catch (error: any) {
+      this.addLog(`Error: ${error.message}`);
+    }
+  }
+
+  // `q` stops playback like leaving the REPL does; `d` leaves it running
+  private async quit(stopPlayback: boolean): Promise<void> {
+    this.restore();
+    this.client.removeAllListeners('disconnected');
+    if (stopPlayback) {
+      await this.client.stop().catch(() => {});
+    }
+    this.client.close();
+    process.exit(0);
+  }
+
+  private crash(error: Error): void {
+    this.restore();
+    console.error(chalk.red(error.stack || error.message));
+    process.exit(1);
+  }
+
+  private restore(): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.active = false;
+    if (this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+    process.stdin.off('keypress', this.onKeypress);
+    process.stdout.off('resize', this.onResize);
+    process.off('exit', this.onExit);
+    if (process.stdin.isTTY) {
+      process.stdin.setRawMode(false);
+    }
+    process.stdin.pause();
+    process.stdout.write(LEAVE_SCREEN);
+  }
+
+  // `full` redraws everything, for when the screen may no longer match the last frame
+  private render(full: boolean = false): void {
+    if (!this.active) {
+      return;
+    }
+
+    const width = process.stdout.columns || 80;
+    const height = process.stdout.rows || 24;
+    const lines = width < MIN_WIDTH || height < MIN_HEIGHT
+      ? [chalk.yellow(`Make the terminal at least ${MIN_WIDTH}x${MIN_HEIGHT} (q to quit)`)]
+      : this.layout(width, height);
+
+    if (full) {
+      this.frame = [];
+    }
+    let output = full ? '\x1b[2J' : '';
+    lines.forEach((line, row) => {
+      if (this.frame[row] !== line) {
+        output += `\x1b[${row + 1};1H${line}\x1b[K`;
+      }
+    });
+    if (lines.length < this.frame.length) {
+      output += `\x1b[${lines.length + 1};1H\x1b[J`;
+    }
+    this.frame = lines;
+
+    if (output && !process.stdout.write(output)) {
+      this.busy = true;
+      process.stdout.once('drain', () => {
+        this.busy = false;
+      });
+    }
+  }
+
+  private layout(width: number, height: number): string[] {
+    const logHeight = Math.max(5, Math.floor(height * 0.3));
+    const topHeight = height - logHeight - 1;
+    const leftWidth = Math.min(36, Math.floor(width * 0.4));
+    const rightWidth = width - leftWidth;
+    const statusHeight = STATUS_LINES + 2;
+
+    // The visualizer gets whatever the now playing pane doesn't need
+    let nowPlayingHeight = topHeight - statusHeight;
+    let visualizerHeight = 0;
+    if (this.visualizer && nowPlayingHeight - (NOW_PLAYING_LINES + 2) >= MIN_VISUALIZER_LINES + 2) {
+      visualizerHeight = nowPlayingHeight - (NOW_PLAYING_LINES + 2);
+      nowPlayingHeight = NOW_PLAYING_LINES + 2;
+    }
+
+    const left = this.stationPane(leftWidth, topHeight);
+    const right = [
+      ...this.nowPlayingPane(rightWidth, nowPlayingHeight),
+      ...(visualizerHeight ? this.visualizerPane(rightWidth, visualizerHeight) : []),
+      ...this.statusPane(rightWidth, statusHeight)
+    ];
+
+    const lines = left.map((line, row) => line + right[row]);
+    lines.push(...this.logPane(width, logHeight));
+    lines.push(fit(chalk.dim(' ↑/↓ select  Enter play  +/- volume  m mute  s stop  v visualizer  d detach  q quit'), width - 1));
+    return lines;
+  }
+
+  private stationPane(width: number, height: number): string[] {
+    const stations = getStations();
+    const rows = height - 2;
+    const offset = Math.max(0, Math.min(this.selected - Math.floor(rows / 2), stations.length - rows));
+    const playingId = this.status?.isPlaying ? this.status.currentStation?.id : null;
+
+    const lines = stations.slice(offset, offset + rows).map((station, index) => {
+      const position = offset + index;
+      const marker = station.id === playingId ? chalk.green('♪') : ' ';
+      const star = isFavorite(station.id) ? chalk.yellow('★') : ' ';
+      const name = truncate(station.name, width - 8);
+      const text = position === this.selected ? chalk.inverse(` ${name} `) : ` ${name} `;
+      return `${marker}${star}${text}`;
+    });
+
+    return drawBox('Stations', lines, width, height, true);
+  }
+
+  private nowPlayingPane(width: number, height: number): string[] {
+    const station = this.status?.isPlaying ? this.status.currentStation : null;
+    if (!station) {
+      return drawBox('Now Playing', ['', chalk.dim(' Nothing playing. Pick a station and press Enter.')], width, height);
+    }
+
+    const quality = this.status?.quality
+      ? describeQuality(station, this.status.quality, this.status.qualityMode)
+      : station.quality;
+    const lines = [
+      ` ${chalk.white.bold(station.name)}`,
+      ` ${chalk.cyan(station.genre)} ${chalk.dim('•')} ${chalk.yellow(quality)}`,
+      ` ${this.track ? formatMetadata(this.track) : chalk.dim('Waiting for track info…')}`,
+      ` ${chalk.dim(station.description)}`
+    ];
+    return drawBox('Now Playing', lines, width, height);
+  }
+
+  private visualizerPane(width: number, height: number): string[] {
+    const visualizer = this.visualizer!;
+    const title = visualizer.mode === 'meter' ? 'Levels' : 'Spectrum';
+    const lines = visualizer.render(width - 4, height - 2).map(line => ` ${line}`);
+    return drawBox(title, lines, width, height);
+  }
+
+  private statusPane(width: number, height: number): string[] {
+    const status = this.status;
+    const volume = status?.volume ?? this.config.get('volume');
+    const gauge = createProgressBar(volume, 100, Math.max(10, width - 20));
+    const muted = status?.muted ? chalk.red(' muted') : '';
+
+    const uptime = status?.isPlaying && status.startTime
+      ? formatUptime(Math.floor((Date.now() - Date.parse(status.startTime)) / 1000))
+      : '-';
+
+    const color = HEALTH_COLORS[this.health.level];
+    const lines = [
+      ` Volume  ${gauge}${muted}`,
+      ` Uptime  ${uptime}`,
+      ` Health  ${color('●')} ${this.health.text}`
+    ];
+
+    if (status?.sleepEndsAt) {
+      lines.push(` Sleep   ${formatCountdown((Date.parse(status.sleepEndsAt) - Date.now()) / 1000)}`);
+    }
+    return drawBox('Playback', lines, width, height);
+  }
+
+  private logPane(width: number, height: number): string[] {
+    const lines = this.log.slice(-(height - 2)).map(entry => {
+      const time = entry.at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+      return ` ${chalk.dim(time)} ${entry.text}`;
+    });
+    return drawBox('Log', lines, width, height);
+  }
+}
@@ -0,0 +1,172 @@
+import chalk from 'chalk';
+import { GRADIENT_COLORS } from '../utils/helpers.js';
+import type { AudioLevels, VisualizerMode } from '../types/index.js';
+
+export const VISUALIZER_MODES: VisualizerMode[] = ['bars', 'meter'];
+
+const BLOCKS = [' ', '▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+// Levels jump up at once but fall at this share of the full height per second
+const FALL_RATE = 1.5;
+const PEAK_HOLD_MS = 1000;
+const FLOOR_DB = -60;
+// Meter zones, as in a hardware meter: green, then yellow, then red
+const WARN_LEVEL = 0.8;
+const CLIP_LEVEL = 0.95;
+
+type Paint = (text: string) => string;
+
+export const isVisualizerMode = (value: string): value is VisualizerMode => {
+  return (VISUALIZER_MODES as string[]).includes(value);
+};
+
+// Fewer frames over SSH; the drawing code also skips frames a slow terminal hasn't taken yet
+export const getVisualizerFrameRate = (): number => {
+  return process.env.SSH_CONNECTION || process.env.SSH_TTY ? 12 : 24;
+};
+
+// Stretches or squeezes a row of levels to `count` values
+const resample = (values: number[], count: number): number[] => {
+  if (values.length === 0) {
+    return new Array(count).fill(0);
+  }
+
+  return Array.from({ length: count }, (_, index) => {
+    const position = count === 1 ? 0 : index * (values.length - 1) / (count - 1);
+    const low = Math.floor(position);
+    const high = Math.min(values.length - 1, low + 1);
+    return values[low] + (values[high] - values[low]) * (position - low);
+  });
+};
+
+// Colours runs of cells in one go rather than one escape code per cell
+const paintCells = (cells: [string, Paint][]): string => {
+  let output = '';
+  let run = '';
+  let paint: Paint | null = null;
+
+  cells.forEach(([char, cellPaint]) => {
+    if (cellPaint !== paint && run) {
+      output += paint!(run);
+      run = '';
+    }
+    paint = cellPaint;
+    run += char;
+  });
+  return run ? output + paint!(run) : output;
+};
+
+const zonePaint = (level: number): Paint => {
+  if (level >= CLIP_LEVEL) {
+    return chalk.red;
+  }
+  return level >= WARN_LEVEL ? chalk.yellow : chalk.green;
+};
+
+/**
+ * Draws the levels the daemon sends as either a spectrum (`bars`) or a
+ * stereo VU meter (`meter`), sized to whatever space it is given. It keeps
+ * a little state between frames so bars fall smoothly and peaks hold.
+ */
+export class Visualizer {
+  mode: VisualizerMode;
+  private bands: number[] = [];
+  private rms: number[] = [0, 0];
+  private peaks: { level: number; at: number }[] = [{ level: 0, at: 0 }, { level: 0, at: 0 }];
+  private updatedAt: number = Date.now();
+  private unavailable: string | null = null;
+
+  constructor(mode: VisualizerMode = 'bars') {
+    this.mode = mode;
+  }
+
+  // Whether the daemon's backend gives audio to analyse at all
+  setSource(available: boolean, backend: string): void {
+    this.unavailable = available
+      ? null
+      : `No audio levels from the ${backend} backend; the visualizer needs ffplay with ffmpeg`;
+  }
+
+  update(levels: AudioLevels): void {
+    const now = Date.now();
+    const fall = Math.min(1, FALL_RATE * (now - this.updatedAt) / 1000);
+    this.updatedAt = now;
+
+    this.bands = levels.bands.map((level, index) => Math.max(level, (this.bands[index] ?? 0) - fall));
+    this.rms = levels.rms.map((level, index) => Math.max(level, (this.rms[index] ?? 0) - fall));
+    this.peaks = levels.peak.map((level, index) => {
+      const held = this.peaks[index] ?? { level: 0, at: 0 };
+      if (level >= held.level) {
+        return { level, at: now };
+      }
+      return now - held.at < PEAK_HOLD_MS ? held : { level: Math.max(level, held.level - fall), at: held.at };
+    });
+  }
+
+  clear(): void {
+    this.bands = this.bands.map(() => 0);
+    this.rms = this.rms.map(() => 0);
+    this.peaks = this.peaks.map(() => ({ level: 0, at: 0 }));
+  }
+
+  // Exactly `height` lines, each `width` columns wide
+  render(width: number, height: number): string[] {
+    const lines = this.unavailable
+      ? [chalk.dim(this.unavailable.slice(0, width))]
+      : this.mode === 'meter' ? this.renderMeter(width) : this.renderBars(width, height);
+
+    const blank = ' '.repeat(width);
+    // Short content sits in the middle of the space
+    const top = Math.max(0, Math.floor((height - lines.length) / 2));
+    return Array.from({ length: height }, (_, row) => lines[row - top] ?? blank);
+  }
+
+  private renderBars(width: number, height: number): string[] {
+    // One column per bar with a gap between, so neighbouring bands stay apart
+    const count = Math.max(1, Math.floor((width + 1) / 2));
+    const levels = resample(this.bands, count);
+    const paints = levels.map((_, index) => GRADIENT_COLORS[Math.floor(index / count * GRADIENT_COLORS.length)]);
+
+    return Array.from({ length: height }, (_, row) => {
+      const below = height - 1 - row;
+      const cells: [string, Paint][] = [];
+
+      levels.forEach((level, index) => {
+        const fill = level * height - below;
+        const char = fill >= 1 ? '█' : fill <= 0 ? ' ' : BLOCKS[Math.round(fill * 8)];
+        cells.push([char, paints[index]]);
+        if (index < count - 1) {
+          cells.push([' ', paints[index]]);
+        }
+      });
+
+      const line = paintCells(cells);
+      return line + ' '.repeat(Math.max(0, width - (count * 2 - 1)));
+    });
+  }
+
+  private renderMeter(width: number): string[] {
+    const labels = this.rms.length === 2 ? ['L', 'R'] : this.rms.map((_, index) => String(index + 1));
+    const barWidth = Math.max(1, width - 11);
+
+    return this.rms.map((level, channel) => {
+      const filled = Math.round(level * barWidth);
+      const peak = this.peaks[channel]?.level ?? 0;
+      const peakCell = peak > 0 ? Math.min(barWidth - 1, Math.max(filled, Math.round(peak * barWidth) - 1)) : -1;
+
+      const cells: [string, Paint][] = [];
+      for (let cell = 0; cell < barWidth; cell++) {
+        const position = (cell + 1) / barWidth;
+        if (cell < filled) {
+          cells.push(['█', zonePaint(position)]);
+        } else if (cell === peakCell) {
+          cells.push(['▌', zonePaint(position)]);
+        } else {
+          cells.push(['░', chalk.dim]);
+        }
+      }
+
+      const db = `${Math.round(FLOOR_DB - level * FLOOR_DB)} dB`.padStart(7);
+      return ` ${chalk.dim(labels[channel])} ${paintCells(cells)} ${chalk.yellow(db)}`;
+    });
+  }
+}
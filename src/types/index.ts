@@ -1,3 +1,8 @@
+import type { EventEmitter } from 'events';
+import type { Readable } from 'stream';
+import type Conf from 'conf';
+import type { DaemonClient } from '../daemon/DaemonClient.js';
+
 export interface Station {
   id: string;
   name: string;
@@ -5,6 +10,48 @@ export interface Station {
   genre: string;
   description: string;
   quality: string;
+  // Tried in order after `url` when the stream can't be reached
+  mirrors?: string[];
+  // Lower-bitrate streams of the same station; `url` and `quality` are the high tier
+  variants?: StationVariant[];
+}
+
+export type QualityTier = 'low' | 'medium' | 'high';
+
+// `auto` starts high and steps down (and back up) with the connection
+export type QualityPreference = QualityTier | 'auto';
+
+export interface StationVariant {
+  tier: Exclude<QualityTier, 'high'>;
+  url: string;
+  quality?: string;
+}
+
+export interface QualityChange {
+  tier: QualityTier;
+  previous: QualityTier;
+  reason: 'downgrade' | 'upgrade';
+}
+
+/**
+ * One visualizer frame. Every value is a level from 0 to 1 on a decibel
+ * scale, where 0 is -60 dBFS or quieter and 1 is full scale.
+ */
+export interface AudioLevels {
+  // Per channel, left then right
+  rms: number[];
+  peak: number[];
+  // Log-spaced frequency bands, lowest first
+  bands: number[];
+}
+
+export type VisualizerMode = 'bars' | 'meter';
+
+export interface TrackMetadata {
+  artist?: string;
+  title: string;
+  album?: string;
+  raw: string;
 }
 
 export interface PlayerState {
@@ -12,13 +59,301 @@ export interface PlayerState {
   currentStation: Station | null;
   volume: number;
   startTime: Date | null;
-  process: any | null;
+  backend: BackendName;
+  track: TrackMetadata | null;
+  muted: boolean;
+  sleepEndsAt: Date | null;
+  // The tier being streamed, null when stopped
+  quality: QualityTier | null;
+  qualityMode: QualityPreference;
+}
+
+export type BackendName = 'ffplay' | 'mpv' | 'cvlc' | 'null';
+
+export interface BackendCapabilities {
+  // Volume changes apply to the running output without restarting it
+  liveVolume: boolean;
+  // Audio actually reaches the speakers (false for the null backend)
+  audioOutput: boolean;
+  // Decoded audio is handed back as `pcm` events, which the visualizer needs
+  levels: boolean;
+}
+
+/**
+ * An audio output that plays an encoded stream fed to it by StreamPlayer.
+ * Implementations emit `error` with a classified StreamError (without the
+ * station) and `exit` with the exit code when the output ends on its own.
+ * Backends with the `levels` capability also emit `pcm` with each chunk of
+ * signed 16-bit stereo 44.1 kHz audio as it goes to the speakers.
+ */
+export interface AudioBackend extends EventEmitter {
+  readonly name: BackendName;
+  readonly capabilities: BackendCapabilities;
+  isAvailable(): Promise<boolean>;
+  isRunning(): boolean;
+  start(input: Readable, volume: number): Promise<void>;
+  stop(): Promise<void>;
+  setVolume(volume: number): Promise<void>;
+  // Plays a short WAV clip such as a chime; resolves when it ends, even if it couldn't play
+  playClip(clip: Buffer): Promise<void>;
+  classifyError(output: string): string | null;
 }
 
 export interface Config {
   lastStation: string | null;
   volume: number;
   favorites: string[];
+  userStations: Station[];
+  backend: BackendName | 'auto';
+  fadeDuration: number;
+  schedules: ScheduleEntry[];
+  reconnect: ReconnectPolicy;
+  quality: QualityPreference;
+  directory: DirectoryConfig;
+  // npm packages (or paths to modules) to load as plugins, besides those in <config dir>/plugins
+  plugins: string[];
+  hooks: HookEntry[];
+  // Hook commands allowed to run at once; the rest wait their turn
+  hookConcurrency: number;
+}
+
+export interface DirectoryConfig {
+  // Base URL of a Radio Browser compatible API
+  url: string;
+  // Seconds a cached search stays fresh
+  cacheTtl: number;
+}
+
+export interface DirectoryQuery {
+  query: string;
+  genre?: string;
+  country?: string;
+  codec?: string;
+  limit?: number;
+}
+
+export interface DirectoryStation {
+  uuid: string;
+  name: string;
+  url: string;
+  homepage: string;
+  tags: string[];
+  country: string;
+  countryCode: string;
+  codec: string;
+  // Kbps, 0 when the directory doesn't know
+  bitrate: number;
+  votes: number;
+}
+
+export interface DirectorySearchResult {
+  stations: DirectoryStation[];
+  fetchedAt: string;
+  fromCache: boolean;
+  // Served from an expired cache entry because the directory couldn't be reached
+  stale: boolean;
+}
+
+/**
+ * How the player retries a dropped stream. Delays are in seconds; each
+ * attempt waits twice as long as the last, up to `maxDelay`, with jitter.
+ */
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  // Never give up, for speakers that should always be playing
+  alwaysRetry: boolean;
+}
+
+// Sent with `reconnecting`; maxAttempts is null when retrying forever
+export interface ReconnectInfo {
+  attempt: number;
+  maxAttempts: number | null;
+  // The URL the next attempt starts with; mirror 0 is the station's own URL
+  url: string;
+  mirror: number;
+  // Milliseconds until the attempt
+  delay: number;
+  nextRetryAt: string;
+}
+
+export interface TrackHistoryEntry {
+  stationId: string;
+  stationName: string;
+  stationUrl: string;
+  artist?: string;
+  title: string;
+  startedAt: string;
+  // Null while the track is still playing, or if the daemon died mid-track
+  endedAt: string | null;
+}
+
+export type TrackExportFormat = 'csv' | 'json' | 'm3u';
+
+export interface ListeningSession {
+  stationId: string;
+  stationName: string;
+  startedAt: string;
+  endedAt: string;
+  // Seconds of listening
+  duration: number;
+  reconnects: number;
+}
+
+export type StatsPeriod = 'week' | 'month' | 'all';
+
+export type FocusPhase = 'work' | 'break';
+
+// Lengths are in seconds
+export interface FocusPlan {
+  station: Station;
+  // Played during breaks; null for silence
+  breakStation: Station | null;
+  work: number;
+  break: number;
+  cycles: number;
+}
+
+export interface FocusStatus {
+  phase: FocusPhase;
+  // The work block this phase belongs to, counting from 1
+  cycle: number;
+  cycles: number;
+  // What the phase plays, null for a silent break
+  station: Station | null;
+  startedAt: string;
+  phaseEndsAt: string;
+  // Seconds left in the phase
+  remaining: number;
+}
+
+// A finished or abandoned focus session, as logged to the stats store
+export interface FocusSessionRecord {
+  stationId: string;
+  stationName: string;
+  breakStationId: string | null;
+  startedAt: string;
+  endedAt: string;
+  // Work blocks run to the end, out of the planned cycles
+  cycles: number;
+  plannedCycles: number;
+  // Seconds spent in work blocks, including an unfinished one
+  focusSeconds: number;
+  completed: boolean;
+}
+
+export interface FocusStats {
+  sessions: number;
+  completed: number;
+  cycles: number;
+  focusSeconds: number;
+}
+
+export interface StationStats {
+  stationId: string;
+  stationName: string;
+  seconds: number;
+  sessions: number;
+}
+
+export interface StatsReport {
+  period: StatsPeriod;
+  since: string | null;
+  totalSeconds: number;
+  sessions: number;
+  reconnects: number;
+  stations: StationStats[];
+  longestSession: ListeningSession | null;
+  // Consecutive days with any listening, ending today (or yesterday)
+  currentStreak: number;
+  longestStreak: number;
+  focus: FocusStats;
+}
+
+export type HealthStatus = 'ok' | 'warning' | 'broken';
+
+export interface StationProbe {
+  stationId: string;
+  stationName: string;
+  url: string;
+  status: HealthStatus;
+  httpStatus: number | null;
+  // Each URL that answered with a redirect, in order
+  redirects: string[];
+  finalUrl: string;
+  contentType: string | null;
+  // Kbps from `icy-br`, and what the station's quality field claims
+  bitrate: number | null;
+  expectedBitrate: number | null;
+  // Milliseconds from the request to the first byte of audio
+  ttfb: number | null;
+  audioFormat: string | null;
+  problems: string[];
+}
+
+export interface DoctorReport {
+  stations: StationProbe[];
+  backends: Record<BackendName, boolean>;
+  config: {
+    path: string;
+    problems: string[];
+  };
+}
+
+export type ScheduleAction = 'play' | 'stop';
+
+export interface ScheduleEntry {
+  id: string;
+  // The spec as the user wrote it, e.g. "mon-fri 09:00"
+  when: string;
+  // Days of the week it runs on, 0 = Sunday
+  days: number[];
+  hour: number;
+  minute: number;
+  action: ScheduleAction;
+  stationId?: string;
+  volume?: number;
+  // Seconds to ramp the volume up from silence, for alarms
+  ramp?: number;
+  skipIfPlaying: boolean;
+  createdAt: string;
+  lastRun: string | null;
+}
+
+export type HookEvent = 'on_play' | 'on_stop' | 'on_track_change' | 'on_error' | 'on_connection_lost';
+
+export interface HookEntry {
+  id: string;
+  event: HookEvent;
+  // Run through the shell, so pipes, && and variables work
+  command: string;
+  // Seconds before the command is killed
+  timeout: number;
+  createdAt: string;
+}
+
+// What a hook command gets as JSON on stdin; the same details are in RADIO_* variables
+export interface HookPayload {
+  event: HookEvent;
+  timestamp: string;
+  station: Station | null;
+  track: TrackMetadata | null;
+  error: { code: string; message: string } | null;
+}
+
+export interface HookResult {
+  hookId: string;
+  event: HookEvent;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  // Milliseconds
+  duration: number;
+  // stdout and stderr together, cut off past a limit
+  output: string;
+  // Set when the command couldn't be started at all
+  error: string | null;
 }
 
 export interface StreamError {
@@ -36,4 +371,179 @@ export interface VolumeOptions {
 export interface PlayOptions {
   station?: string;
   volume?: string;
-}
\ No newline at end of file
+}
+
+export type PlaylistFormat = 'm3u' | 'pls' | 'xspf' | 'json';
+
+export interface PlaylistEntry {
+  url: string;
+  title?: string;
+  duration?: number;
+  genre?: string;
+  description?: string;
+  quality?: string;
+}
+
+export interface PlayerStatus {
+  isPlaying: boolean;
+  currentStation: Station | null;
+  volume: number;
+  startTime: string | null;
+  uptime: string;
+  track: TrackMetadata | null;
+  backend: BackendName;
+  muted: boolean;
+  sleepEndsAt: string | null;
+  sleepRemaining: number | null;
+  recording: RecordingStatus | null;
+  quality: QualityTier | null;
+  qualityMode: QualityPreference;
+  focus: FocusStatus | null;
+}
+
+// Muted and reconnecting are still playing, but bars colour them differently
+export type StatusBarState = 'playing' | 'muted' | 'reconnecting' | 'stopped';
+
+export type StatusBarPreset = 'tmux' | 'polybar' | 'waybar' | 'i3blocks';
+
+// The placeholders a status template can use; empty when there's nothing to show
+export interface StatusBarFields {
+  state: StatusBarState;
+  icon: string;
+  station: string;
+  track: string;
+  artist: string;
+  title: string;
+  genre: string;
+  volume: string;
+  uptime: string;
+  quality: string;
+  sleep: string;
+  focus: string;
+  backend: string;
+}
+
+export interface RecordedTrack {
+  file: string;
+  artist?: string;
+  title: string;
+  startedAt: string;
+  // Seconds from the start of the recording
+  offset: number;
+  bytes: number;
+}
+
+export interface RecordingStatus {
+  station: Station;
+  directory: string;
+  startedAt: string;
+  endsAt: string | null;
+  // Seconds since the recording started
+  elapsed: number;
+  bytes: number;
+  tracks: number;
+}
+
+export type DaemonCommand = 'ping' | 'play' | 'stop' | 'status' | 'volume' | 'mute' | 'unmute' | 'sleep' | 'record' | 'record_stop' | 'stations' | 'subscribe' | 'levels' | 'focus' | 'shutdown';
+
+export interface DaemonRequest {
+  id: number;
+  command: DaemonCommand;
+  args?: Record<string, any>;
+}
+
+export interface DaemonResponse {
+  id: number;
+  ok: boolean;
+  result?: any;
+  error?: StreamError;
+}
+
+export type DaemonEventName = 'playing' | 'stopped' | 'error' | 'reconnecting' | 'connection_lost' | 'metadata' | 'sleep_warning' | 'sleep_expired' | 'recording_stopped' | 'recording_error' | 'quality_changed' | 'levels' | 'focus_phase' | 'focus_finished' | 'volume_changed';
+
+export interface DaemonEvent {
+  event: DaemonEventName;
+  data?: any;
+}
+
+export type CommandSurface = 'cli' | 'repl';
+
+// What a command runs with, whether typed in the REPL or passed to the CLI
+export interface CommandContext {
+  surface: CommandSurface;
+  config: Conf<Config>;
+  // The running daemon, or null when there is none; never starts one
+  connect(): Promise<DaemonClient | null>;
+  // The daemon, started first if it isn't running
+  ensureDaemon(): Promise<DaemonClient>;
+  // Whether the CLI was asked for --json output
+  json: boolean;
+}
+
+/**
+ * A command available as `radio <name>` and as `<name>` in the REPL.
+ * Arguments use commander's syntax: `<required>`, `[optional]` and a
+ * trailing `[rest...]`.
+ */
+export interface RadioCommand {
+  name: string;
+  aliases?: string[];
+  arguments?: string;
+  description: string;
+  example?: string;
+  run(args: string[], context: CommandContext): void | Promise<void>;
+}
+
+/**
+ * A command in the registry: a plugin's RadioCommand, or one of radio's
+ * own. A built-in without run() works differently in the CLI and the
+ * REPL, and each implements it itself.
+ */
+export interface CommandDefinition extends Omit<RadioCommand, 'run'> {
+  run?: RadioCommand['run'];
+  // Where the command is offered; everywhere when left out
+  surfaces?: CommandSurface[];
+  // Looks up stations or runs the player, so plugins (which add stations and listen in) load first
+  usesPlugins?: boolean;
+}
+
+// StreamPlayer events plugins can subscribe to; levels fire too often to hand out
+export type PluginEventName = 'playing' | 'stopped' | 'error' | 'reconnecting' | 'connection_lost' | 'metadata' | 'quality_changed' | 'sleep_warning' | 'sleep_expired';
+
+export type StationProvider = () => Station[] | Promise<Station[]>;
+
+// Handed to a plugin's setup()
+export interface PluginApi {
+  apiVersion: number;
+  config: Conf<Config>;
+  registerCommand(command: RadioCommand): void;
+  addStations(stations: Station[]): void;
+  // Called once while plugins load, with a time limit
+  addStationProvider(provider: StationProvider): void;
+  // Listeners only fire in the daemon, where the player runs
+  on(event: PluginEventName, listener: (...args: any[]) => void | Promise<void>): void;
+  log(message: string): void;
+}
+
+// The default export of a plugin module
+export interface RadioPlugin {
+  name: string;
+  version?: string;
+  // The plugin API version the plugin was written against
+  apiVersion: number;
+  setup(api: PluginApi): void | Promise<void>;
+}
+
+export type PluginState = 'loaded' | 'failed' | 'incompatible';
+
+export interface PluginInfo {
+  name: string;
+  version: string | null;
+  // The file or package it was loaded from
+  source: string;
+  state: PluginState;
+  error: string | null;
+  commands: string[];
+  stations: number;
+  events: PluginEventName[];
+}
@@ -1,12 +1,15 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { spawn } from 'child_process';
-import type { Station } from '../types/index.js';
+import type { FocusStatus, ReconnectInfo, Station, TrackMetadata } from '../types/index.js';
 
 export const formatStation = (station: Station): string => {
+    const mirrors = station.mirrors?.length
+        ? ` ${chalk.dim(`(+${station.mirrors.length} mirror${station.mirrors.length === 1 ? '' : 's'})`)}`
+        : '';
     return `${chalk.white.bold(station.name)} ${chalk.dim('•')} ${chalk.cyan(station.genre)}
    ${chalk.dim(station.description)}
-   ${chalk.yellow(station.quality)} ${chalk.dim('•')} ${chalk.green(station.url)}`;
+   ${chalk.yellow(station.quality)} ${chalk.dim('•')} ${chalk.green(station.url)}${mirrors}`;
 };
 
 export const formatError = (message: string): string => {
@@ -40,6 +43,55 @@ export const createSpinner = (text: string): any => {
     });
 };
 
+export const createError = (code: string, message: string): Error & { code: string } => {
+    return Object.assign(new Error(message), { code });
+};
+
+// Exit codes the CLI keeps stable for scripts; "radio --help" lists them
+export const EXIT_CODES = {
+    success: 0,
+    error: 1,
+    invalidArgument: 2,
+    notFound: 3,
+    backendMissing: 4,
+    network: 5,
+    alreadyPlaying: 6
+};
+
+const NOT_FOUND_CODES = ['STATION_NOT_FOUND', 'SCHEDULE_NOT_FOUND', 'NOT_FAVORITE', 'NO_FAVORITES', 'HOOK_NOT_FOUND'];
+const NETWORK_CODES = [
+    'NETWORK_ERROR',
+    'STREAM_ERROR',
+    'STREAM_ENDED',
+    'STREAM_STALLED',
+    'RECONNECT_FAILED',
+    'DIRECTORY_UNREACHABLE',
+    'DIRECTORY_ERROR'
+];
+
+// Maps an error code, such as a StreamError's, to the exit code that means it
+export const getExitCode = (code?: string): number => {
+    if (!code) {
+        return EXIT_CODES.error;
+    }
+    if (code.startsWith('INVALID_')) {
+        return EXIT_CODES.invalidArgument;
+    }
+    if (NOT_FOUND_CODES.includes(code)) {
+        return EXIT_CODES.notFound;
+    }
+    if (NETWORK_CODES.includes(code)) {
+        return EXIT_CODES.network;
+    }
+    if (code === 'BACKEND_NOT_FOUND') {
+        return EXIT_CODES.backendMissing;
+    }
+    if (code === 'ALREADY_PLAYING') {
+        return EXIT_CODES.alreadyPlaying;
+    }
+    return EXIT_CODES.error;
+};
+
 export const validateVolume = (input: string): number | null => {
     const volume = parseInt(input, 10);
     if (isNaN(volume) || volume < 0 || volume > 100) {
@@ -48,24 +100,112 @@ export const validateVolume = (input: string): number | null => {
     return volume;
 };
 
+export const truncate = (text: string, length: number): string => {
+    return text.length > length ? text.slice(0, length - 1) + '…' : text;
+};
+
+// Turns a display name into something usable as a station id
+export const slugify = (text: string): string => {
+    return text
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 40) || 'station';
+};
+
+// Splits a command line on whitespace, keeping single- or double-quoted
+// sections together so names with spaces can be passed as one argument.
+export const splitArgs = (input: string): string[] => {
+    const tokens = input.match(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g) || [];
+    return tokens.map(token => token.replace(/"([^"]*)"|'([^']*)'/g, '$1$2'));
+};
+
+// Accepts an absolute level ("40") or a change relative to the current
+// volume ("+10", "-10"); relative changes are clamped to 0-100.
+export const resolveVolume = (input: string, current: number): number | null => {
+    const relative = input.trim().match(/^([+-])(\d+)$/);
+    if (relative) {
+        const delta = parseInt(relative[2], 10) * (relative[1] === '-' ? -1 : 1);
+        return Math.max(0, Math.min(100, current + delta));
+    }
+    return validateVolume(input);
+};
+
+// Parses durations such as "45m", "1h30m", "90s", "2d" or "1.5h" into
+// seconds. A bare number is taken as minutes.
+export const parseDuration = (input: string): number | null => {
+    const text = input.trim().toLowerCase();
+    if (/^\d+(\.\d+)?$/.test(text)) {
+        return Math.round(parseFloat(text) * 60);
+    }
+
+    const match = text.match(/^(?:(\d+(?:\.\d+)?)d)?(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?$/);
+    if (!match || !text) {
+        return null;
+    }
+
+    const [, days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+    return Math.round(parseFloat(days) * 86400 + parseFloat(hours) * 3600 + parseFloat(minutes) * 60 + parseFloat(seconds));
+};
+
+// Like parseDuration, but for timeouts, where a bare number is seconds
+export const parseTimeout = (input: string): number | null => {
+    const text = input.trim();
+    return /^\d+(\.\d+)?$/.test(text) ? parseFloat(text) : parseDuration(text);
+};
+
+// Formats a number of seconds as a clock-style countdown, e.g. "44:59" or "1:02:03"
+export const formatCountdown = (seconds: number): string => {
+    const total = Math.max(0, Math.ceil(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = String(total % 60).padStart(2, '0');
+
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+        : `${minutes}:${secs}`;
+};
+
+// e.g. "Reconnecting in 4s via mirror 1 (attempt 2/5)"
+export const formatReconnect = (info: ReconnectInfo): string => {
+    const wait = Math.max(1, Math.round(info.delay / 1000));
+    const via = info.mirror > 0 ? ` via mirror ${info.mirror}` : '';
+    const attempts = info.maxAttempts === null ? `${info.attempt}` : `${info.attempt}/${info.maxAttempts}`;
+    return `Reconnecting in ${wait}s${via} (attempt ${attempts})`;
+};
+
+// e.g. "work 2/4 • 12:34 left", counting down to the phase's end
+export const formatFocus = (status: FocusStatus): string => {
+    const remaining = (Date.parse(status.phaseEndsAt) - Date.now()) / 1000;
+    return `${status.phase} ${status.cycle}/${status.cycles} • ${formatCountdown(remaining)} left`;
+};
+
 export const clearConsole = (): void => {
     process.stdout.write('\x1Bc');
 };
 
-export const checkFFmpeg = async (): Promise<boolean> => {
+export const checkCommand = async (command: string, args: string[] = ['--version']): Promise<boolean> => {
     return new Promise((resolve) => {
-        const process = spawn('ffplay', ['-version'], {
+        const child = spawn(command, args, {
             stdio: 'ignore',
-            shell: true
+            shell: process.platform === 'win32'
         });
 
-        process.on('error', () => resolve(false));
-        process.on('close', (code) => resolve(code === 0 || code === 1));
-
-        setTimeout(() => {
-            process.kill();
+        const timer = setTimeout(() => {
+            child.kill();
             resolve(false);
         }, 3000);
+
+        child.on('error', () => {
+            clearTimeout(timer);
+            resolve(false);
+        });
+        child.on('close', (code) => {
+            clearTimeout(timer);
+            resolve(code === 0 || code === 1);
+        });
     });
 };
 
@@ -121,6 +261,19 @@ export const formatUptime = (seconds: number): string => {
     }
 };
 
+export const formatBytes = (bytes: number): string => {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = bytes;
+    let unit = 0;
+
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
 export const createNotification = (title: string, message: string, type: 'info' | 'success' | 'warning' | 'error' = 'info'): string => {
     const icons = {
         info: '🔔',
@@ -142,7 +295,7 @@ export const createNotification = (title: string, message: string, type: 'info'
     return `${icon} ${color.bold(title)}\n   ${color(message)}`;
 };
 
-export const formatMetadata = (metadata: any): string => {
+export const formatMetadata = (metadata: TrackMetadata): string => {
     const parts = [];
 
     if (metadata.artist && metadata.title) {
@@ -187,13 +340,14 @@ export class ActivityIndicator {
     }
 }
 
+export const GRADIENT_COLORS = [chalk.red, chalk.yellow, chalk.green, chalk.cyan, chalk.blue, chalk.magenta];
+
 export const createGradient = (text: string): string => {
-    const colors = [chalk.red, chalk.yellow, chalk.green, chalk.cyan, chalk.blue, chalk.magenta];
     const chars = text.split('');
 
     return chars.map((char, index) => {
-        const colorIndex = Math.floor((index / chars.length) * colors.length);
-        const color = colors[colorIndex] || chalk.white;
+        const colorIndex = Math.floor((index / chars.length) * GRADIENT_COLORS.length);
+        const color = GRADIENT_COLORS[colorIndex] || chalk.white;
         return color(char);
     }).join('');
 };
\ No newline at end of file
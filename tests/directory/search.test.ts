@@ -0,0 +1,157 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../../src/config/store.js';
+import { directoryToStation, searchDirectory } from '../../src/directory/index.js';
+import type { DirectoryStation } from '../../src/types/index.js';
+
+// Radio Browser records as the real directory sends them, plus one too incomplete to use
+const RECORDS = [
+  {
+    stationuuid: 'a1',
+    name: ' Lofi Cafe ',
+    url: 'http://example.com/lofi.pls',
+    url_resolved: 'http://example.com/lofi.mp3',
+    tags: 'lofi, chill,,study',
+    country: 'Germany',
+    countrycode: 'DE',
+    codec: 'MP3',
+    bitrate: 128,
+    votes: 42
+  },
+  { stationuuid: 'b2', name: 'Night Jazz', url: 'http://example.com/jazz' },
+  { stationuuid: 'c3', name: '', url: 'http://example.com/nameless' }
+];
+
+// A stand-in for the station directory that records what it was asked
+const requests: URL[] = [];
+let status = 200;
+const server = http.createServer((request, response) => {
+  requests.push(new URL(request.url!, 'http://localhost'));
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(status === 200 ? JSON.stringify(RECORDS) : '{}');
+});
+
+describe('searchDirectory', () => {
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.RADIO_DIRECTORY_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(() => {
+    delete process.env.RADIO_DIRECTORY_URL;
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    status = 200;
+    config.set('directory', { url: 'https://all.api.radio-browser.info', cacheTtl: 60 });
+  });
+
+  it('sends the filters and turns the records into stations', async () => {
+    const result = await searchDirectory({ query: 'lofi', genre: 'chill', country: 'DE', codec: 'mp3', limit: 5 });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].pathname).toBe('/json/stations/search');
+    expect(Object.fromEntries(requests[0].searchParams)).toMatchObject({
+      name: 'lofi',
+      tag: 'chill',
+      countrycode: 'DE',
+      codec: 'mp3',
+      limit: '5',
+      hidebroken: 'true'
+    });
+    expect(result).toMatchObject({ fromCache: false, stale: false });
+    expect(result.stations).toEqual([
+      {
+        uuid: 'a1',
+        name: 'Lofi Cafe',
+        url: 'http://example.com/lofi.mp3',
+        homepage: '',
+        tags: ['lofi', 'chill', 'study'],
+        country: 'Germany',
+        countryCode: 'DE',
+        codec: 'MP3',
+        bitrate: 128,
+        votes: 42
+      },
+      expect.objectContaining({ uuid: 'b2', url: 'http://example.com/jazz', tags: [], bitrate: 0 })
+    ]);
+  });
+
+  it('looks a country up by name when it is longer than a code', async () => {
+    await searchDirectory({ query: 'jazz', country: 'Germany' });
+
+    expect(requests[0].searchParams.get('country')).toBe('Germany');
+    expect(requests[0].searchParams.has('countrycode')).toBe(false);
+  });
+
+  it('answers a repeated search from the cache', async () => {
+    const first = await searchDirectory({ query: 'cached' });
+    const second = await searchDirectory({ query: 'cached' });
+
+    expect(requests).toHaveLength(1);
+    expect(second).toMatchObject({ fromCache: true, stale: false, fetchedAt: first.fetchedAt });
+    expect(second.stations).toEqual(first.stations);
+  });
+
+  it('falls back to an expired answer when the directory fails', async () => {
+    config.set('directory', { url: 'https://all.api.radio-browser.info', cacheTtl: 0 });
+    await searchDirectory({ query: 'fallback' });
+    status = 503;
+
+    const result = await searchDirectory({ query: 'fallback' });
+
+    expect(requests).toHaveLength(2);
+    expect(result).toMatchObject({ fromCache: true, stale: true });
+    expect(result.stations.map(station => station.uuid)).toEqual(['a1', 'b2']);
+  });
+
+  it('reports an error status without a cached answer to fall back on', async () => {
+    status = 500;
+
+    await expect(searchDirectory({ query: 'broken' })).rejects.toMatchObject({ code: 'DIRECTORY_ERROR' });
+  });
+
+  it('reports a directory that cannot be reached', async () => {
+    process.env.RADIO_DIRECTORY_URL = 'http://127.0.0.1:1';
+    try {
+      await expect(searchDirectory({ query: 'offline' })).rejects.toMatchObject({ code: 'DIRECTORY_UNREACHABLE' });
+    } finally {
+      process.env.RADIO_DIRECTORY_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+  });
+});
+
+describe('directoryToStation', () => {
+  const result: DirectoryStation = {
+    uuid: 'a1',
+    name: 'Lofi Cafe',
+    url: 'http://example.com/lofi.mp3',
+    homepage: '',
+    tags: ['lofi', 'chill', 'study'],
+    country: 'Germany',
+    countryCode: 'DE',
+    codec: 'MP3',
+    bitrate: 128,
+    votes: 42
+  };
+
+  it('makes a library station from a search result', () => {
+    expect(directoryToStation(result)).toEqual({
+      id: 'lofi-cafe',
+      name: 'Lofi Cafe',
+      url: 'http://example.com/lofi.mp3',
+      genre: 'lofi, chill',
+      description: 'Found in the station directory from Germany',
+      quality: '128kbps MP3'
+    });
+  });
+
+  it('picks an id no other station has', () => {
+    config.set('userStations', [{ ...directoryToStation(result), id: 'lofi-cafe' }]);
+
+    expect(directoryToStation(result).id).toBe('lofi-cafe-2');
+  });
+});
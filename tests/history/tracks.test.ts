@@ -0,0 +1,190 @@
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConfigDir } from '../../src/config/store.js';
+import {
+  TrackLogger,
+  filterTrackHistory,
+  getTrackLogPath,
+  parseSince,
+  readTrackHistory,
+  serializeTrackHistory
+} from '../../src/history/tracks.js';
+import type { Station, TrackHistoryEntry } from '../../src/types/index.js';
+
+const NOW = new Date('2026-10-19T10:00:00Z');
+
+const createStation = (id: string): Station => ({
+  id,
+  name: id.toUpperCase(),
+  url: `https://example.com/${id}`,
+  genre: 'Lofi',
+  description: '',
+  quality: '128kbps MP3'
+});
+
+const lofi = createStation('lofi');
+const jazz = createStation('jazz');
+
+// Plays each track for `seconds` on the logger, starting `gap` seconds after the last
+const play = (logger: TrackLogger, plays: [Station, string, number, number?][]) => {
+  plays.forEach(([station, name, seconds, gap = 0]) => {
+    vi.advanceTimersByTime(gap * 1000);
+    const [artist, title] = name.includes(' - ') ? name.split(' - ') : [undefined, name];
+    logger.started({ artist, title, raw: name }, station);
+    vi.advanceTimersByTime(seconds * 1000);
+    logger.ended();
+  });
+};
+
+describe('track history', () => {
+  let logger: TrackLogger;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    fs.mkdirSync(getConfigDir(), { recursive: true });
+    fs.rmSync(getTrackLogPath(), { force: true });
+    logger = new TrackLogger();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pairs up start and end records', () => {
+    play(logger, [[lofi, 'Nujabes - Aruarian Dance', 180], [lofi, 'Intermission', 30]]);
+
+    expect(readTrackHistory()).toEqual([
+      {
+        stationId: 'lofi',
+        stationName: 'LOFI',
+        stationUrl: 'https://example.com/lofi',
+        artist: 'Nujabes',
+        title: 'Aruarian Dance',
+        startedAt: NOW.toISOString(),
+        endedAt: new Date(NOW.getTime() + 180 * 1000).toISOString()
+      },
+      expect.objectContaining({ artist: undefined, title: 'Intermission', endedAt: new Date(NOW.getTime() + 210 * 1000).toISOString() })
+    ]);
+  });
+
+  it('ends the previous track when the next one starts', () => {
+    logger.started({ title: 'First', raw: 'First' }, lofi);
+    vi.advanceTimersByTime(60 * 1000);
+    logger.started({ title: 'Second', raw: 'Second' }, lofi);
+
+    const [first, second] = readTrackHistory();
+    expect(first.endedAt).toBe(second.startedAt);
+    expect(second.endedAt).toBeNull();
+  });
+
+  it('merges a track heard again within a minute into one play', () => {
+    play(logger, [[lofi, 'Nujabes - Aruarian Dance', 60], [lofi, 'Nujabes - Aruarian Dance', 120, 20]]);
+
+    const history = readTrackHistory();
+    expect(history).toHaveLength(1);
+    expect(history[0].endedAt).toBe(new Date(NOW.getTime() + 200 * 1000).toISOString());
+  });
+
+  it('keeps plays apart after a longer gap, on another station or with a track between', () => {
+    play(logger, [
+      [lofi, 'Same Song', 60],
+      [lofi, 'Same Song', 60, 90],
+      [jazz, 'Same Song', 60],
+      [jazz, 'Other Song', 60],
+      [jazz, 'Same Song', 60]
+    ]);
+
+    expect(readTrackHistory().map(entry => `${entry.stationId}: ${entry.title}`)).toEqual([
+      'lofi: Same Song',
+      'lofi: Same Song',
+      'jazz: Same Song',
+      'jazz: Other Song',
+      'jazz: Same Song'
+    ]);
+  });
+
+  it('skips lines that do not parse and ends that match no start', () => {
+    play(logger, [[lofi, 'Kept', 60]]);
+    fs.appendFileSync(getTrackLogPath(), '{"type":"end","id":"unknown","at":"2026-10-19T10:05:00Z"}\n{"type":"start","id":"cut');
+
+    expect(readTrackHistory().map(entry => entry.title)).toEqual(['Kept']);
+  });
+
+  it('has no history before anything was logged', () => {
+    expect(readTrackHistory()).toEqual([]);
+  });
+});
+
+describe('filterTrackHistory and parseSince', () => {
+  const entries: TrackHistoryEntry[] = [
+    { stationId: 'lofi', stationName: 'LOFI', stationUrl: '', artist: 'Nujabes', title: 'Luv(sic)', startedAt: '2026-10-17T10:00:00Z', endedAt: null },
+    { stationId: 'jazz', stationName: 'JAZZ', stationUrl: '', title: 'So What', startedAt: '2026-10-19T09:00:00Z', endedAt: null }
+  ];
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('filters by station, time and text', () => {
+    expect(filterTrackHistory(entries, { stationId: 'jazz' })).toEqual([entries[1]]);
+    expect(filterTrackHistory(entries, { since: parseSince('1d')! })).toEqual([entries[1]]);
+    expect(filterTrackHistory(entries, { grep: 'NUJABES' })).toEqual([entries[0]]);
+    expect(filterTrackHistory(entries, { grep: 'jazz' })).toEqual([entries[1]]);
+  });
+
+  it('reads a look-back or a date', () => {
+    expect(parseSince('3h')).toEqual(new Date(NOW.getTime() - 3 * 60 * 60 * 1000));
+    expect(parseSince('2026-10-18T00:00:00Z')).toEqual(new Date('2026-10-18T00:00:00Z'));
+    expect(parseSince('last tuesday')).toBeNull();
+  });
+});
+
+describe('serializeTrackHistory', () => {
+  const entries: TrackHistoryEntry[] = [
+    {
+      stationId: 'lofi',
+      stationName: 'Lofi, Chill',
+      stationUrl: 'https://example.com/lofi',
+      artist: 'Nujabes',
+      title: 'Say "Hello"',
+      startedAt: '2026-10-19T10:00:00.000Z',
+      endedAt: '2026-10-19T10:03:00.000Z'
+    },
+    {
+      stationId: 'jazz',
+      stationName: 'Jazz',
+      stationUrl: 'https://example.com/jazz',
+      title: 'Live',
+      startedAt: '2026-10-19T10:03:00.000Z',
+      endedAt: null
+    }
+  ];
+
+  it('writes CSV with commas and quotes escaped', () => {
+    expect(serializeTrackHistory(entries, 'csv')).toBe([
+      'started_at,ended_at,station_id,station,artist,title',
+      '2026-10-19T10:00:00.000Z,2026-10-19T10:03:00.000Z,lofi,"Lofi, Chill",Nujabes,"Say ""Hello"""',
+      '2026-10-19T10:03:00.000Z,,jazz,Jazz,,Live',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes M3U pointing at the stations, with durations where known', () => {
+    expect(serializeTrackHistory(entries, 'm3u')).toBe([
+      '#EXTM3U',
+      '#EXTINF:180,Nujabes - Say "Hello"',
+      'https://example.com/lofi',
+      '#EXTINF:-1,Live',
+      'https://example.com/jazz',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes JSON that reads back the same', () => {
+    expect(JSON.parse(serializeTrackHistory(entries, 'json'))).toEqual(entries);
+  });
+});
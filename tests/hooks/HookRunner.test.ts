@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../../src/config/store.js';
+import { HookRunner, createHookPayload, isHookSuccess } from '../../src/hooks/HookRunner.js';
+import type { HookEntry, HookEvent, HookResult, Station } from '../../src/types/index.js';
+
+const station: Station = {
+  id: 'rain',
+  name: 'Rain & Tea',
+  url: 'https://example.com/rain',
+  genre: 'Lofi',
+  description: '',
+  quality: '128kbps MP3'
+};
+
+let hookCount = 0;
+const createHook = (command: string, timeout: number = 5, event: HookEvent = 'on_play'): HookEntry => ({
+  id: String(++hookCount),
+  event,
+  command,
+  timeout,
+  createdAt: new Date().toISOString()
+});
+
+// Hooks run through sh, which Windows doesn't have
+describe.skipIf(process.platform === 'win32')('HookRunner', () => {
+  let dir: string;
+  let runner: HookRunner;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lofi-radio-hooks-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    config.set('hookConcurrency', 2);
+    config.set('hooks', []);
+    runner = new HookRunner(config);
+  });
+
+  it('passes the event in RADIO_* variables and as JSON on stdin', async () => {
+    const track = { artist: 'Nujabes', title: 'Aruarian Dance', raw: 'Nujabes - Aruarian Dance' };
+    const payload = createHookPayload('on_track_change', station, track);
+
+    const result = await runner.run(
+      createHook('echo "$RADIO_HOOK_EVENT|$RADIO_STATION_NAME|$RADIO_TRACK_ARTIST|$RADIO_ERROR_CODE"; cat'),
+      payload
+    );
+
+    const [env, stdin] = result.output.trim().split('\n');
+    expect(env).toBe('on_track_change|Rain & Tea|Nujabes|');
+    expect(JSON.parse(stdin)).toEqual(payload);
+    expect(isHookSuccess(result)).toBe(true);
+  });
+
+  it('reports the exit code of a failing command', async () => {
+    const result = await runner.run(createHook('echo oops >&2; exit 3'), createHookPayload('on_play', station));
+
+    expect(result).toMatchObject({ exitCode: 3, timedOut: false, output: 'oops\n' });
+    expect(isHookSuccess(result)).toBe(false);
+  });
+
+  it('kills a command that runs past its timeout, along with what it started', async () => {
+    const marker = path.join(dir, 'survived');
+
+    const result = await runner.run(createHook(`sleep 1; touch ${marker}`, 0.2), createHookPayload('on_play', station));
+
+    expect(result).toMatchObject({ timedOut: true, signal: 'SIGTERM' });
+    expect(result.duration).toBeLessThan(1500);
+    await new Promise(resolve => setTimeout(resolve, 1500));
+    expect(fs.existsSync(marker)).toBe(false);
+  });
+
+  it('follows up with SIGKILL when the command ignores SIGTERM', async () => {
+    const result = await runner.run(createHook("trap '' TERM; sleep 10", 0.2), createHookPayload('on_play', station));
+
+    expect(result).toMatchObject({ timedOut: true, signal: 'SIGKILL' });
+  });
+
+  it('runs no more than hookConcurrency commands at once and queues the rest', async () => {
+    const log = path.join(dir, 'concurrency.log');
+    const hook = createHook(`echo start >> ${log}; sleep 0.3; echo end >> ${log}`);
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => runner.run(hook, createHookPayload('on_play', station)))
+    );
+
+    let running = 0;
+    let most = 0;
+    fs.readFileSync(log, 'utf8').trim().split('\n').forEach(line => {
+      running += line === 'start' ? 1 : -1;
+      most = Math.max(most, running);
+    });
+    expect(results.every(isHookSuccess)).toBe(true);
+    expect(most).toBe(2);
+  });
+
+  it('drops runs once too many are waiting', async () => {
+    config.set('hookConcurrency', 1);
+    const dropped: HookEntry[] = [];
+    runner.on('dropped', (hook: HookEntry) => dropped.push(hook));
+    const payload = createHookPayload('on_play', station);
+
+    const blocker = runner.run(createHook('sleep 0.3'), payload);
+    const queued = Array.from({ length: 50 }, () => runner.run(createHook('true'), payload));
+    const extra = await runner.run(createHook('true'), payload);
+
+    expect(extra.error).toMatch(/Dropped/);
+    expect(dropped).toHaveLength(1);
+    expect((await Promise.all([blocker, ...queued])).every(isHookSuccess)).toBe(true);
+  });
+
+  it('runs the configured hooks for player events, remembering the station on stop', async () => {
+    const results: HookResult[] = [];
+    config.set('hooks', [
+      createHook('echo "played $RADIO_STATION_ID"', 5, 'on_play'),
+      createHook('echo "stopped $RADIO_STATION_ID"', 5, 'on_stop')
+    ]);
+    const player = new EventEmitter();
+    runner.attach(player);
+    const finished = new Promise<void>(resolve => runner.on('finished', (_hook: HookEntry, result: HookResult) => {
+      results.push(result);
+      if (results.length === 2) {
+        resolve();
+      }
+    }));
+
+    player.emit('playing', station);
+    player.emit('stopped');
+    await finished;
+
+    expect(results.map(result => result.output.trim()).sort()).toEqual(['played rain', 'stopped rain']);
+  });
+});
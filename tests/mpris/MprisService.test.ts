@@ -0,0 +1,201 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawn, spawnSync } from 'child_process';
+import type { ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../../src/config/store.js';
+import { getStations } from '../../src/config/stations.js';
+import { DBusConnection } from '../../src/mpris/DBusConnection.js';
+import { MprisService } from '../../src/mpris/MprisService.js';
+import type { MprisControls } from '../../src/mpris/MprisService.js';
+import type { StreamPlayer } from '../../src/player/StreamPlayer.js';
+import type { PlayerState, Station } from '../../src/types/index.js';
+
+const OBJECT_PATH = '/org/mpris/MediaPlayer2';
+const PLAYER_INTERFACE = 'org.mpris.MediaPlayer2.Player';
+// Long enough to ask questions while the player is still fading out
+const FADE_MS = 300;
+
+const hasDBus = process.platform === 'linux' && spawnSync('dbus-daemon', ['--version']).status === 0;
+
+// Starts a bus of our own, so the tests neither need nor disturb a desktop session
+const startBus = (dir: string): Promise<{ daemon: ChildProcess; address: string }> => {
+  return new Promise((resolve, reject) => {
+    const daemon = spawn('dbus-daemon', ['--session', '--nofork', '--print-address=1', `--address=unix:path=${path.join(dir, 'bus')}`], {
+      stdio: ['ignore', 'pipe', 'ignore']
+    });
+    daemon.once('error', reject);
+    daemon.stdout!.once('data', (chunk: Buffer) => resolve({ daemon, address: chunk.toString().trim() }));
+  });
+};
+
+/**
+ * Stands in for the StreamPlayer and the daemon behind it: play starts at
+ * once, while stop keeps reporting playback until its fade has finished,
+ * like the real thing.
+ */
+class FakePlayer extends EventEmitter {
+  state: PlayerState = {
+    isPlaying: false,
+    currentStation: null,
+    volume: 70,
+    startTime: null,
+    backend: 'null',
+    track: null,
+    muted: false,
+    sleepEndsAt: null,
+    quality: null,
+    qualityMode: 'auto'
+  };
+  played: Station[] = [];
+
+  getState(): PlayerState {
+    return { ...this.state };
+  }
+
+  controls: MprisControls = {
+    play: async station => {
+      this.played.push(station);
+      this.state = { ...this.state, isPlaying: true, currentStation: station, startTime: new Date() };
+      this.emit('playing', station);
+    },
+    stop: async () => {
+      await new Promise(resolve => setTimeout(resolve, FADE_MS));
+      this.state = { ...this.state, isPlaying: false, currentStation: null, startTime: null };
+      this.emit('stopped');
+    },
+    setVolume: async level => {
+      this.state = { ...this.state, volume: level };
+    }
+  };
+}
+
+describe.skipIf(!hasDBus)('MprisService on a private bus', () => {
+  let dir: string;
+  let bus: { daemon: ChildProcess; address: string };
+  let player: FakePlayer;
+  let service: MprisService;
+  let client: DBusConnection;
+
+  const call = (member: string, signature?: string, body: any[] = []) => {
+    return client.call({ destination: service.busName, path: OBJECT_PATH, interface: PLAYER_INTERFACE, member, signature, body });
+  };
+  const getProperty = async (name: string) => {
+    const [variant] = await client.call({
+      destination: service.busName,
+      path: OBJECT_PATH,
+      interface: 'org.freedesktop.DBus.Properties',
+      member: 'Get',
+      signature: 'ss',
+      body: [PLAYER_INTERFACE, name]
+    });
+    return variant.value;
+  };
+  const waitUntil = async (check: () => boolean | Promise<boolean>): Promise<void> => {
+    const deadline = Date.now() + 5000;
+    while (!(await check())) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for the player');
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lofi-radio-bus-'));
+    bus = await startBus(dir);
+  });
+
+  afterAll(() => {
+    bus?.daemon.kill();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    player = new FakePlayer();
+    service = new MprisService(player as unknown as StreamPlayer, config, player.controls);
+    await service.start(bus.address);
+    client = await DBusConnection.connect(bus.address);
+  });
+
+  afterEach(() => {
+    service.stop();
+    client.close();
+  });
+
+  it('plays the last station and reports it', async () => {
+    const station = getStations()[1];
+    config.set('lastStation', station.id);
+
+    await call('Play');
+    await waitUntil(() => player.played.length === 1);
+
+    expect(player.played[0].id).toBe(station.id);
+    expect(await getProperty('PlaybackStatus')).toBe('Playing');
+    expect((await getProperty('Metadata'))['xesam:title'].value).toBe(station.name);
+  });
+
+  it('reports Paused as soon as Pause is asked for, before the fade ends', async () => {
+    await player.controls.play(getStations()[0]);
+
+    await call('Pause');
+
+    expect(player.getState().isPlaying).toBe(true);
+    expect(await getProperty('PlaybackStatus')).toBe('Paused');
+    expect(await getProperty('CanPause')).toBe(false);
+    await waitUntil(() => !player.getState().isPlaying);
+    expect(await getProperty('PlaybackStatus')).toBe('Paused');
+  });
+
+  it('resumes the paused station when Play follows Pause straight away', async () => {
+    const station = getStations()[2];
+    await player.controls.play(station);
+
+    await call('Pause');
+    await call('Play');
+    await waitUntil(() => player.played.length === 2);
+
+    expect(player.played[1].id).toBe(station.id);
+    expect(player.getState().isPlaying).toBe(true);
+    expect(await getProperty('PlaybackStatus')).toBe('Playing');
+  });
+
+  it('toggles with PlayPause', async () => {
+    await player.controls.play(getStations()[0]);
+
+    await call('PlayPause');
+    expect(await getProperty('PlaybackStatus')).toBe('Paused');
+    await call('PlayPause');
+    await waitUntil(() => player.played.length === 2);
+
+    expect(await getProperty('PlaybackStatus')).toBe('Playing');
+  });
+
+  it('reports Stopped for Stop and forgets the pause', async () => {
+    await player.controls.play(getStations()[0]);
+
+    await call('Pause');
+    await call('Stop');
+    await waitUntil(() => !player.getState().isPlaying);
+    await waitUntil(async () => await getProperty('PlaybackStatus') === 'Stopped');
+
+    expect(await getProperty('CanPause')).toBe(false);
+  });
+
+  it('sets the volume through the controls', async () => {
+    await client.call({
+      destination: service.busName,
+      path: OBJECT_PATH,
+      interface: 'org.freedesktop.DBus.Properties',
+      member: 'Set',
+      signature: 'ssv',
+      body: [PLAYER_INTERFACE, 'Volume', { signature: 'd', value: 0.25 }]
+    });
+    await waitUntil(() => player.getState().volume === 25);
+
+    service.refresh();
+    expect(await getProperty('Volume')).toBe(0.25);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { IcyDemuxer, parseStreamTitle } from '../../src/player/IcyDemuxer.js';
+
+const METAINT = 8;
+
+// A metadata block as a server sends it: the length in 16-byte units, then the text padded with NULs
+const metadataBlock = (text: Buffer | string): Buffer => {
+  const bytes = typeof text === 'string' ? Buffer.from(text, 'utf8') : text;
+  const block = Buffer.alloc(1 + Math.ceil(bytes.length / 16) * 16);
+  block[0] = Math.ceil(bytes.length / 16);
+  bytes.copy(block, 1);
+  return block;
+};
+
+const audio = (byte: number): Buffer => Buffer.alloc(METAINT, byte);
+
+// Feeds the chunks through a demuxer, collecting the audio that comes out and the metadata seen
+const demux = async (chunks: Buffer[]): Promise<{ audio: Buffer; metadata: string[] }> => {
+  const demuxer = new IcyDemuxer(METAINT);
+  const output: Buffer[] = [];
+  const metadata: string[] = [];
+  demuxer.on('data', (chunk: Buffer) => output.push(chunk));
+  demuxer.on('metadata', (text: string) => metadata.push(text));
+
+  const ended = new Promise(resolve => demuxer.on('end', resolve));
+  chunks.forEach(chunk => demuxer.write(chunk));
+  demuxer.end();
+  await ended;
+
+  return { audio: Buffer.concat(output), metadata };
+};
+
+describe('IcyDemuxer', () => {
+  const stream = Buffer.concat([
+    audio(1),
+    metadataBlock("StreamTitle='Nujabes - Aruarian Dance';"),
+    audio(2),
+    Buffer.from([0]),
+    audio(3),
+    metadataBlock("StreamTitle='Café Tacvba - Eres';"),
+    audio(4)
+  ]);
+  const expectedAudio = Buffer.concat([audio(1), audio(2), audio(3), audio(4)]);
+  const expectedMetadata = ["StreamTitle='Nujabes - Aruarian Dance';", "StreamTitle='Café Tacvba - Eres';"];
+
+  it('separates the audio from the metadata', async () => {
+    const result = await demux([stream]);
+
+    expect(result.audio).toEqual(expectedAudio);
+    expect(result.metadata).toEqual(expectedMetadata);
+  });
+
+  it('gives the same result wherever the chunks are split', async () => {
+    for (let split = 1; split < stream.length; split++) {
+      const result = await demux([stream.subarray(0, split), stream.subarray(split)]);
+
+      expect(result.audio, `split at ${split}`).toEqual(expectedAudio);
+      expect(result.metadata, `split at ${split}`).toEqual(expectedMetadata);
+    }
+  });
+
+  it('copes with a stream arriving one byte at a time', async () => {
+    const bytes = Array.from(stream, byte => Buffer.from([byte]));
+
+    expect(await demux(bytes)).toEqual({ audio: expectedAudio, metadata: expectedMetadata });
+  });
+
+  it('passes over zero-length blocks without reporting anything', async () => {
+    const result = await demux([audio(1), Buffer.from([0]), audio(2), Buffer.from([0]), audio(3)]);
+
+    expect(result.audio).toEqual(Buffer.concat([audio(1), audio(2), audio(3)]));
+    expect(result.metadata).toEqual([]);
+  });
+
+  it('reports nothing for a block of padding only', async () => {
+    const result = await demux([audio(1), Buffer.from([1]), Buffer.alloc(16), audio(2)]);
+
+    expect(result.audio).toEqual(Buffer.concat([audio(1), audio(2)]));
+    expect(result.metadata).toEqual([]);
+  });
+
+  it('reads a title that is not valid UTF-8 as Latin-1', async () => {
+    const latin1 = Buffer.from("StreamTitle='Sigur Rós - Hoppípolla';", 'latin1');
+
+    const result = await demux([audio(1), metadataBlock(latin1), audio(2)]);
+
+    expect(result.metadata).toEqual(["StreamTitle='Sigur Rós - Hoppípolla';"]);
+  });
+});
+
+describe('parseStreamTitle', () => {
+  it('splits the artist from the title', () => {
+    expect(parseStreamTitle("StreamTitle='Nujabes - Aruarian Dance';StreamUrl='';")).toEqual({
+      artist: 'Nujabes',
+      title: 'Aruarian Dance',
+      raw: 'Nujabes - Aruarian Dance'
+    });
+  });
+
+  it('keeps apostrophes inside the title', () => {
+    expect(parseStreamTitle("StreamTitle='Guns N' Roses - Don't Cry';")).toMatchObject({
+      artist: "Guns N' Roses",
+      title: "Don't Cry"
+    });
+  });
+
+  it('takes a title without an artist as it is', () => {
+    expect(parseStreamTitle("StreamTitle='Station ID';")).toEqual({ title: 'Station ID', raw: 'Station ID' });
+  });
+
+  it('has nothing for an empty or missing title', () => {
+    expect(parseStreamTitle("StreamTitle='  ';")).toBeNull();
+    expect(parseStreamTitle("StreamUrl='https://example.com';")).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { StreamPlayer } from '../../src/player/StreamPlayer.js';
+import { NullBackend } from '../../src/player/backends/NullBackend.js';
+import type { ReconnectInfo, Station, StreamError, TrackMetadata } from '../../src/types/index.js';
+
+const METAINT = 16;
+
+// One ICY metadata block: a length byte counting 16-byte units, then the padded text
+const metadataBlock = (text: string): Buffer => {
+  const length = Math.ceil(text.length / 16);
+  const block = Buffer.alloc(1 + length * 16);
+  block[0] = length;
+  block.write(text, 1);
+  return block;
+};
+
+let drops = 0;
+
+/**
+ * A stand-in radio station. /live streams audio with a track title
+ * until the client hangs up, /drop-once cuts its first connection off
+ * and streams normally after that, and /silent answers but ends without
+ * sending any audio.
+ */
+const server = http.createServer((request, response) => {
+  const headers = { 'Content-Type': 'audio/mpeg', 'icy-metaint': String(METAINT) };
+
+  if (request.url === '/silent') {
+    response.writeHead(200, headers);
+    setTimeout(() => response.end(), 50);
+    return;
+  }
+
+  const dropping = request.url === '/drop-once' && drops++ === 0;
+  response.writeHead(200, headers);
+  let chunks = 0;
+  const timer = setInterval(() => {
+    response.write(Buffer.alloc(METAINT, 1));
+    response.write(chunks === 0 ? metadataBlock("StreamTitle='Nujabes - Aruarian Dance';") : Buffer.from([0]));
+    chunks++;
+    if (dropping && chunks === 3) {
+      clearInterval(timer);
+      response.destroy();
+    }
+  }, 20);
+  response.on('close', () => clearInterval(timer));
+});
+let baseUrl = '';
+
+const createStation = (path: string): Station => ({
+  id: `test${path.replace(/\W/g, '-')}`,
+  name: 'Test Station',
+  url: `${baseUrl}${path}`,
+  genre: 'Lofi',
+  description: 'A local stand-in',
+  quality: '128kbps MP3'
+});
+
+const waitFor = <T>(player: StreamPlayer, event: string): Promise<T> => {
+  return new Promise(resolve => player.once(event, resolve));
+};
+
+describe('StreamPlayer with the null backend', () => {
+  let player: StreamPlayer;
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  afterEach(async () => {
+    await player?.stop(false);
+  });
+
+  it('plays a station and reports its track', async () => {
+    player = new StreamPlayer(new NullBackend());
+    const station = createStation('/live');
+    const metadata = waitFor<TrackMetadata>(player, 'metadata');
+    const playing = waitFor<Station>(player, 'playing');
+
+    await player.play(station, 40);
+
+    expect(await playing).toBe(station);
+    expect((await metadata).artist).toBe('Nujabes');
+    expect(player.getState()).toMatchObject({
+      isPlaying: true,
+      currentStation: station,
+      volume: 40,
+      backend: 'null',
+      track: { title: 'Aruarian Dance' }
+    });
+  });
+
+  it('stops once and resets its state', async () => {
+    player = new StreamPlayer(new NullBackend());
+    let stopped = 0;
+    player.on('stopped', () => stopped++);
+
+    await player.play(createStation('/live'));
+    await player.stop();
+
+    expect(stopped).toBe(1);
+    expect(player.getState()).toMatchObject({ isPlaying: false, currentStation: null, track: null });
+    expect(player.getBackend().isRunning()).toBe(false);
+  });
+
+  it('reconnects a dropped stream without reporting playback as stopped', async () => {
+    player = new StreamPlayer(new NullBackend());
+    player.setReconnectPolicy({ maxAttempts: 3, baseDelay: 0.05, maxDelay: 0.1, alwaysRetry: false });
+    let stopped = 0;
+    player.on('stopped', () => stopped++);
+    player.on('error', () => {});
+    const station = createStation('/drop-once');
+    const reconnecting = waitFor<ReconnectInfo>(player, 'reconnecting');
+    // The first stream drops before it would be announced, so this is the reconnected one
+    const playing = waitFor(player, 'playing');
+
+    await player.play(station);
+    expect((await reconnecting).attempt).toBe(1);
+    await playing;
+
+    expect(stopped).toBe(0);
+    expect(player.getState()).toMatchObject({ isPlaying: true, currentStation: station });
+  });
+
+  it('counts a player that logs an error and then exits as one failure', async () => {
+    const backend = new NullBackend();
+    player = new StreamPlayer(backend);
+    player.setReconnectPolicy({ maxAttempts: 3, baseDelay: 0.05, maxDelay: 0.1, alwaysRetry: false });
+    const errors: string[] = [];
+    const attempts: number[] = [];
+    player.on('error', (error: StreamError) => errors.push(error.code));
+    player.on('reconnecting', (info: ReconnectInfo) => attempts.push(info.attempt));
+
+    await player.play(createStation('/live'));
+    backend.emit('error', { code: 'STREAM_ERROR', message: 'Invalid data found' });
+    backend.emit('exit', 1);
+    await waitFor(player, 'playing');
+
+    expect(errors).toEqual(['STREAM_ERROR']);
+    expect(attempts).toEqual([1]);
+  });
+
+  it('reconnects when the player exits cleanly in the middle of a stream', async () => {
+    const backend = new NullBackend();
+    player = new StreamPlayer(backend);
+    player.setReconnectPolicy({ maxAttempts: 3, baseDelay: 0.05, maxDelay: 0.1, alwaysRetry: false });
+    player.on('error', () => {});
+    const station = createStation('/live');
+
+    await player.play(station);
+    const reconnecting = waitFor<ReconnectInfo>(player, 'reconnecting');
+    backend.emit('exit', 0);
+
+    expect((await reconnecting).attempt).toBe(1);
+    await waitFor(player, 'playing');
+    expect(player.getState()).toMatchObject({ isPlaying: true, currentStation: station });
+  });
+
+  it('gives up when reconnecting never brings any audio back', async () => {
+    player = new StreamPlayer(new NullBackend());
+    player.setReconnectPolicy({ maxAttempts: 2, baseDelay: 0.05, maxDelay: 0.1, alwaysRetry: false });
+    const attempts: number[] = [];
+    player.on('reconnecting', (info: ReconnectInfo) => attempts.push(info.attempt));
+    player.on('error', () => {});
+    const lost = waitFor(player, 'connection_lost');
+
+    await player.play(createStation('/silent'));
+    await lost;
+
+    expect(attempts).toEqual([1, 2]);
+    expect(player.getState().isPlaying).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../../src/config/store.js';
+import { getStations } from '../../src/config/stations.js';
+import { detectFormat, parsePlaylist, planImport, serializePlaylist } from '../../src/playlist/index.js';
+import type { PlaylistFormat, Station } from '../../src/types/index.js';
+
+const BOM = '\uFEFF';
+
+// Names and genres with the characters each format has to escape or work around
+const STATIONS: Station[] = [
+  {
+    id: 'rain-tea',
+    name: 'Rain & Tea <24/7>',
+    url: 'https://example.com/rain-128.mp3',
+    genre: 'Lofi "chill"',
+    description: 'Beats to study to',
+    quality: '128kbps MP3'
+  },
+  {
+    id: 'night-jazz',
+    name: 'Night Jazz',
+    url: 'http://example.org:8000/jazz?format=aac&bitrate=64',
+    genre: 'Jazz',
+    description: '',
+    quality: '64kbps AAC'
+  }
+];
+
+describe('playlist round-trips', () => {
+  it.each(['m3u', 'pls', 'xspf', 'json'] as PlaylistFormat[])('reads back the stations it wrote as %s', format => {
+    const entries = parsePlaylist(serializePlaylist(STATIONS, format), format);
+
+    expect(entries.map(entry => entry.url)).toEqual(STATIONS.map(station => station.url));
+    expect(entries.map(entry => entry.title)).toEqual(STATIONS.map(station => station.name));
+  });
+
+  it('keeps genre, description and quality in XSPF and JSON', () => {
+    (['xspf', 'json'] as PlaylistFormat[]).forEach(format => {
+      const [entry] = parsePlaylist(serializePlaylist(STATIONS, format), format);
+
+      expect(entry).toMatchObject({ genre: 'Lofi "chill"', description: 'Beats to study to', quality: '128kbps MP3' });
+    });
+  });
+
+  it('keeps the genre in M3U, with double quotes made single', () => {
+    const [entry] = parsePlaylist(serializePlaylist(STATIONS, 'm3u'), 'm3u');
+
+    expect(entry.genre).toBe("Lofi 'chill'");
+  });
+
+  it('recognises each format it writes from the content alone', () => {
+    (['m3u', 'pls', 'xspf', 'json'] as PlaylistFormat[]).forEach(format => {
+      expect(detectFormat('stations', serializePlaylist(STATIONS, format))).toBe(format);
+    });
+    expect(detectFormat('stations.m3u8', '')).toBe('m3u');
+  });
+});
+
+describe('parsing playlists from elsewhere', () => {
+  it('reads extended M3U attributes and genre lines', () => {
+    const entries = parsePlaylist([
+      '#EXTM3U',
+      '#EXTINF:-1 tvg-id="x" group-title="Ambient",Drone Zone',
+      'https://example.com/drone',
+      '#EXTGENRE:Jazz',
+      '#EXTINF:300,Some Song',
+      'https://example.com/song.mp3'
+    ].join('\r\n'), 'm3u');
+
+    expect(entries).toEqual([
+      { url: 'https://example.com/drone', title: 'Drone Zone', genre: 'Ambient', duration: undefined, description: undefined },
+      { url: 'https://example.com/song.mp3', title: 'Some Song', genre: 'Jazz', duration: 300, description: undefined }
+    ]);
+  });
+
+  it('orders PLS entries by index and drops those without a file', () => {
+    const entries = parsePlaylist([
+      '[playlist]',
+      'File2=https://example.com/second',
+      'Title1=First',
+      'File1=https://example.com/first',
+      'Title3=No file',
+      'NumberOfEntries=3'
+    ].join('\n'), 'pls');
+
+    expect(entries).toEqual([
+      { url: 'https://example.com/first', title: 'First' },
+      { url: 'https://example.com/second' }
+    ]);
+  });
+
+  it('reads XSPF entries with CDATA and milliseconds', () => {
+    const [entry] = parsePlaylist(`<playlist><trackList><track>
+      <location>https://example.com/a?x=1&amp;y=2</location>
+      <title><![CDATA[Late & Slow]]></title>
+      <duration>90500</duration>
+      <album>Downtempo</album>
+    </track><track><title>No location</title></track></trackList></playlist>`, 'xspf');
+
+    expect(entry).toMatchObject({ url: 'https://example.com/a?x=1&y=2', title: 'Late & Slow', duration: 91, genre: 'Downtempo' });
+  });
+
+  it.each([
+    ['m3u', '#EXTM3U\nhttps://example.com/a\n'],
+    ['pls', '[playlist]\nFile1=https://example.com/a\n'],
+    ['xspf', '<?xml version="1.0"?><playlist><trackList><track><location>https://example.com/a</location></track></trackList></playlist>'],
+    ['json', '[{ "url": "https://example.com/a" }]']
+  ] as [PlaylistFormat, string][])('reads %s that starts with a byte order mark', (format, content) => {
+    expect(detectFormat('playlist', BOM + content)).toBe(format);
+    expect(parsePlaylist(BOM + content, format).map(entry => entry.url)).toEqual(['https://example.com/a']);
+  });
+
+  it('rejects JSON that is not a list of stations', () => {
+    expect(() => parsePlaylist('{ "name": "not a playlist" }', 'json')).toThrow(expect.objectContaining({ code: 'INVALID_PLAYLIST' }));
+    expect(() => parsePlaylist('[{ "url": ', 'json')).toThrow(SyntaxError);
+  });
+});
+
+describe('planImport', () => {
+  beforeEach(() => {
+    config.set('userStations', []);
+  });
+
+  it('names untitled entries after their host and guesses the quality', () => {
+    const plan = planImport(parsePlaylist('https://radio.example.com/stream-192.mp3\n', 'm3u'));
+
+    expect(plan.additions).toEqual([{
+      id: 'radio-example-com',
+      name: 'radio.example.com',
+      url: 'https://radio.example.com/stream-192.mp3',
+      genre: 'Custom',
+      description: '',
+      quality: '192kbps MP3'
+    }]);
+  });
+
+  it('skips relative and non-http entries as invalid', () => {
+    const plan = planImport(parsePlaylist('#EXTM3U\nmusic/track.mp3\n../radio.pls\nfile:///home/me/a.mp3\n', 'm3u'));
+
+    expect(plan.additions).toEqual([]);
+    expect(plan.invalid.map(({ entry, reason }) => [entry.url, reason])).toEqual([
+      ['music/track.mp3', expect.stringContaining('Invalid stream URL')],
+      ['../radio.pls', expect.stringContaining('Invalid stream URL')],
+      ['file:///home/me/a.mp3', expect.stringContaining('http or https')]
+    ]);
+  });
+
+  it('skips entries already in the catalog or earlier in the file', () => {
+    const existing = getStations()[0];
+    const plan = planImport([
+      { url: `${existing.url.toUpperCase()}/` },
+      { url: 'https://example.com/new', title: existing.name },
+      { url: 'https://example.com/new/' }
+    ]);
+
+    expect(plan.duplicates.map(duplicate => duplicate.existing?.id)).toEqual([existing.id, plan.additions[0].id]);
+    // Same name as a catalog station, so it needs an id of its own
+    expect(plan.additions).toHaveLength(1);
+    expect(plan.additions[0].id).not.toBe(existing.id);
+  });
+});
@@ -0,0 +1,177 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../../src/config/store.js';
+import { getStationById } from '../../src/config/stations.js';
+import { CommandRegistry } from '../../src/commands/registry.js';
+import { builtinCommands } from '../../src/commands/builtin.js';
+import { PluginHost, getPluginDir } from '../../src/plugins/PluginHost.js';
+import type { PluginInfo } from '../../src/types/index.js';
+
+// Module URLs are cached for the whole run, so every plugin file gets a name
+// of its own; padded, since plugins load in file name order
+let pluginCount = 0;
+const nextPluginName = () => `plugin-${String(++pluginCount).padStart(3, '0')}`;
+
+const writePlugin = (setup: string, fields: string = 'apiVersion: 1'): string => {
+  const name = nextPluginName();
+  fs.writeFileSync(path.join(getPluginDir(), `${name}.mjs`), `export default {
+  name: '${name}',
+  version: '1.0.0',
+  ${fields},
+  async setup(api) {
+${setup}
+  }
+};
+`);
+  return name;
+};
+
+// What a well-behaved plugin contributes, before whatever goes wrong
+const contribute = (name: string): string => `
+    api.registerCommand({ name: '${name}-cmd', description: 'Test', run() {} });
+    api.addStations([{ id: '${name}-station', name: 'Plugin Station', url: 'https://example.com/${name}' }]);
+    api.on('playing', () => { globalThis.heard = [...(globalThis.heard || []), '${name}']; });`;
+
+declare global {
+  var heard: string[] | undefined;
+}
+
+describe('PluginHost', () => {
+  let registry: CommandRegistry;
+  let host: PluginHost;
+  let failures: { plugin: PluginInfo; error: any }[];
+
+  const load = async (): Promise<PluginInfo[]> => {
+    await host.load();
+    return host.getPlugins();
+  };
+
+  // Nothing the plugin tried to add is anywhere to be found
+  const expectNothingFrom = (name: string) => {
+    const player = new EventEmitter();
+    host.attachPlayer(player);
+    player.emit('playing');
+
+    expect(registry.find(`${name}-cmd`)).toBeUndefined();
+    expect(getStationById(`${name}-station`)).toBeUndefined();
+    expect(globalThis.heard ?? []).not.toContain(name);
+  };
+
+  beforeEach(() => {
+    fs.rmSync(getPluginDir(), { recursive: true, force: true });
+    fs.mkdirSync(getPluginDir(), { recursive: true });
+    config.set('plugins', []);
+    globalThis.heard = [];
+
+    registry = new CommandRegistry();
+    builtinCommands.forEach(command => registry.define(command));
+    host = new PluginHost(registry, config);
+    failures = [];
+    host.on('failed', (plugin: PluginInfo, error: any) => failures.push({ plugin, error }));
+  });
+
+  it('adds what a plugin registers', async () => {
+    const name = writePlugin(contribute('good'));
+
+    const [plugin] = await load();
+    const player = new EventEmitter();
+    host.attachPlayer(player);
+    player.emit('playing');
+
+    expect(plugin).toMatchObject({ name, version: '1.0.0', state: 'loaded', commands: ['good-cmd'], stations: 1, events: ['playing'] });
+    expect(registry.find('good-cmd')).toBeDefined();
+    expect(getStationById('good-station')).toMatchObject({ name: 'Plugin Station' });
+    expect(globalThis.heard).toEqual(['good']);
+  });
+
+  it('leaves nothing behind when setup() throws', async () => {
+    writePlugin(`${contribute('throws')}
+    throw new Error('Missing API key');`);
+
+    const [plugin] = await load();
+
+    expect(plugin).toMatchObject({ state: 'failed', error: 'Missing API key', commands: [], stations: 0 });
+    expect(failures).toHaveLength(1);
+    expectNothingFrom('throws');
+  });
+
+  it('gives up on a setup() that never finishes, leaving nothing behind', async () => {
+    writePlugin(`${contribute('hangs')}
+    await new Promise(() => {});`);
+
+    const [plugin] = await load();
+
+    expect(plugin.state).toBe('failed');
+    expect(failures[0].error.code).toBe('PLUGIN_TIMEOUT');
+    expectNothingFrom('hangs');
+  });
+
+  it('rejects a plugin that registers a command name twice', async () => {
+    writePlugin(`${contribute('twice')}
+    api.registerCommand({ name: 'other', aliases: ['twice-cmd'], description: 'Test', run() {} });`);
+
+    const [plugin] = await load();
+
+    expect(plugin).toMatchObject({ state: 'failed', error: 'Registers "twice-cmd" more than once' });
+    expectNothingFrom('twice');
+  });
+
+  it("rejects a command that's already taken, by radio or an earlier plugin", async () => {
+    writePlugin(contribute('first'));
+    writePlugin(`${contribute('second')}
+    api.registerCommand({ name: 'first-cmd', description: 'Test', run() {} });`);
+    writePlugin(`${contribute('third')}
+    api.registerCommand({ name: 'play', description: 'Test', run() {} });`);
+
+    const [first, second, third] = await load();
+
+    expect(first.state).toBe('loaded');
+    expect(second).toMatchObject({ state: 'failed', error: 'There is already a command named "first-cmd"' });
+    expect(third).toMatchObject({ state: 'failed', error: 'There is already a command named "play"' });
+    expectNothingFrom('second');
+    expectNothingFrom('third');
+  });
+
+  it('does not set up a plugin written for another API version', async () => {
+    writePlugin(contribute('future'), 'apiVersion: 2');
+    writePlugin(contribute('unversioned'), "description: 'No apiVersion'");
+
+    const [future, unversioned] = await load();
+
+    expect(future).toMatchObject({ state: 'incompatible', error: 'Written for plugin API v2, but this radio supports v1' });
+    expect(unversioned).toMatchObject({ state: 'incompatible', error: 'No apiVersion given (this radio supports v1)' });
+    expect(failures.map(failure => failure.error.code)).toEqual(['PLUGIN_INCOMPATIBLE', 'PLUGIN_INCOMPATIBLE']);
+    expectNothingFrom('future');
+    expectNothingFrom('unversioned');
+  });
+
+  it('reports a module without a plugin as its default export', async () => {
+    fs.writeFileSync(path.join(getPluginDir(), `${nextPluginName()}.mjs`), 'export const name = "not a plugin";\n');
+    fs.writeFileSync(path.join(getPluginDir(), `${nextPluginName()}.mjs`), 'export default {\n');
+
+    const plugins = await load();
+
+    expect(plugins.map(plugin => plugin.state)).toEqual(['failed', 'failed']);
+    expect(failures[0].error.code).toBe('INVALID_PLUGIN');
+  });
+
+  it('keeps a listener that throws or rejects from reaching the player or other plugins', async () => {
+    writePlugin(`api.on('metadata', () => { throw new Error('sync boom'); });`);
+    writePlugin(`api.on('metadata', async () => { throw new Error('async boom'); });`);
+    writePlugin(`api.on('metadata', () => { globalThis.heard.push('still here'); });`);
+    await load();
+    const player = new EventEmitter();
+    host.attachPlayer(player);
+
+    expect(() => player.emit('metadata', { title: 'Song', raw: 'Song' })).not.toThrow();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(globalThis.heard).toEqual(['still here']);
+    expect(failures.map(failure => failure.error.message).sort()).toEqual([
+      '"metadata" listener threw: async boom',
+      '"metadata" listener threw: sync boom'
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../../src/config/store.js';
+import { getSchedules } from '../../src/config/schedules.js';
+import { Scheduler } from '../../src/scheduler/Scheduler.js';
+import { parseScheduleSpec } from '../../src/scheduler/spec.js';
+import type { ScheduleEntry } from '../../src/types/index.js';
+
+process.env.TZ = 'Europe/Berlin';
+
+// Monday 19 October 2026, 10:00 local
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+const createEntry = (id: string, when: string): ScheduleEntry => ({
+  id,
+  when,
+  ...parseScheduleSpec(when),
+  action: 'stop',
+  skipIfPlaying: false,
+  createdAt: new Date(2026, 9, 1).toISOString(),
+  lastRun: null
+});
+
+// Runs are reported once the runner's promise settles
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Scheduler', () => {
+  let scheduler: Scheduler;
+  let ran: string[];
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    ran = [];
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  // Listeners go on before start(), which checks straight away
+  const createScheduler = (entries: ScheduleEntry[], runner = async (entry: ScheduleEntry) => { ran.push(entry.id); }) => {
+    config.set('schedules', entries);
+    scheduler = new Scheduler(runner);
+    return scheduler;
+  };
+
+  it('catches up an entry missed by less than two hours', async () => {
+    const run = vi.fn();
+    createScheduler([createEntry('1', 'daily 08:30')]).on('run', run);
+    scheduler.start();
+    await settle();
+
+    expect(ran).toEqual(['1']);
+    expect(run).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), new Date(2026, 9, 19, 8, 30));
+    expect(getSchedules()[0].lastRun).toBe(new Date(2026, 9, 19, 8, 30).toISOString());
+  });
+
+  it('skips an entry missed by more than two hours, but records it', async () => {
+    const missed = vi.fn();
+    createScheduler([createEntry('1', 'daily 07:30')]).on('missed', missed);
+    scheduler.start();
+    await settle();
+
+    expect(ran).toEqual([]);
+    expect(missed).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), new Date(2026, 9, 19, 7, 30));
+    expect(getSchedules()[0].lastRun).toBe(new Date(2026, 9, 19, 7, 30).toISOString());
+  });
+
+  it('leaves an entry alone that already ran or was added since it was due', async () => {
+    createScheduler([
+      { ...createEntry('1', 'daily 09:00'), lastRun: new Date(2026, 9, 19, 9, 0).toISOString() },
+      { ...createEntry('2', 'daily 09:00'), createdAt: new Date(2026, 9, 19, 9, 30).toISOString() }
+    ]).start();
+    await settle();
+
+    expect(ran).toEqual([]);
+  });
+
+  it('reports a failing entry without retrying it', async () => {
+    const failed = vi.fn();
+    createScheduler([createEntry('1', 'daily 09:00')], async () => {
+      throw new Error('Station "gone" no longer exists');
+    }).on('failed', failed);
+    scheduler.start();
+    await settle();
+
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), expect.objectContaining({ message: 'Station "gone" no longer exists' }));
+    expect(getSchedules()[0].lastRun).not.toBeNull();
+  });
+
+  it('runs the other entries while one never starts playing', async () => {
+    const run = vi.fn();
+    createScheduler([createEntry('1', 'daily 09:00'), createEntry('2', 'daily 09:30')], entry => {
+      ran.push(entry.id);
+      return entry.id === '1' ? new Promise(() => {}) : Promise.resolve();
+    }).on('run', run);
+    scheduler.start();
+    await settle();
+
+    expect(ran).toEqual(['1', '2']);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run).toHaveBeenCalledWith(expect.objectContaining({ id: '2' }), new Date(2026, 9, 19, 9, 30));
+  });
+});
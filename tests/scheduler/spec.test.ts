@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { nextOccurrence, parseScheduleSpec, previousOccurrence } from '../../src/scheduler/spec.js';
+
+// Wall-clock times only mean something in one zone; this one changes clocks
+// on 29 March (02:00 -> 03:00) and 25 October (03:00 -> 02:00) in 2026
+process.env.TZ = 'Europe/Berlin';
+
+describe('parseScheduleSpec', () => {
+  it('reads day ranges, lists and groups', () => {
+    expect(parseScheduleSpec('mon-fri 09:00')).toEqual({ days: [1, 2, 3, 4, 5], hour: 9, minute: 0 });
+    expect(parseScheduleSpec('Sat, Sunday 10:30')).toEqual({ days: [0, 6], hour: 10, minute: 30 });
+    expect(parseScheduleSpec('weekends 8:05').days).toEqual([0, 6]);
+  });
+
+  it('wraps a range that ends earlier in the week', () => {
+    expect(parseScheduleSpec('fri-mon 22:00').days).toEqual([0, 1, 5, 6]);
+  });
+
+  it('runs every day when no days are given', () => {
+    expect(parseScheduleSpec('07:15')).toEqual({ days: [0, 1, 2, 3, 4, 5, 6], hour: 7, minute: 15 });
+  });
+
+  it('rejects unknown days and impossible times', () => {
+    expect(() => parseScheduleSpec('funday 09:00')).toThrow(expect.objectContaining({ code: 'INVALID_SCHEDULE' }));
+    expect(() => parseScheduleSpec('daily 24:00')).toThrow(expect.objectContaining({ code: 'INVALID_SCHEDULE' }));
+    expect(() => parseScheduleSpec('daily 9am')).toThrow(expect.objectContaining({ code: 'INVALID_SCHEDULE' }));
+    expect(() => parseScheduleSpec('')).toThrow(expect.objectContaining({ code: 'INVALID_SCHEDULE' }));
+  });
+});
+
+describe('next and previous occurrences', () => {
+  const daily = (time: string) => parseScheduleSpec(time);
+
+  it('stays on the wall clock when the clocks go forward', () => {
+    // Only 23 hours later, but still 09:00 local
+    const next = nextOccurrence(daily('09:00'), new Date(2026, 2, 28, 9, 0));
+
+    expect(next?.toISOString()).toBe('2026-03-29T07:00:00.000Z');
+  });
+
+  it('stays on the wall clock when the clocks go back', () => {
+    const next = nextOccurrence(daily('09:00'), new Date(2026, 9, 24, 10, 0));
+
+    expect(next?.toISOString()).toBe('2026-10-25T08:00:00.000Z');
+  });
+
+  it('runs a time the clocks skip just after the gap', () => {
+    const next = nextOccurrence(daily('02:30'), new Date(2026, 2, 29, 0, 0));
+
+    expect(next?.toISOString()).toBe('2026-03-29T01:30:00.000Z');
+    expect(next?.getHours()).toBe(3);
+  });
+
+  it('skips days the entry does not run on', () => {
+    const weekdays = parseScheduleSpec('mon-fri 09:00');
+    // Sunday 18 October
+    const now = new Date(2026, 9, 18, 12, 0);
+
+    expect(previousOccurrence(weekdays, now)).toEqual(new Date(2026, 9, 16, 9, 0));
+    expect(nextOccurrence(weekdays, now)).toEqual(new Date(2026, 9, 19, 9, 0));
+  });
+
+  it('counts a time due right now as the previous one, not the next', () => {
+    const now = new Date(2026, 9, 19, 9, 0);
+
+    expect(previousOccurrence(daily('09:00'), now)).toEqual(now);
+    expect(nextOccurrence(daily('09:00'), now)).toEqual(new Date(2026, 9, 20, 9, 0));
+  });
+
+  it('finds nothing for an entry without days', () => {
+    expect(nextOccurrence({ days: [], hour: 9, minute: 0 }, new Date())).toBeNull();
+  });
+});
@@ -0,0 +1,11 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+const configHome = fs.mkdtempSync(path.join(os.tmpdir(), 'lofi-radio-test-'));
+process.env.XDG_CONFIG_HOME = configHome;
+
+afterAll(() => {
+  fs.rmSync(configHome, { recursive: true, force: true });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { buildStatsReport } from '../../src/stats/report.js';
+import type { FocusSessionRecord, ListeningSession } from '../../src/types/index.js';
+
+// Days are local calendar days; UTC is five hours ahead here in October,
+// so an evening session falls on the next day in UTC
+process.env.TZ = 'America/New_York';
+
+// Monday 19 October 2026, 12:00 local
+const NOW = new Date(2026, 9, 19, 12, 0);
+
+const createSession = (stationId: string, start: Date, minutes: number, reconnects: number = 0): ListeningSession => ({
+  stationId,
+  stationName: stationId.toUpperCase(),
+  startedAt: start.toISOString(),
+  endedAt: new Date(start.getTime() + minutes * 60 * 1000).toISOString(),
+  duration: minutes * 60,
+  reconnects
+});
+
+const createFocusRecord = (endedAt: Date, completed: boolean): FocusSessionRecord => ({
+  stationId: 'lofi',
+  stationName: 'LOFI',
+  breakStationId: null,
+  startedAt: new Date(endedAt.getTime() - 60 * 60 * 1000).toISOString(),
+  endedAt: endedAt.toISOString(),
+  cycles: completed ? 2 : 1,
+  plannedCycles: 2,
+  focusSeconds: completed ? 3000 : 1500,
+  completed
+});
+
+describe('buildStatsReport', () => {
+  it('adds up listening by station, busiest first', () => {
+    const report = buildStatsReport([
+      createSession('jazz', new Date(2026, 9, 17, 9, 0), 30, 1),
+      createSession('lofi', new Date(2026, 9, 18, 9, 0), 90, 2),
+      createSession('jazz', new Date(2026, 9, 19, 9, 0), 20)
+    ], [], 'week', NOW);
+
+    expect(report).toMatchObject({ totalSeconds: 140 * 60, sessions: 3, reconnects: 3 });
+    expect(report.stations).toEqual([
+      { stationId: 'lofi', stationName: 'LOFI', seconds: 90 * 60, sessions: 1 },
+      { stationId: 'jazz', stationName: 'JAZZ', seconds: 50 * 60, sessions: 2 }
+    ]);
+    expect(report.longestSession?.stationId).toBe('lofi');
+  });
+
+  it('counts only the part of a session inside the period', () => {
+    const since = new Date(NOW.getTime() - 7 * 24 * 60 * 60 * 1000);
+    const report = buildStatsReport([
+      // Ended before the period
+      createSession('jazz', new Date(2026, 9, 1, 9, 0), 60),
+      // Started an hour before it and ran on for another
+      createSession('lofi', new Date(since.getTime() - 60 * 60 * 1000), 120)
+    ], [], 'week', NOW);
+
+    expect(report.since).toBe(since.toISOString());
+    expect(report.sessions).toBe(1);
+    expect(report.totalSeconds).toBe(60 * 60);
+    expect(report.longestSession?.startedAt).toBe(since.toISOString());
+  });
+
+  it('counts everything for all time', () => {
+    const report = buildStatsReport([createSession('jazz', new Date(2020, 0, 1, 9, 0), 60)], [], 'all', NOW);
+
+    expect(report).toMatchObject({ since: null, sessions: 1, totalSeconds: 3600 });
+  });
+
+  it('counts focus sessions in the period they ended in', () => {
+    const report = buildStatsReport([], [
+      createFocusRecord(new Date(2026, 9, 1, 10, 0), true),
+      createFocusRecord(new Date(2026, 9, 18, 10, 0), true),
+      createFocusRecord(new Date(2026, 9, 19, 10, 0), false)
+    ], 'week', NOW);
+
+    expect(report.focus).toEqual({ sessions: 2, completed: 1, cycles: 3, focusSeconds: 4500 });
+  });
+});
+
+describe('listening streaks', () => {
+  const streaks = (sessions: ListeningSession[]) => {
+    const { currentStreak, longestStreak } = buildStatsReport(sessions, [], 'all', NOW);
+    return { currentStreak, longestStreak };
+  };
+
+  it('counts the days in a row up to today', () => {
+    expect(streaks([
+      createSession('lofi', new Date(2026, 9, 17, 9, 0), 10),
+      createSession('lofi', new Date(2026, 9, 18, 9, 0), 10),
+      createSession('lofi', new Date(2026, 9, 19, 9, 0), 10)
+    ])).toEqual({ currentStreak: 3, longestStreak: 3 });
+  });
+
+  it('keeps the streak going until today ends without listening', () => {
+    expect(streaks([
+      createSession('lofi', new Date(2026, 9, 17, 9, 0), 10),
+      createSession('lofi', new Date(2026, 9, 18, 9, 0), 10)
+    ]).currentStreak).toBe(2);
+  });
+
+  it('breaks the streak after a day without listening', () => {
+    expect(streaks([
+      createSession('lofi', new Date(2026, 9, 10, 9, 0), 10),
+      createSession('lofi', new Date(2026, 9, 11, 9, 0), 10),
+      createSession('lofi', new Date(2026, 9, 12, 9, 0), 10),
+      createSession('lofi', new Date(2026, 9, 17, 9, 0), 10)
+    ])).toEqual({ currentStreak: 0, longestStreak: 3 });
+  });
+
+  it('counts a session past midnight for both days', () => {
+    expect(streaks([
+      createSession('lofi', new Date(2026, 9, 17, 23, 30), 60),
+      createSession('lofi', new Date(2026, 9, 19, 9, 0), 10)
+    ])).toEqual({ currentStreak: 3, longestStreak: 3 });
+  });
+
+  it('goes by the local day, not the UTC one', () => {
+    // Both are on the 18th in UTC, but the 17th and 18th here
+    expect(streaks([
+      createSession('lofi', new Date(2026, 9, 17, 21, 0), 30),
+      createSession('lofi', new Date(2026, 9, 18, 9, 0), 10)
+    ])).toEqual({ currentStreak: 2, longestStreak: 2 });
+  });
+
+  it('has no streak without any listening', () => {
+    expect(streaks([])).toEqual({ currentStreak: 0, longestStreak: 0 });
+  });
+});
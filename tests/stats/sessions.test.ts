@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConfigDir } from '../../src/config/store.js';
+import { SessionRecorder, getSessionLogPath, readSessions } from '../../src/stats/sessions.js';
+import type { Station } from '../../src/types/index.js';
+
+const NOW = new Date('2026-10-19T10:00:00Z');
+
+const createStation = (id: string): Station => ({
+  id,
+  name: id.toUpperCase(),
+  url: `https://example.com/${id}`,
+  genre: 'Lofi',
+  description: '',
+  quality: '128kbps MP3'
+});
+
+const checkpointPath = () => path.join(getConfigDir(), 'session.checkpoint.json');
+
+const readLog = () => fs.readFileSync(getSessionLogPath(), 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+describe('SessionRecorder', () => {
+  let recorder: SessionRecorder;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    fs.mkdirSync(getConfigDir(), { recursive: true });
+    fs.rmSync(getSessionLogPath(), { force: true });
+    fs.rmSync(checkpointPath(), { force: true });
+    recorder = new SessionRecorder();
+  });
+
+  afterEach(() => {
+    recorder.finish();
+    vi.useRealTimers();
+  });
+
+  it('records a session from playing to stopping', () => {
+    recorder.playing(createStation('lofi'));
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    recorder.reconnected();
+    recorder.stopped();
+    // Past the window in which playing again would continue it
+    vi.advanceTimersByTime(60 * 1000);
+
+    expect(readLog()).toEqual([{
+      stationId: 'lofi',
+      stationName: 'LOFI',
+      startedAt: NOW.toISOString(),
+      endedAt: new Date(NOW.getTime() + 5 * 60 * 1000).toISOString(),
+      duration: 300,
+      reconnects: 1
+    }]);
+    expect(fs.existsSync(checkpointPath())).toBe(false);
+  });
+
+  it('continues the session when the same station plays again soon after', () => {
+    recorder.playing(createStation('lofi'));
+    vi.advanceTimersByTime(60 * 1000);
+    recorder.stopped();
+    vi.advanceTimersByTime(10 * 1000);
+    recorder.playing(createStation('lofi'));
+    vi.advanceTimersByTime(60 * 1000);
+    recorder.finish();
+
+    expect(readLog()).toHaveLength(1);
+    expect(readLog()[0].duration).toBe(130);
+  });
+
+  it('starts a new session for another station', () => {
+    recorder.playing(createStation('lofi'));
+    vi.advanceTimersByTime(60 * 1000);
+    recorder.playing(createStation('jazz'));
+    recorder.finish();
+
+    expect(readLog().map(session => [session.stationId, session.duration])).toEqual([['lofi', 60], ['jazz', 0]]);
+  });
+
+  it('recovers a crashed session up to its last checkpoint', () => {
+    recorder.playing(createStation('lofi'));
+    // Two checkpoints, then the daemon dies without finishing
+    vi.advanceTimersByTime(75 * 1000);
+    const checkpoint = JSON.parse(fs.readFileSync(checkpointPath(), 'utf8'));
+    expect(checkpoint.lastSeenAt).toBe(new Date(NOW.getTime() + 60 * 1000).toISOString());
+    vi.clearAllTimers();
+
+    // The still-open session shows up until it's recovered
+    expect(readSessions().map(session => session.duration)).toEqual([60]);
+
+    const restarted = new SessionRecorder();
+    restarted.recover();
+
+    expect(readLog()).toEqual([expect.objectContaining({ stationId: 'lofi', duration: 60 })]);
+    expect(fs.existsSync(checkpointPath())).toBe(false);
+    expect(readSessions()).toHaveLength(1);
+  });
+
+  it('has nothing to recover after a clean shutdown', () => {
+    recorder.playing(createStation('lofi'));
+    vi.advanceTimersByTime(60 * 1000);
+    recorder.finish();
+
+    new SessionRecorder().recover();
+
+    expect(readLog()).toHaveLength(1);
+  });
+
+  it('skips a line left half-written', () => {
+    fs.writeFileSync(getSessionLogPath(), '{"stationId":"lofi","duration":60}\n{"stationId":"ja');
+
+    expect(readSessions()).toEqual([{ stationId: 'lofi', duration: 60 }]);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getStatusBarFields, parseStatusTemplate, renderStatusBar } from '../../src/statusbar/format.js';
+import type { PlayerStatus } from '../../src/types/index.js';
+
+const NOW = new Date('2026-10-19T10:00:00Z');
+
+const createStatus = (overrides: Partial<PlayerStatus> = {}): PlayerStatus => ({
+  isPlaying: true,
+  currentStation: {
+    id: 'rain',
+    name: 'Rain & <Tea> #1 100%',
+    url: 'https://example.com/rain',
+    genre: 'Lofi',
+    description: '',
+    quality: '128kbps MP3'
+  },
+  volume: 60,
+  startTime: new Date(NOW.getTime() - 65 * 1000).toISOString(),
+  uptime: '1m',
+  track: { artist: 'Nujabes', title: 'Aruarian Dance', raw: 'Nujabes - Aruarian Dance' },
+  backend: 'mpv',
+  muted: false,
+  sleepEndsAt: null,
+  sleepRemaining: null,
+  recording: null,
+  quality: null,
+  qualityMode: 'auto',
+  focus: null,
+  ...overrides
+});
+
+// Uptimes and countdowns count from now
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('status templates', () => {
+  it('fills in placeholders from the status', () => {
+    const fields = getStatusBarFields(createStatus());
+
+    expect(renderStatusBar('{icon} {artist}: {title} [{volume}%] {uptime} via {backend}', fields))
+      .toBe('♪ Nujabes: Aruarian Dance [60%] 1:05 via mpv');
+  });
+
+  it('falls back through alternatives to the first that is not empty', () => {
+    const fields = getStatusBarFields(createStatus({ track: null }));
+
+    expect(renderStatusBar('{track|station}', fields)).toBe('Rain & <Tea> #1 100%');
+    expect(renderStatusBar('{sleep|focus}', fields)).toBe('');
+  });
+
+  it('cuts a placeholder to its width', () => {
+    const fields = getStatusBarFields(createStatus());
+
+    expect(renderStatusBar('{track:10}|', fields)).toBe('Nujabes -…|');
+  });
+
+  it('keeps doubled braces as literal ones', () => {
+    expect(renderStatusBar('{{{state}}}', getStatusBarFields(null))).toBe('{stopped}');
+  });
+
+  it('leaves fields empty when nothing is playing', () => {
+    const fields = getStatusBarFields(null);
+
+    expect(fields).toMatchObject({ state: 'stopped', icon: '■', station: '', track: '', volume: '', uptime: '' });
+  });
+
+  it('keeps the station while reconnecting, but not the track', () => {
+    const fields = getStatusBarFields(createStatus({ isPlaying: false }), true);
+
+    expect(fields).toMatchObject({ state: 'reconnecting', station: 'Rain & <Tea> #1 100%', track: '' });
+  });
+
+  it.each([
+    ['{nope}', 'Unknown placeholder "{nope}"'],
+    ['{track|nope}', 'Unknown placeholder "{nope}"'],
+    ['{track', 'Unclosed "{"'],
+    ['track}', 'Unmatched "}"'],
+    ['{track:0}', 'must be a positive number'],
+    ['{track:wide}', 'must be a positive number']
+  ])('rejects %s', (template, message) => {
+    expect(() => parseStatusTemplate(template)).toThrow(expect.objectContaining({
+      code: 'INVALID_TEMPLATE',
+      message: expect.stringContaining(message)
+    }));
+  });
+});
+
+describe('status bar presets', () => {
+  it('colours tmux output and doubles the hashes in names', () => {
+    const fields = getStatusBarFields(createStatus({ track: null }));
+
+    expect(renderStatusBar('tmux', fields)).toBe('#[fg=green]♪ Rain & <Tea> ##1 100% 60%#[default]');
+  });
+
+  it('colours polybar output and doubles the percent signs in names', () => {
+    const fields = getStatusBarFields(createStatus({ track: null, muted: true }));
+
+    expect(renderStatusBar('polybar', fields)).toBe('%{F#fabd2f}♪ Rain & <Tea> #1 100%% muted%{F-}');
+  });
+
+  it('gives waybar JSON with Pango escaped', () => {
+    const output = JSON.parse(renderStatusBar('waybar', getStatusBarFields(createStatus({ track: null }))));
+
+    expect(output).toEqual({
+      text: '♪ Rain &amp; &lt;Tea&gt; #1 100% 60%',
+      tooltip: 'Rain &amp; &lt;Tea&gt; #1 100%\nVolume: 60%\nPlaying for 1:05',
+      class: 'playing',
+      alt: 'playing',
+      percentage: 60
+    });
+  });
+
+  it('gives i3blocks three lines, or one JSON object when streaming', () => {
+    const fields = getStatusBarFields(null);
+
+    expect(renderStatusBar('i3blocks', fields)).toBe('■ off\n■\n#928374');
+    expect(JSON.parse(renderStatusBar('i3blocks', fields, true))).toEqual({ full_text: '■ off', short_text: '■', color: '#928374' });
+  });
+
+  it('cuts long track names to fit the bar', () => {
+    const fields = getStatusBarFields(createStatus({ track: { title: 'x'.repeat(60), raw: '' } }));
+
+    expect(renderStatusBar('i3blocks', fields).split('\n')[0]).toBe(`♪ ${'x'.repeat(39)}… 60%`);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseDuration, parseTimeout } from '../../src/utils/helpers.js';
+
+describe('parseDuration', () => {
+  it('reads units and takes a bare number as minutes', () => {
+    expect(parseDuration('1h30m')).toBe(5400);
+    expect(parseDuration('90s')).toBe(90);
+    expect(parseDuration('45')).toBe(2700);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseDuration('soon')).toBeNull();
+    expect(parseDuration('')).toBeNull();
+  });
+});
+
+describe('parseTimeout', () => {
+  it('takes a bare number as seconds', () => {
+    expect(parseTimeout('10')).toBe(10);
+    expect(parseTimeout(' 2.5 ')).toBe(2.5);
+  });
+
+  it('reads units like parseDuration', () => {
+    expect(parseTimeout('10s')).toBe(10);
+    expect(parseTimeout('1m30s')).toBe(90);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTimeout('10 seconds')).toBeNull();
+    expect(parseTimeout('')).toBeNull();
+  });
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // Each test file gets a config directory of its own, set before anything loads the config
+    setupFiles: ['tests/setup.ts'],
+    testTimeout: 20000
+  }
+});